@@ -1,7 +1,8 @@
 import Link from "next/link";
 import { redirect } from "next/navigation";
 import { signOutAction } from "@/app/actions/auth";
-import { getProfileForAuthUser, hasAdminAccess } from "@/lib/auth/profile";
+import { hasConsoleAccess } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
 import { createClient } from "@/lib/supabase/server";
 
 export default async function AccessDeniedPage() {
@@ -21,28 +22,33 @@ export default async function AccessDeniedPage() {
   } = await supabase.auth.getUser();
   const userEmail = user?.email ?? null;
   const profile = await getProfileForAuthUser(supabase, user?.id);
-
-  if (hasAdminAccess(userEmail, profile.role)) {
-    redirect("/");
-  }
+  const canOpenConsole = hasConsoleAccess(userEmail, profile.role);
 
   return (
     <main className="page-shell">
       <section className="card">
-        <h2>Admin access required</h2>
+        <h2>Access required</h2>
         <p className="subtitle">
-          Your account is signed in, but this page is only available to admins.
+          Your account is signed in, but your role does not include this page.
         </p>
 
         <div className="denied">
           Signed in as <strong>{userEmail ?? "Unknown email"}</strong>
           <br />
           User ID: <strong>{profile.user_id ?? "Not set"}</strong>
+          <br />
+          Role: <strong>{profile.role ?? "Not set"}</strong>
         </div>
 
-        <Link href="/user" className="button button-secondary" style={{ marginTop: 12 }}>
-          Go to User Portal
-        </Link>
+        {canOpenConsole ? (
+          <Link href="/" className="button button-secondary" style={{ marginTop: 12 }}>
+            Back to console
+          </Link>
+        ) : (
+          <Link href="/user" className="button button-secondary" style={{ marginTop: 12 }}>
+            Go to User Portal
+          </Link>
+        )}
 
         <form action={signOutAction} className="form-stack">
           <button type="submit" className="button button-danger">
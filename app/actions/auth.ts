@@ -1,6 +1,9 @@
 "use server";
 
 import { redirect } from "next/navigation";
+import { getSignedInPath } from "@/lib/auth/mfa";
+import { validatePassword, type SetPasswordResult } from "@/lib/auth/password";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
 import { createClient } from "@/lib/supabase/server";
 
 export async function signOutAction() {
@@ -8,3 +11,40 @@ export async function signOutAction() {
   await supabase.auth.signOut();
   redirect("/login");
 }
+
+// Sets the signed-in user's own password, e.g. right after accepting an invite.
+export async function setOwnPassword(password: string): Promise<SetPasswordResult> {
+  const supabase = await createClient();
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return {
+      ok: false,
+      error: "Your invite link has expired. Ask an admin to send a new one."
+    };
+  }
+
+  const validationError = validatePassword(String(password ?? ""));
+  if (validationError) {
+    return {
+      ok: false,
+      error: validationError
+    };
+  }
+
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) {
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  const profile = await getProfileForAuthUser(supabase, user.id);
+  return {
+    ok: true,
+    redirectTo: await getSignedInPath(supabase, user.email, profile.role)
+  };
+}
@@ -1,17 +1,65 @@
 "use server";
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { revalidatePath } from "next/cache";
-import { getProfileForAuthUser, hasAdminAccess } from "@/lib/auth/profile";
+import { getMfaStatus, isMfaPending } from "@/lib/auth/mfa";
+import { hasPermission, type AppPermission } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import {
+  formatRecipientCell,
+  MAX_CONTACT_IMPORT_ROWS,
+  parseRecipientCell
+} from "@/lib/contacts/import";
+import {
+  isPdfPasswordMode,
+  MIN_PDF_PASSWORD_LENGTH
+} from "@/lib/contacts/pdf-password";
+import {
+  formatRecipientKind,
+  normalizeRecipients,
+  RECIPIENT_KINDS
+} from "@/lib/contacts/recipients";
 import type {
   Contact,
   ContactActionResult,
+  ContactImportApplyResult,
+  ContactImportChange,
+  ContactImportPreviewResult,
+  ContactImportSummary,
+  ContactPdfProtectionInput,
+  ContactRecipient,
   ContactUpdateInput,
   ContactUpsertInput
 } from "@/lib/contacts/types";
+import { getPdfProtection } from "@/lib/pdf/protect";
 import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
 
 const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-const CONTACT_COLUMNS = "account_key,name,email,updated_at";
+const CONTACT_COLUMNS =
+  "account_key,name,email,updated_at,recipients_changed_at,pdf_password_mode,pdf_password_hint,pdf_password_updated_at,recipients:contact_recipients(kind,email,name,position)";
+const IMPORT_CHUNK_SIZE = 200;
+
+type ContactRow = Omit<Contact, "recipients"> & {
+  recipients?: (ContactRecipient & { position: number })[] | null;
+};
+
+type PlannedImportRow = {
+  change: ContactImportChange;
+  contact: Pick<Contact, "account_key" | "name" | "email" | "recipients_changed_at">;
+  // null leaves the account's existing recipients untouched.
+  recipients: ContactRecipient[] | null;
+};
+
+type ImportPlanResult =
+  | {
+      ok: true;
+      planned: PlannedImportRow[];
+    }
+  | {
+      ok: false;
+      error: string;
+    };
 
 function normalizeAccountKey(value: unknown): string {
   return String(value ?? "").trim();
@@ -36,6 +84,346 @@ function isValidEmail(email: string): boolean {
   return EMAIL_PATTERN.test(email);
 }
 
+function toContact(row: ContactRow): Contact {
+  const recipients = [...(row.recipients ?? [])]
+    .sort((left, right) => left.position - right.position)
+    .map(({ kind, email, name }) => ({ kind, email, name }));
+
+  return {
+    account_key: row.account_key,
+    name: row.name,
+    email: row.email,
+    updated_at: row.updated_at,
+    recipients_changed_at: row.recipients_changed_at,
+    recipients,
+    pdf_password_mode: row.pdf_password_mode ?? "none",
+    pdf_password_hint: row.pdf_password_hint ?? null,
+    pdf_password_updated_at: row.pdf_password_updated_at ?? null
+  };
+}
+
+function toContacts(rows: ContactRow[] | null): Contact[] {
+  return (rows ?? []).map((row) => toContact(row));
+}
+
+async function replaceContactRecipients(
+  supabase: SupabaseClient,
+  accountKey: string,
+  recipients: ContactRecipient[]
+): Promise<string | null> {
+  const { error: deleteError } = await supabase
+    .from("contact_recipients")
+    .delete()
+    .eq("account_key", accountKey);
+
+  if (deleteError) {
+    return deleteError.message;
+  }
+
+  if (recipients.length === 0) {
+    return null;
+  }
+
+  const { error: insertError } = await supabase.from("contact_recipients").insert(
+    recipients.map((recipient, index) => ({
+      account_key: accountKey,
+      kind: recipient.kind,
+      email: recipient.email,
+      name: recipient.name,
+      position: index
+    }))
+  );
+
+  return insertError ? insertError.message : null;
+}
+
+function normalizePdfProtection(
+  input: ContactPdfProtectionInput | undefined
+): ContactPdfProtectionInput | string | undefined {
+  if (input === undefined) {
+    return undefined;
+  }
+
+  if (!isPdfPasswordMode(input.mode)) {
+    return "PDF password mode is invalid.";
+  }
+
+  const password =
+    input.mode === "stored" && input.password !== undefined
+      ? String(input.password).trim()
+      : undefined;
+
+  if (password !== undefined && password.length < MIN_PDF_PASSWORD_LENGTH) {
+    return `PDF password must be at least ${MIN_PDF_PASSWORD_LENGTH} characters.`;
+  }
+
+  return {
+    mode: input.mode,
+    hint: normalizeName(input.hint),
+    password
+  };
+}
+
+// Stored passwords are written with the service role; contact_pdf_passwords has no policies
+// for signed-in users. Leaving stored mode drops the old password.
+async function saveStoredPdfPassword(
+  accountKey: string,
+  protection: ContactPdfProtectionInput
+): Promise<string | null> {
+  const serviceRole = createServiceRoleClient();
+
+  if (protection.mode !== "stored") {
+    const { error } = await serviceRole
+      .from("contact_pdf_passwords")
+      .delete()
+      .eq("account_key", accountKey);
+    if (error) {
+      return error.message;
+    }
+
+    const { error: contactError } = await serviceRole
+      .from("contacts")
+      .update({ pdf_password_updated_at: null })
+      .eq("account_key", accountKey);
+    return contactError ? contactError.message : null;
+  }
+
+  if (protection.password === undefined) {
+    return null;
+  }
+
+  const updatedAt = new Date().toISOString();
+  const { error } = await serviceRole.from("contact_pdf_passwords").upsert({
+    account_key: accountKey,
+    password: protection.password,
+    updated_at: updatedAt
+  });
+  if (error) {
+    return error.message;
+  }
+
+  const { error: contactError } = await serviceRole
+    .from("contacts")
+    .update({ pdf_password_updated_at: updatedAt })
+    .eq("account_key", accountKey);
+  return contactError ? contactError.message : null;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+
+  return chunks;
+}
+
+function describeRecipients(recipients: ContactRecipient[]): string {
+  const parts = RECIPIENT_KINDS.map((kind) => {
+    const cell = formatRecipientCell(recipients, kind);
+    return cell ? `${formatRecipientKind(kind)}: ${cell}` : "";
+  }).filter(Boolean);
+
+  return parts.length > 0 ? parts.join(" | ") : "none";
+}
+
+// The addresses a bill goes to, comparable across saves. Recipient names and order do not count.
+function describeAddresses(email: string, recipients: ContactRecipient[]): string {
+  return [
+    email,
+    ...recipients.map((recipient) => `${recipient.kind}:${recipient.email}`).sort()
+  ].join(",");
+}
+
+async function fetchContactsByKeys(
+  supabase: SupabaseClient,
+  accountKeys: string[]
+): Promise<Map<string, Contact> | null> {
+  const contactsByKey = new Map<string, Contact>();
+
+  for (const keys of chunk(accountKeys, IMPORT_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from("contacts")
+      .select(CONTACT_COLUMNS)
+      .in("account_key", keys);
+
+    if (error) {
+      console.error("contacts lookup failed", error);
+      return null;
+    }
+
+    for (const contact of toContacts(data)) {
+      contactsByKey.set(contact.account_key, contact);
+    }
+  }
+
+  return contactsByKey;
+}
+
+// Validates every row and compares it to the stored contact. Rows sharing an account_key
+// are all reported as conflicts, since there is no way to tell which one is intended.
+async function planContactImport(
+  supabase: SupabaseClient,
+  rows: unknown
+): Promise<ImportPlanResult> {
+  if (!Array.isArray(rows)) {
+    return { ok: false, error: "Import rows must be a list." };
+  }
+
+  if (rows.length === 0) {
+    return { ok: false, error: "The file has no contact rows." };
+  }
+
+  if (rows.length > MAX_CONTACT_IMPORT_ROWS) {
+    return {
+      ok: false,
+      error: `Import at most ${MAX_CONTACT_IMPORT_ROWS} contacts at a time.`
+    };
+  }
+
+  const entries = rows.map((row, index) => {
+    const entry = (row !== null && typeof row === "object" ? row : {}) as Record<string, unknown>;
+    const readRecipientCell = (value: unknown) =>
+      value === null || value === undefined ? null : String(value);
+
+    return {
+      rowNumber: Number(entry.row_number) || index + 2,
+      accountKey: normalizeAccountKey(entry.account_key),
+      name: normalizeName(entry.name),
+      email: normalizeEmail(entry.email),
+      to: readRecipientCell(entry.to),
+      cc: readRecipientCell(entry.cc),
+      bcc: readRecipientCell(entry.bcc)
+    };
+  });
+
+  const rowNumbersByKey = new Map<string, number[]>();
+  for (const entry of entries) {
+    if (entry.accountKey) {
+      rowNumbersByKey.set(entry.accountKey, [
+        ...(rowNumbersByKey.get(entry.accountKey) ?? []),
+        entry.rowNumber
+      ]);
+    }
+  }
+
+  const existingContacts = await fetchContactsByKeys(supabase, Array.from(rowNumbersByKey.keys()));
+  if (!existingContacts) {
+    return { ok: false, error: "Could not load existing contacts." };
+  }
+
+  const now = new Date().toISOString();
+  const planned = entries.map<PlannedImportRow>((entry) => {
+    const result = (
+      action: ContactImportChange["action"],
+      details: string[],
+      recipients: ContactRecipient[] | null = null,
+      recipientsChangedAt = now
+    ): PlannedImportRow => ({
+      change: { row_number: entry.rowNumber, account_key: entry.accountKey, action, details },
+      contact: {
+        account_key: entry.accountKey,
+        name: entry.name,
+        email: entry.email,
+        recipients_changed_at: recipientsChangedAt
+      },
+      recipients
+    });
+
+    if (!entry.accountKey) {
+      return result("invalid", ["account_key is required."]);
+    }
+
+    const duplicateRows = (rowNumbersByKey.get(entry.accountKey) ?? []).filter(
+      (rowNumber) => rowNumber !== entry.rowNumber
+    );
+    if (duplicateRows.length > 0) {
+      return result("conflict", [
+        `account_key also appears on row ${duplicateRows.join(", ")}.`
+      ]);
+    }
+
+    if (!entry.email) {
+      return result("invalid", ["Email is required."]);
+    }
+
+    if (!isValidEmail(entry.email)) {
+      return result("invalid", [`Invalid email: ${entry.email}`]);
+    }
+
+    let recipients: ContactRecipient[] | null = null;
+    if (entry.to !== null || entry.cc !== null || entry.bcc !== null) {
+      const recipientsResult = normalizeRecipients(
+        [
+          ...parseRecipientCell("to", entry.to ?? ""),
+          ...parseRecipientCell("cc", entry.cc ?? ""),
+          ...parseRecipientCell("bcc", entry.bcc ?? "")
+        ],
+        entry.email
+      );
+      if (!recipientsResult.ok) {
+        return result("invalid", [recipientsResult.error]);
+      }
+      recipients = recipientsResult.recipients;
+    }
+
+    const existing = existingContacts.get(entry.accountKey);
+    if (!existing) {
+      return result(
+        "create",
+        [entry.email, ...(recipients && recipients.length > 0 ? [describeRecipients(recipients)] : [])],
+        recipients
+      );
+    }
+
+    const details: string[] = [];
+    if ((existing.name ?? null) !== entry.name) {
+      details.push(`name: ${existing.name ?? "-"} → ${entry.name ?? "-"}`);
+    }
+    if (existing.email !== entry.email) {
+      details.push(`email: ${existing.email} → ${entry.email}`);
+    }
+    if (recipients) {
+      const before = describeRecipients(existing.recipients);
+      const after = describeRecipients(recipients);
+      if (before !== after) {
+        details.push(`recipients: ${before} → ${after}`);
+      }
+    }
+
+    const addressesChanged =
+      describeAddresses(existing.email, existing.recipients) !==
+      describeAddresses(entry.email, recipients ?? existing.recipients);
+
+    return details.length > 0
+      ? result(
+          "update",
+          details,
+          recipients,
+          addressesChanged ? now : existing.recipients_changed_at
+        )
+      : result("unchanged", [], null);
+  });
+
+  return { ok: true, planned };
+}
+
+function summarizeImport(planned: PlannedImportRow[]): ContactImportSummary {
+  const summary: ContactImportSummary = {
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    conflict: 0,
+    invalid: 0
+  };
+
+  for (const row of planned) {
+    summary[row.change.action] += 1;
+  }
+
+  return summary;
+}
+
 function filterContactsBySearch(contacts: Contact[], search: string): Contact[] {
   const searchTerm = search.trim().toLowerCase();
   if (!searchTerm) {
@@ -46,12 +434,15 @@ function filterContactsBySearch(contacts: Contact[], search: string): Contact[]
     return (
       contact.account_key.toLowerCase().includes(searchTerm) ||
       (contact.name ?? "").toLowerCase().includes(searchTerm) ||
-      contact.email.toLowerCase().includes(searchTerm)
+      contact.email.toLowerCase().includes(searchTerm) ||
+      contact.recipients.some((recipient) =>
+        recipient.email.toLowerCase().includes(searchTerm)
+      )
     );
   });
 }
 
-async function isAdminSession(): Promise<boolean> {
+async function hasSessionPermission(permission: AppPermission): Promise<boolean> {
   const supabase = await createClient();
   const {
     data: claimsData,
@@ -68,11 +459,16 @@ async function isAdminSession(): Promise<boolean> {
   } = await supabase.auth.getUser();
   const profile = await getProfileForAuthUser(supabase, user?.id);
 
-  return hasAdminAccess(user?.email ?? null, profile.role);
+  const userEmail = user?.email ?? null;
+
+  return (
+    hasPermission(userEmail, profile.role, permission) &&
+    !isMfaPending(await getMfaStatus(supabase, userEmail, profile.role))
+  );
 }
 
 export async function listContacts(search?: string): Promise<Contact[]> {
-  if (!(await isAdminSession())) {
+  if (!(await hasSessionPermission("console:view"))) {
     return [];
   }
 
@@ -89,7 +485,7 @@ export async function listContacts(search?: string): Promise<Contact[]> {
       .order("updated_at", { ascending: false });
 
     if (!error) {
-      return data ?? [];
+      return toContacts(data);
     }
 
     console.error("listContacts SQL search failed, using fallback filter", error);
@@ -103,7 +499,7 @@ export async function listContacts(search?: string): Promise<Contact[]> {
       return [];
     }
 
-    return filterContactsBySearch(fallbackData ?? [], searchTerm);
+    return filterContactsBySearch(toContacts(fallbackData), searchTerm);
   }
 
   const { data, error } = await supabase
@@ -116,13 +512,13 @@ export async function listContacts(search?: string): Promise<Contact[]> {
     return [];
   }
 
-  return data ?? [];
+  return toContacts(data);
 }
 
 export async function getContactsByKeys(
   accountKeys: string[]
 ): Promise<Record<string, Contact>> {
-  if (!(await isAdminSession())) {
+  if (!(await hasSessionPermission("console:view"))) {
     return {};
   }
 
@@ -142,7 +538,7 @@ export async function getContactsByKeys(
     return {};
   }
 
-  return (data ?? []).reduce<Record<string, Contact>>((acc, contact) => {
+  return toContacts(data).reduce<Record<string, Contact>>((acc, contact) => {
     acc[contact.account_key] = contact;
     return acc;
   }, {});
@@ -151,7 +547,7 @@ export async function getContactsByKeys(
 export async function createContact(
   payload: ContactUpsertInput
 ): Promise<ContactActionResult> {
-  if (!(await isAdminSession())) {
+  if (!(await hasSessionPermission("contacts:edit"))) {
     return {
       ok: false,
       error: "Not authorized to create contacts."
@@ -183,11 +579,34 @@ export async function createContact(
     };
   }
 
+  const recipientsResult = normalizeRecipients(payload.recipients, email);
+  if (!recipientsResult.ok) {
+    return recipientsResult;
+  }
+
+  const pdfProtection = normalizePdfProtection(payload.pdf_protection);
+  if (typeof pdfProtection === "string") {
+    return {
+      ok: false,
+      error: pdfProtection
+    };
+  }
+
+  if (pdfProtection?.mode === "stored" && pdfProtection.password === undefined) {
+    return {
+      ok: false,
+      error: "Enter the PDF password to store for this account."
+    };
+  }
+
   const supabase = await createClient();
   const { error } = await supabase.from("contacts").insert({
     account_key: accountKey,
     name,
-    email
+    email,
+    ...(pdfProtection
+      ? { pdf_password_mode: pdfProtection.mode, pdf_password_hint: pdfProtection.hint }
+      : {})
   });
 
   if (error) {
@@ -204,6 +623,28 @@ export async function createContact(
     };
   }
 
+  const recipientsError = await replaceContactRecipients(
+    supabase,
+    accountKey,
+    recipientsResult.recipients
+  );
+  if (recipientsError) {
+    return {
+      ok: false,
+      error: recipientsError
+    };
+  }
+
+  if (pdfProtection) {
+    const passwordError = await saveStoredPdfPassword(accountKey, pdfProtection);
+    if (passwordError) {
+      return {
+        ok: false,
+        error: passwordError
+      };
+    }
+  }
+
   revalidatePath("/contacts");
   return { ok: true };
 }
@@ -212,7 +653,7 @@ export async function updateContact(
   account_key: string,
   payload: ContactUpdateInput
 ): Promise<ContactActionResult> {
-  if (!(await isAdminSession())) {
+  if (!(await hasSessionPermission("contacts:edit"))) {
     return {
       ok: false,
       error: "Not authorized to update contacts."
@@ -244,12 +685,50 @@ export async function updateContact(
     };
   }
 
+  const recipientsResult = normalizeRecipients(payload.recipients, email);
+  if (!recipientsResult.ok) {
+    return recipientsResult;
+  }
+
+  const pdfProtection = normalizePdfProtection(payload.pdf_protection);
+  if (typeof pdfProtection === "string") {
+    return {
+      ok: false,
+      error: pdfProtection
+    };
+  }
+
   const supabase = await createClient();
+  const existing = (await fetchContactsByKeys(supabase, [accountKey]))?.get(accountKey);
+
+  if (
+    pdfProtection?.mode === "stored" &&
+    pdfProtection.password === undefined &&
+    !existing?.pdf_password_updated_at
+  ) {
+    return {
+      ok: false,
+      error: "Enter the PDF password to store for this account."
+    };
+  }
+
+  const addressesChanged =
+    !existing ||
+    describeAddresses(existing.email, existing.recipients) !==
+      describeAddresses(
+        email,
+        payload.recipients !== undefined ? recipientsResult.recipients : existing.recipients
+      );
+
   const { error } = await supabase
     .from("contacts")
     .update({
       name,
-      email
+      email,
+      ...(addressesChanged ? { recipients_changed_at: new Date().toISOString() } : {}),
+      ...(pdfProtection
+        ? { pdf_password_mode: pdfProtection.mode, pdf_password_hint: pdfProtection.hint }
+        : {})
     })
     .eq("account_key", accountKey);
 
@@ -260,14 +739,80 @@ export async function updateContact(
     };
   }
 
+  // Callers that only edit name/email leave the recipient list untouched.
+  if (payload.recipients !== undefined) {
+    const recipientsError = await replaceContactRecipients(
+      supabase,
+      accountKey,
+      recipientsResult.recipients
+    );
+    if (recipientsError) {
+      return {
+        ok: false,
+        error: recipientsError
+      };
+    }
+  }
+
+  if (pdfProtection) {
+    const passwordError = await saveStoredPdfPassword(accountKey, pdfProtection);
+    if (passwordError) {
+      return {
+        ok: false,
+        error: passwordError
+      };
+    }
+  }
+
   revalidatePath("/contacts");
   return { ok: true };
 }
 
+// Lets a sender or super admin read out the PDF password of an account to share it with the
+// client. Contact editors can set passwords but not read them back; every reveal is logged.
+export async function revealPdfPassword(
+  account_key: string
+): Promise<{ ok: true; password: string | null } | { ok: false; error: string }> {
+  if (!(await hasSessionPermission("pdf_passwords:reveal"))) {
+    return {
+      ok: false,
+      error: "Not authorized to view PDF passwords."
+    };
+  }
+
+  const accountKey = normalizeAccountKey(account_key);
+  if (!accountKey) {
+    return {
+      ok: false,
+      error: "Account key is required."
+    };
+  }
+
+  try {
+    const protection = await getPdfProtection(accountKey);
+    const {
+      data: { user }
+    } = await (await createClient()).auth.getUser();
+
+    console.info("PDF password revealed", {
+      account_key: accountKey,
+      auth_user_id: user?.id ?? null,
+      email: user?.email ?? null
+    });
+
+    return { ok: true, password: protection.password };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Failed to load the PDF password."
+    };
+  }
+}
+
 export async function deleteContact(
   account_key: string
 ): Promise<ContactActionResult> {
-  if (!(await isAdminSession())) {
+  if (!(await hasSessionPermission("contacts:edit"))) {
     return {
       ok: false,
       error: "Not authorized to delete contacts."
@@ -298,3 +843,109 @@ export async function deleteContact(
   revalidatePath("/contacts");
   return { ok: true };
 }
+
+export async function previewContactImport(rows: unknown): Promise<ContactImportPreviewResult> {
+  if (!(await hasSessionPermission("contacts:edit"))) {
+    return {
+      ok: false,
+      error: "Not authorized to import contacts."
+    };
+  }
+
+  const supabase = await createClient();
+  const plan = await planContactImport(supabase, rows);
+  if (!plan.ok) {
+    return plan;
+  }
+
+  return {
+    ok: true,
+    changes: plan.planned.map((row) => row.change),
+    summary: summarizeImport(plan.planned)
+  };
+}
+
+// The plan is rebuilt from the submitted rows rather than trusting the preview, so
+// contacts edited in between are compared against their current values.
+export async function applyContactImport(rows: unknown): Promise<ContactImportApplyResult> {
+  if (!(await hasSessionPermission("contacts:edit"))) {
+    return {
+      ok: false,
+      error: "Not authorized to import contacts."
+    };
+  }
+
+  const supabase = await createClient();
+  const plan = await planContactImport(supabase, rows);
+  if (!plan.ok) {
+    return plan;
+  }
+
+  const writes = plan.planned.filter(
+    (row) => row.change.action === "create" || row.change.action === "update"
+  );
+
+  for (const rowsChunk of chunk(writes, IMPORT_CHUNK_SIZE)) {
+    const { error } = await supabase.from("contacts").upsert(
+      rowsChunk.map((row) => row.contact),
+      { onConflict: "account_key" }
+    );
+
+    if (error) {
+      return {
+        ok: false,
+        error: error.message
+      };
+    }
+  }
+
+  const recipientWrites = writes.filter((row) => row.recipients !== null);
+  for (const rowsChunk of chunk(recipientWrites, IMPORT_CHUNK_SIZE)) {
+    const { error: deleteError } = await supabase
+      .from("contact_recipients")
+      .delete()
+      .in(
+        "account_key",
+        rowsChunk.map((row) => row.contact.account_key)
+      );
+
+    if (deleteError) {
+      return {
+        ok: false,
+        error: deleteError.message
+      };
+    }
+
+    const recipientRows = rowsChunk.flatMap((row) =>
+      (row.recipients ?? []).map((recipient, index) => ({
+        account_key: row.contact.account_key,
+        kind: recipient.kind,
+        email: recipient.email,
+        name: recipient.name,
+        position: index
+      }))
+    );
+
+    if (recipientRows.length > 0) {
+      const { error: insertError } = await supabase
+        .from("contact_recipients")
+        .insert(recipientRows);
+
+      if (insertError) {
+        return {
+          ok: false,
+          error: insertError.message
+        };
+      }
+    }
+  }
+
+  const summary = summarizeImport(plan.planned);
+  revalidatePath("/contacts");
+  return {
+    ok: true,
+    created: summary.create,
+    updated: summary.update,
+    skipped: summary.unchanged + summary.conflict + summary.invalid
+  };
+}
@@ -0,0 +1,217 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getMfaStatus, isMfaPending } from "@/lib/auth/mfa";
+import { hasPermission, type AppPermission } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import {
+  DEFAULT_FILENAME_PATTERNS,
+  isFilenameRowType,
+  validateFilenamePatternRule
+} from "@/lib/filename-patterns/match";
+import {
+  FILENAME_PATTERN_COLUMNS,
+  type FilenamePattern,
+  type FilenamePatternActionResult,
+  type FilenamePatternInput,
+  type FilenamePatternRule
+} from "@/lib/filename-patterns/types";
+import { createClient } from "@/lib/supabase/server";
+
+function normalizeFilenamePatternInput(payload: FilenamePatternInput): FilenamePatternInput {
+  const position = Number(payload.position);
+
+  return {
+    name: String(payload.name ?? "").trim(),
+    pattern: String(payload.pattern ?? "").trim(),
+    row_type: payload.row_type,
+    position: Number.isFinite(position) ? Math.trunc(position) : 0,
+    enabled: payload.enabled !== false
+  };
+}
+
+function validateFilenamePatternInput(input: FilenamePatternInput): string | null {
+  if (!isFilenameRowType(input.row_type)) {
+    return "Row type must be bill, admin or attachment.";
+  }
+
+  return validateFilenamePatternRule(input);
+}
+
+async function hasSessionPermission(permission: AppPermission): Promise<boolean> {
+  const supabase = await createClient();
+  const {
+    data: claimsData,
+    error: claimsError
+  } = await supabase.auth.getClaims();
+  const isAuthenticated = Boolean(!claimsError && claimsData?.claims);
+
+  if (!isAuthenticated) {
+    return false;
+  }
+
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+  const profile = await getProfileForAuthUser(supabase, user?.id);
+
+  const userEmail = user?.email ?? null;
+
+  return (
+    hasPermission(userEmail, profile.role, permission) &&
+    !isMfaPending(await getMfaStatus(supabase, userEmail, profile.role))
+  );
+}
+
+export async function listFilenamePatterns(): Promise<FilenamePattern[]> {
+  if (!(await hasSessionPermission("console:view"))) {
+    return [];
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("filename_patterns")
+    .select(FILENAME_PATTERN_COLUMNS)
+    .order("position", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("listFilenamePatterns query failed", error);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+// Enabled patterns in match order for the ZIP parser. Falls back to the built-in rules
+// when none are configured, so uploads keep working before the migration is applied.
+export async function listFilenamePatternRules(): Promise<FilenamePatternRule[]> {
+  const patterns = await listFilenamePatterns();
+  if (patterns.length === 0) {
+    return DEFAULT_FILENAME_PATTERNS;
+  }
+
+  return patterns
+    .filter((pattern) => pattern.enabled)
+    .map(({ name, pattern, row_type }) => ({ name, pattern, row_type }));
+}
+
+export async function createFilenamePattern(
+  payload: FilenamePatternInput
+): Promise<FilenamePatternActionResult> {
+  if (!(await hasSessionPermission("filename_patterns:edit"))) {
+    return {
+      ok: false,
+      error: "Not authorized to create filename patterns."
+    };
+  }
+
+  const input = normalizeFilenamePatternInput(payload);
+  const validationError = validateFilenamePatternInput(input);
+  if (validationError) {
+    return {
+      ok: false,
+      error: validationError
+    };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase.from("filename_patterns").insert(input);
+
+  if (error) {
+    if (error.code === "23505") {
+      return {
+        ok: false,
+        error: "A filename pattern with this name already exists."
+      };
+    }
+
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  revalidatePath("/filename-patterns");
+  return { ok: true };
+}
+
+export async function updateFilenamePattern(
+  id: string,
+  payload: FilenamePatternInput
+): Promise<FilenamePatternActionResult> {
+  if (!(await hasSessionPermission("filename_patterns:edit"))) {
+    return {
+      ok: false,
+      error: "Not authorized to update filename patterns."
+    };
+  }
+
+  const patternId = String(id ?? "").trim();
+  const input = normalizeFilenamePatternInput(payload);
+  const validationError = patternId
+    ? validateFilenamePatternInput(input)
+    : "Filename pattern id is required.";
+  if (validationError) {
+    return {
+      ok: false,
+      error: validationError
+    };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("filename_patterns")
+    .update(input)
+    .eq("id", patternId);
+
+  if (error) {
+    if (error.code === "23505") {
+      return {
+        ok: false,
+        error: "A filename pattern with this name already exists."
+      };
+    }
+
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  revalidatePath("/filename-patterns");
+  return { ok: true };
+}
+
+export async function deleteFilenamePattern(id: string): Promise<FilenamePatternActionResult> {
+  if (!(await hasSessionPermission("filename_patterns:edit"))) {
+    return {
+      ok: false,
+      error: "Not authorized to delete filename patterns."
+    };
+  }
+
+  const patternId = String(id ?? "").trim();
+  if (!patternId) {
+    return {
+      ok: false,
+      error: "Filename pattern id is required."
+    };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("filename_patterns")
+    .delete()
+    .eq("id", patternId);
+
+  if (error) {
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  revalidatePath("/filename-patterns");
+  return { ok: true };
+}
@@ -0,0 +1,174 @@
+"use server";
+
+import { createHash, randomBytes } from "node:crypto";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import type { MfaActionResult, RecoveryCodesResult } from "@/lib/auth/mfa";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+
+const RECOVERY_CODE_COUNT = 10;
+
+// 12 hex digits shown as three groups, e.g. 3f9a-07c2-b61e.
+function createRecoveryCode(): string {
+  const digits = randomBytes(6).toString("hex");
+  return [digits.slice(0, 4), digits.slice(4, 8), digits.slice(8)].join("-");
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalizedCode = code.toLowerCase().replace(/[^0-9a-f]/g, "");
+  return createHash("sha256").update(normalizedCode).digest("hex");
+}
+
+async function getSessionUser(supabase: SupabaseClient): Promise<User | null> {
+  const {
+    data: claimsData,
+    error: claimsError
+  } = await supabase.auth.getClaims();
+  const isAuthenticated = Boolean(!claimsError && claimsData?.claims);
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+
+  return user;
+}
+
+export async function countRecoveryCodes(): Promise<number> {
+  const user = await getSessionUser(await createClient());
+  if (!user) {
+    return 0;
+  }
+
+  const { count, error } = await createServiceRoleClient()
+    .from("mfa_recovery_codes")
+    .select("id", { count: "exact", head: true })
+    .eq("auth_user_id", user.id)
+    .is("used_at", null);
+
+  if (error) {
+    console.error("countRecoveryCodes query failed", error);
+    return 0;
+  }
+
+  return count ?? 0;
+}
+
+// Replaces any earlier codes. Needs an AAL2 session so a password alone cannot mint codes.
+export async function generateRecoveryCodes(): Promise<RecoveryCodesResult> {
+  const supabase = await createClient();
+  const user = await getSessionUser(supabase);
+  if (!user) {
+    return {
+      ok: false,
+      error: "Not signed in."
+    };
+  }
+
+  const { data: assurance } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (assurance?.currentLevel !== "aal2") {
+    return {
+      ok: false,
+      error: "Verify a code from your authenticator first."
+    };
+  }
+
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, createRecoveryCode);
+  const serviceRole = createServiceRoleClient();
+  const { error: deleteError } = await serviceRole
+    .from("mfa_recovery_codes")
+    .delete()
+    .eq("auth_user_id", user.id);
+
+  if (deleteError) {
+    return {
+      ok: false,
+      error: deleteError.message
+    };
+  }
+
+  const { error: insertError } = await serviceRole.from("mfa_recovery_codes").insert(
+    codes.map((code) => ({
+      auth_user_id: user.id,
+      code_hash: hashRecoveryCode(code)
+    }))
+  );
+
+  if (insertError) {
+    return {
+      ok: false,
+      error: insertError.message
+    };
+  }
+
+  return {
+    ok: true,
+    codes
+  };
+}
+
+// Uses up one code and removes the user's authenticators. Supabase ends every session of the
+// user when a verified factor is deleted, so they sign in again and set up a new one.
+export async function redeemRecoveryCode(code: string): Promise<MfaActionResult> {
+  const supabase = await createClient();
+  const user = await getSessionUser(supabase);
+  if (!user) {
+    return {
+      ok: false,
+      error: "Sign in with your password first."
+    };
+  }
+
+  const serviceRole = createServiceRoleClient();
+  const { data: redeemed, error: redeemError } = await serviceRole
+    .from("mfa_recovery_codes")
+    .update({ used_at: new Date().toISOString() })
+    .eq("auth_user_id", user.id)
+    .eq("code_hash", hashRecoveryCode(String(code ?? "")))
+    .is("used_at", null)
+    .select("id");
+
+  if (redeemError) {
+    return {
+      ok: false,
+      error: redeemError.message
+    };
+  }
+
+  if (!redeemed || redeemed.length === 0) {
+    return {
+      ok: false,
+      error: "That recovery code is not valid or was already used."
+    };
+  }
+
+  const { data: factorsData, error: factorsError } =
+    await serviceRole.auth.admin.mfa.listFactors({ userId: user.id });
+
+  if (factorsError) {
+    return {
+      ok: false,
+      error: factorsError.message
+    };
+  }
+
+  for (const factor of factorsData.factors) {
+    const { error } = await serviceRole.auth.admin.mfa.deleteFactor({
+      id: factor.id,
+      userId: user.id
+    });
+
+    if (error) {
+      return {
+        ok: false,
+        error: error.message
+      };
+    }
+  }
+
+  await supabase.auth.signOut();
+  return { ok: true };
+}
@@ -1,8 +1,26 @@
 "use server";
 
-import { getProfileForAuthUser, hasAdminAccess } from "@/lib/auth/profile";
+import { getMfaStatus, isMfaPending } from "@/lib/auth/mfa";
+import { hasPermission, type AppPermission } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import type { SenderQuota } from "@/lib/email/providers/types";
+import { getConfiguredSenderQuota } from "@/lib/email/send-bill";
+import {
+  listSendLogSenders,
+  normalizeSendLogFilters,
+  selectSendLogs
+} from "@/lib/send-logs/query";
+import {
+  SEND_LOG_COLUMNS,
+  SEND_LOG_PAGE_SIZE,
+  type SendLog,
+  type SendLogPage,
+  type SendLogSender
+} from "@/lib/send-logs/types";
 import { createClient } from "@/lib/supabase/server";
 
+const ACCOUNT_TIMELINE_LIMIT = 500;
+
 type LastSendStatus = {
   status: "sent" | "failed" | null;
   sent_at: string | null;
@@ -22,7 +40,7 @@ function normalizeAccountKeys(accountKeys: string[]): string[] {
   );
 }
 
-async function isAdminSession(): Promise<boolean> {
+async function hasSessionPermission(permission: AppPermission): Promise<boolean> {
   const supabase = await createClient();
   const {
     data: claimsData,
@@ -39,14 +57,19 @@ async function isAdminSession(): Promise<boolean> {
   } = await supabase.auth.getUser();
   const profile = await getProfileForAuthUser(supabase, user?.id);
 
-  return hasAdminAccess(user?.email ?? null, profile.role);
+  const userEmail = user?.email ?? null;
+
+  return (
+    hasPermission(userEmail, profile.role, permission) &&
+    !isMfaPending(await getMfaStatus(supabase, userEmail, profile.role))
+  );
 }
 
 export async function getLastSendStatusForZip(
   zip_filename: string,
   accountKeys: string[]
 ): Promise<Record<string, LastSendStatus>> {
-  if (!(await isAdminSession())) {
+  if (!(await hasSessionPermission("console:view"))) {
     return {};
   }
 
@@ -89,3 +112,79 @@ export async function getLastSendStatusForZip(
     return acc;
   }, {});
 }
+
+export async function listSendLogs(filters: unknown, page = 1): Promise<SendLogPage> {
+  const pageNumber = Number.isInteger(page) && page > 0 ? page : 1;
+  const emptyPage: SendLogPage = {
+    logs: [],
+    total: 0,
+    page: pageNumber,
+    page_size: SEND_LOG_PAGE_SIZE
+  };
+
+  if (!(await hasSessionPermission("console:view"))) {
+    return emptyPage;
+  }
+
+  const supabase = await createClient();
+  const rangeStart = (pageNumber - 1) * SEND_LOG_PAGE_SIZE;
+  const { data, error, count } = await selectSendLogs(
+    supabase,
+    normalizeSendLogFilters(filters),
+    { count: "exact" }
+  ).range(rangeStart, rangeStart + SEND_LOG_PAGE_SIZE - 1);
+
+  if (error) {
+    console.error("listSendLogs query failed", error);
+    return emptyPage;
+  }
+
+  return {
+    ...emptyPage,
+    logs: (data ?? []) as SendLog[],
+    total: count ?? 0
+  };
+}
+
+export async function getSendLogSenders(): Promise<SendLogSender[]> {
+  if (!(await hasSessionPermission("console:view"))) {
+    return [];
+  }
+
+  return listSendLogSenders();
+}
+
+export async function listSendLogsForAccount(account_key: string): Promise<SendLog[]> {
+  if (!(await hasSessionPermission("console:view"))) {
+    return [];
+  }
+
+  const accountKey = normalizeAccountKey(account_key);
+  if (!accountKey) {
+    return [];
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("send_logs")
+    .select(SEND_LOG_COLUMNS)
+    .eq("account_key", accountKey)
+    .order("sent_at", { ascending: false })
+    .limit(ACCOUNT_TIMELINE_LIMIT);
+
+  if (error) {
+    console.error("listSendLogsForAccount query failed", error);
+    return [];
+  }
+
+  return (data ?? []) as SendLog[];
+}
+
+export async function getSendQuota(): Promise<SenderQuota | null> {
+  if (!(await hasSessionPermission("console:view"))) {
+    return null;
+  }
+
+  const supabase = await createClient();
+  return getConfiguredSenderQuota(supabase);
+}
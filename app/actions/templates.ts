@@ -0,0 +1,282 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getMfaStatus, isMfaPending } from "@/lib/auth/mfa";
+import { hasPermission, type AppPermission } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import { createClient } from "@/lib/supabase/server";
+import { findUnknownPlaceholders } from "@/lib/templates/render";
+import type {
+  EmailTemplate,
+  EmailTemplateInput,
+  TemplateActionResult
+} from "@/lib/templates/types";
+
+const TEMPLATE_COLUMNS = "id,name,subject,body_text,body_html,is_default,updated_at";
+
+type NormalizedTemplateInput = {
+  name: string;
+  subject: string;
+  body_text: string;
+  body_html: string | null;
+};
+
+function normalizeTemplateInput(payload: EmailTemplateInput): NormalizedTemplateInput {
+  const bodyHtml = String(payload.body_html ?? "").trim();
+
+  return {
+    name: String(payload.name ?? "").trim(),
+    subject: String(payload.subject ?? "").trim(),
+    body_text: String(payload.body_text ?? "").replace(/\r\n/g, "\n").trim(),
+    body_html: bodyHtml.length > 0 ? bodyHtml : null
+  };
+}
+
+function validateTemplateInput(input: NormalizedTemplateInput): string | null {
+  if (!input.name) {
+    return "Template name is required.";
+  }
+
+  if (!input.subject) {
+    return "Subject is required.";
+  }
+
+  if (!input.body_text) {
+    return "Plain-text body is required.";
+  }
+
+  const unknownPlaceholders = findUnknownPlaceholders(
+    [input.subject, input.body_text, input.body_html ?? ""].join("\n")
+  );
+  if (unknownPlaceholders.length > 0) {
+    return `Unknown placeholders: ${unknownPlaceholders
+      .map((key) => `{{${key}}}`)
+      .join(", ")}.`;
+  }
+
+  return null;
+}
+
+async function hasSessionPermission(permission: AppPermission): Promise<boolean> {
+  const supabase = await createClient();
+  const {
+    data: claimsData,
+    error: claimsError
+  } = await supabase.auth.getClaims();
+  const isAuthenticated = Boolean(!claimsError && claimsData?.claims);
+
+  if (!isAuthenticated) {
+    return false;
+  }
+
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+  const profile = await getProfileForAuthUser(supabase, user?.id);
+
+  const userEmail = user?.email ?? null;
+
+  return (
+    hasPermission(userEmail, profile.role, permission) &&
+    !isMfaPending(await getMfaStatus(supabase, userEmail, profile.role))
+  );
+}
+
+export async function listTemplates(): Promise<EmailTemplate[]> {
+  if (!(await hasSessionPermission("console:view"))) {
+    return [];
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select(TEMPLATE_COLUMNS)
+    .order("is_default", { ascending: false })
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("listTemplates query failed", error);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+export async function createTemplate(
+  payload: EmailTemplateInput
+): Promise<TemplateActionResult> {
+  if (!(await hasSessionPermission("templates:edit"))) {
+    return {
+      ok: false,
+      error: "Not authorized to create templates."
+    };
+  }
+
+  const input = normalizeTemplateInput(payload);
+  const validationError = validateTemplateInput(input);
+  if (validationError) {
+    return {
+      ok: false,
+      error: validationError
+    };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase.from("email_templates").insert(input);
+
+  if (error) {
+    if (error.code === "23505") {
+      return {
+        ok: false,
+        error: "A template with this name already exists."
+      };
+    }
+
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  revalidatePath("/templates");
+  return { ok: true };
+}
+
+export async function updateTemplate(
+  id: string,
+  payload: EmailTemplateInput
+): Promise<TemplateActionResult> {
+  if (!(await hasSessionPermission("templates:edit"))) {
+    return {
+      ok: false,
+      error: "Not authorized to update templates."
+    };
+  }
+
+  const templateId = String(id ?? "").trim();
+  const input = normalizeTemplateInput(payload);
+  const validationError = templateId
+    ? validateTemplateInput(input)
+    : "Template id is required.";
+  if (validationError) {
+    return {
+      ok: false,
+      error: validationError
+    };
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("email_templates")
+    .update(input)
+    .eq("id", templateId);
+
+  if (error) {
+    if (error.code === "23505") {
+      return {
+        ok: false,
+        error: "A template with this name already exists."
+      };
+    }
+
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  revalidatePath("/templates");
+  return { ok: true };
+}
+
+export async function setDefaultTemplate(id: string): Promise<TemplateActionResult> {
+  if (!(await hasSessionPermission("templates:edit"))) {
+    return {
+      ok: false,
+      error: "Not authorized to update templates."
+    };
+  }
+
+  const templateId = String(id ?? "").trim();
+  if (!templateId) {
+    return {
+      ok: false,
+      error: "Template id is required."
+    };
+  }
+
+  const supabase = await createClient();
+  const { error: clearError } = await supabase
+    .from("email_templates")
+    .update({ is_default: false })
+    .eq("is_default", true)
+    .neq("id", templateId);
+
+  if (clearError) {
+    return {
+      ok: false,
+      error: clearError.message
+    };
+  }
+
+  const { error } = await supabase
+    .from("email_templates")
+    .update({ is_default: true })
+    .eq("id", templateId);
+
+  if (error) {
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  revalidatePath("/templates");
+  return { ok: true };
+}
+
+export async function deleteTemplate(id: string): Promise<TemplateActionResult> {
+  if (!(await hasSessionPermission("templates:edit"))) {
+    return {
+      ok: false,
+      error: "Not authorized to delete templates."
+    };
+  }
+
+  const templateId = String(id ?? "").trim();
+  if (!templateId) {
+    return {
+      ok: false,
+      error: "Template id is required."
+    };
+  }
+
+  const supabase = await createClient();
+  const { data: template } = await supabase
+    .from("email_templates")
+    .select("is_default")
+    .eq("id", templateId)
+    .maybeSingle();
+
+  if (template?.is_default) {
+    return {
+      ok: false,
+      error: "Choose another default template before deleting this one."
+    };
+  }
+
+  const { error } = await supabase
+    .from("email_templates")
+    .delete()
+    .eq("id", templateId);
+
+  if (error) {
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  revalidatePath("/templates");
+  return { ok: true };
+}
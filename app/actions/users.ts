@@ -0,0 +1,488 @@
+"use server";
+
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { isAdminEmail } from "@/lib/auth/admin";
+import { clearLoginFailures, listLockedLogins } from "@/lib/auth/login-attempts";
+import { SET_PASSWORD_PATH, validatePassword } from "@/lib/auth/password";
+import { isAppRole } from "@/lib/auth/permissions";
+import { getPermittedUser } from "@/lib/auth/session";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+import type {
+  LoginAttempt,
+  LoginAttemptsOverview,
+  LoginLockKind,
+  ManagedUser,
+  ProfileRole,
+  UserActionResult,
+  UserInviteInput,
+  UserUpdateInput
+} from "@/lib/users/types";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const AUTH_USERS_PAGE_SIZE = 1000;
+const MAX_USER_ID_LENGTH = 64;
+const RECENT_LOGIN_ATTEMPTS_LIMIT = 100;
+// Supabase has no permanent ban; a century is long enough to mean "disabled".
+const DISABLED_BAN_DURATION = "876000h";
+
+type ProfileRow = {
+  auth_user_id: string;
+  user_id: string | null;
+  role: string | null;
+};
+
+function isProfileRole(value: unknown): value is ProfileRole {
+  return value === "user" || isAppRole(value);
+}
+
+function normalizeUserId(value: unknown): string {
+  return String(value ?? "").trim();
+}
+
+function validateUserId(userId: string): string | null {
+  if (!userId) {
+    return "User ID is required.";
+  }
+
+  if (userId.length > MAX_USER_ID_LENGTH || /\s/.test(userId)) {
+    return `User ID must be at most ${MAX_USER_ID_LENGTH} characters without spaces.`;
+  }
+
+  return null;
+}
+
+function isDisabled(user: User): boolean {
+  return Boolean(user.banned_until && Date.parse(user.banned_until) > Date.now());
+}
+
+async function getSessionAdmin(): Promise<User | null> {
+  return getPermittedUser(await createClient(), "users:manage");
+}
+
+async function listAllAuthUsers(serviceRole: SupabaseClient): Promise<User[] | null> {
+  const users: User[] = [];
+
+  for (let page = 1; ; page += 1) {
+    const { data, error } = await serviceRole.auth.admin.listUsers({
+      page,
+      perPage: AUTH_USERS_PAGE_SIZE
+    });
+
+    if (error) {
+      console.error("listUsers auth query failed", error);
+      return null;
+    }
+
+    users.push(...data.users);
+    if (data.users.length < AUTH_USERS_PAGE_SIZE) {
+      return users;
+    }
+  }
+}
+
+async function saveProfile(
+  serviceRole: SupabaseClient,
+  authUserId: string,
+  input: UserUpdateInput
+): Promise<UserActionResult> {
+  const { error } = await serviceRole
+    .from("profiles")
+    .upsert(
+      { auth_user_id: authUserId, user_id: input.user_id, role: input.role },
+      { onConflict: "auth_user_id" }
+    );
+
+  if (error) {
+    if (error.code === "23505") {
+      return {
+        ok: false,
+        error: "This User ID is already taken."
+      };
+    }
+
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  return { ok: true };
+}
+
+export async function listUsers(): Promise<ManagedUser[]> {
+  if (!(await getSessionAdmin())) {
+    return [];
+  }
+
+  const serviceRole = createServiceRoleClient();
+  const [authUsers, { data: profiles, error: profilesError }] = await Promise.all([
+    listAllAuthUsers(serviceRole),
+    serviceRole.from("profiles").select("auth_user_id,user_id,role")
+  ]);
+
+  if (!authUsers) {
+    return [];
+  }
+
+  if (profilesError) {
+    console.error("listUsers profiles query failed", profilesError);
+    return [];
+  }
+
+  const profilesById = new Map(
+    ((profiles ?? []) as ProfileRow[]).map((profile) => [profile.auth_user_id, profile])
+  );
+
+  return authUsers
+    .map((user) => {
+      const profile = profilesById.get(user.id);
+
+      return {
+        auth_user_id: user.id,
+        email: user.email ?? null,
+        user_id: profile?.user_id ?? null,
+        role: isProfileRole(profile?.role) ? profile.role : null,
+        is_allowlisted: isAdminEmail(user.email),
+        disabled: isDisabled(user),
+        mfa_enabled: (user.factors ?? []).some((factor) => factor.status === "verified"),
+        created_at: user.created_at,
+        invited_at: user.invited_at ?? null,
+        last_sign_in_at: user.last_sign_in_at ?? null
+      };
+    })
+    .sort((left, right) => (left.email ?? "").localeCompare(right.email ?? ""));
+}
+
+export async function inviteUser(payload: UserInviteInput): Promise<UserActionResult> {
+  if (!(await getSessionAdmin())) {
+    return {
+      ok: false,
+      error: "Not authorized to invite users."
+    };
+  }
+
+  const email = String(payload.email ?? "").trim().toLowerCase();
+  const userId = normalizeUserId(payload.user_id);
+  const password = String(payload.password ?? "");
+
+  if (!EMAIL_PATTERN.test(email)) {
+    return {
+      ok: false,
+      error: "Enter a valid email address."
+    };
+  }
+
+  const validationError =
+    validateUserId(userId) ??
+    (isProfileRole(payload.role) ? null : "Pick a role.") ??
+    (password ? validatePassword(password) : null);
+  if (validationError) {
+    return {
+      ok: false,
+      error: validationError
+    };
+  }
+
+  const serviceRole = createServiceRoleClient();
+  const { data: takenProfile, error: lookupError } = await serviceRole
+    .from("profiles")
+    .select("auth_user_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (lookupError) {
+    return {
+      ok: false,
+      error: lookupError.message
+    };
+  }
+
+  if (takenProfile) {
+    return {
+      ok: false,
+      error: "This User ID is already taken."
+    };
+  }
+
+  // The invite link must come back to this app, where the user sets a password; Supabase would
+  // otherwise fall back to its Site URL.
+  const origin = (await headers()).get("origin");
+  if (!password && !origin) {
+    return {
+      ok: false,
+      error: "Could not tell this app's address for the invite link. Set a temporary password."
+    };
+  }
+
+  const { data, error } = password
+    ? await serviceRole.auth.admin.createUser({ email, password, email_confirm: true })
+    : await serviceRole.auth.admin.inviteUserByEmail(email, {
+        redirectTo: `${origin}/auth/callback?next=${SET_PASSWORD_PATH}`
+      });
+
+  if (error || !data.user) {
+    return {
+      ok: false,
+      error: error?.message ?? "Failed to create the user."
+    };
+  }
+
+  // The auth.users trigger already created a profile with a generated User ID; replace it.
+  const result = await saveProfile(serviceRole, data.user.id, {
+    user_id: userId,
+    role: payload.role
+  });
+
+  revalidatePath("/users");
+  return result;
+}
+
+export async function updateUser(
+  authUserId: string,
+  payload: UserUpdateInput
+): Promise<UserActionResult> {
+  const admin = await getSessionAdmin();
+  if (!admin) {
+    return {
+      ok: false,
+      error: "Not authorized to update users."
+    };
+  }
+
+  const targetId = String(authUserId ?? "").trim();
+  const userId = normalizeUserId(payload.user_id);
+  const validationError = !targetId
+    ? "User is required."
+    : (validateUserId(userId) ?? (isProfileRole(payload.role) ? null : "Pick a role."));
+  if (validationError) {
+    return {
+      ok: false,
+      error: validationError
+    };
+  }
+
+  if (targetId === admin.id && payload.role !== "super_admin" && !isAdminEmail(admin.email)) {
+    return {
+      ok: false,
+      error: "You cannot remove your own super admin role."
+    };
+  }
+
+  const result = await saveProfile(createServiceRoleClient(), targetId, {
+    user_id: userId,
+    role: payload.role
+  });
+
+  revalidatePath("/users");
+  return result;
+}
+
+export async function setUserPassword(
+  authUserId: string,
+  password: string
+): Promise<UserActionResult> {
+  if (!(await getSessionAdmin())) {
+    return {
+      ok: false,
+      error: "Not authorized to reset passwords."
+    };
+  }
+
+  const targetId = String(authUserId ?? "").trim();
+  const validationError = targetId
+    ? validatePassword(String(password ?? ""))
+    : "User is required.";
+  if (validationError) {
+    return {
+      ok: false,
+      error: validationError
+    };
+  }
+
+  const { error } = await createServiceRoleClient().auth.admin.updateUserById(targetId, {
+    password
+  });
+
+  if (error) {
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  return { ok: true };
+}
+
+export async function setUserDisabled(
+  authUserId: string,
+  disabled: boolean
+): Promise<UserActionResult> {
+  const admin = await getSessionAdmin();
+  if (!admin) {
+    return {
+      ok: false,
+      error: "Not authorized to disable users."
+    };
+  }
+
+  const targetId = String(authUserId ?? "").trim();
+  if (!targetId) {
+    return {
+      ok: false,
+      error: "User is required."
+    };
+  }
+
+  if (disabled && targetId === admin.id) {
+    return {
+      ok: false,
+      error: "You cannot disable your own account."
+    };
+  }
+
+  const { error } = await createServiceRoleClient().auth.admin.updateUserById(targetId, {
+    ban_duration: disabled ? DISABLED_BAN_DURATION : "none"
+  });
+
+  if (error) {
+    return {
+      ok: false,
+      error: error.message
+    };
+  }
+
+  revalidatePath("/users");
+  return { ok: true };
+}
+
+// For users who lost their authenticator and recovery codes. Supabase ends their sessions
+// and they set up a new authenticator at their next sign-in.
+export async function resetUserMfa(authUserId: string): Promise<UserActionResult> {
+  const admin = await getSessionAdmin();
+  if (!admin) {
+    return {
+      ok: false,
+      error: "Not authorized to reset two-factor authentication."
+    };
+  }
+
+  const targetId = String(authUserId ?? "").trim();
+  if (!targetId) {
+    return {
+      ok: false,
+      error: "User is required."
+    };
+  }
+
+  if (targetId === admin.id) {
+    return {
+      ok: false,
+      error: "Use one of your recovery codes to reset your own authenticator."
+    };
+  }
+
+  const serviceRole = createServiceRoleClient();
+  const { data, error: factorsError } = await serviceRole.auth.admin.mfa.listFactors({
+    userId: targetId
+  });
+
+  if (factorsError) {
+    return {
+      ok: false,
+      error: factorsError.message
+    };
+  }
+
+  for (const factor of data.factors) {
+    const { error } = await serviceRole.auth.admin.mfa.deleteFactor({
+      id: factor.id,
+      userId: targetId
+    });
+
+    if (error) {
+      return {
+        ok: false,
+        error: error.message
+      };
+    }
+  }
+
+  const { error: codesError } = await serviceRole
+    .from("mfa_recovery_codes")
+    .delete()
+    .eq("auth_user_id", targetId);
+
+  if (codesError) {
+    return {
+      ok: false,
+      error: codesError.message
+    };
+  }
+
+  revalidatePath("/users");
+  return { ok: true };
+}
+
+export async function listLoginAttempts(): Promise<LoginAttemptsOverview> {
+  if (!(await getSessionAdmin())) {
+    return { locked: [], recent: [] };
+  }
+
+  const serviceRole = createServiceRoleClient();
+  const [locked, { data, error }] = await Promise.all([
+    listLockedLogins(serviceRole),
+    serviceRole
+      .from("login_attempts")
+      .select("id,user_id,auth_user_id,ip_address,outcome,cleared_at,created_at")
+      .order("created_at", { ascending: false })
+      .limit(RECENT_LOGIN_ATTEMPTS_LIMIT)
+  ]);
+
+  if (error) {
+    console.error("listLoginAttempts query failed", error);
+  }
+
+  return {
+    locked,
+    recent: (data ?? []) as LoginAttempt[]
+  };
+}
+
+// Clears the recent failures of a User ID or IP address so it can sign in again right away.
+export async function unlockLogin(kind: LoginLockKind, value: string): Promise<UserActionResult> {
+  if (!(await getSessionAdmin())) {
+    return {
+      ok: false,
+      error: "Not authorized to unlock sign-ins."
+    };
+  }
+
+  if (kind !== "user_id" && kind !== "ip_address") {
+    return {
+      ok: false,
+      error: "Unknown lockout."
+    };
+  }
+
+  const key = normalizeUserId(value);
+  if (!key) {
+    return {
+      ok: false,
+      error: kind === "user_id" ? "User ID is required." : "IP address is required."
+    };
+  }
+
+  const error = await clearLoginFailures(createServiceRoleClient(), kind, key);
+  if (error) {
+    return {
+      ok: false,
+      error
+    };
+  }
+
+  revalidatePath("/users");
+  return { ok: true };
+}
@@ -1,5 +1,11 @@
 import { NextResponse } from "next/server";
-import { hasAdminAccess, getProfileForAuthUser } from "@/lib/auth/profile";
+import {
+  beginLoginAttempt,
+  completeLoginAttempt,
+  getClientIp
+} from "@/lib/auth/login-attempts";
+import { getSignedInPath } from "@/lib/auth/mfa";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
 import { createClient as createAuthClient } from "@/lib/supabase/server";
 import { createServiceRoleClient } from "@/lib/supabase/service-role";
 
@@ -8,6 +14,11 @@ type LoginByIdBody = {
   password?: unknown;
 };
 
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Locked, unknown and wrong-password sign-ins all get this same response.
 function invalidCredentialsResponse() {
   return NextResponse.json(
     {
@@ -35,6 +46,30 @@ export async function POST(request: Request) {
   }
 
   const serviceRoleClient = createServiceRoleClient();
+  const ipAddress = getClientIp(request);
+  const throttle = await beginLoginAttempt(serviceRoleClient, userId, ipAddress);
+
+  if (throttle.delayMs > 0) {
+    await sleep(throttle.delayMs);
+  }
+
+  if (throttle.locked || !throttle.attemptId) {
+    return invalidCredentialsResponse();
+  }
+
+  // The attempt is already recorded as a failure; this only attaches the matched user.
+  const { attemptId } = throttle;
+  const failedAttemptResponse = async (authUserId: string | null) => {
+    if (authUserId) {
+      await completeLoginAttempt(serviceRoleClient, attemptId, {
+        userId,
+        authUserId,
+        outcome: "failure"
+      });
+    }
+    return invalidCredentialsResponse();
+  };
+
   const { data: profileRow, error: profileError } = await serviceRoleClient
     .from("profiles")
     .select("auth_user_id")
@@ -47,7 +82,7 @@ export async function POST(request: Request) {
   }
 
   if (!profileRow?.auth_user_id) {
-    return invalidCredentialsResponse();
+    return failedAttemptResponse(null);
   }
 
   const { data: authLookup, error: authLookupError } =
@@ -66,7 +101,7 @@ export async function POST(request: Request) {
 
   if (signInError) {
     console.error("login-by-id password sign-in failed", signInError);
-    return invalidCredentialsResponse();
+    return failedAttemptResponse(profileRow.auth_user_id);
   }
 
   const {
@@ -78,9 +113,14 @@ export async function POST(request: Request) {
     return invalidCredentialsResponse();
   }
 
+  await completeLoginAttempt(serviceRoleClient, attemptId, {
+    userId,
+    authUserId: user.id,
+    outcome: "success"
+  });
+
   const profile = await getProfileForAuthUser(authClient, user.id);
-  const redirectTo =
-    profile.role && hasAdminAccess(user.email, profile.role) ? "/" : "/user";
+  const redirectTo = await getSignedInPath(authClient, user.email, profile.role);
 
   return NextResponse.json({
     ok: true,
@@ -0,0 +1,54 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import {
+  getDocumentContentType,
+  getStoredDocument,
+  readStoredDocument
+} from "@/lib/storage/archive";
+import { createClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "console:view");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const { id } = await params;
+  const document = UUID_PATTERN.test(id) ? await getStoredDocument(id) : null;
+
+  if (!document) {
+    return errorResponse("Document not found.", 404);
+  }
+
+  const content = await readStoredDocument(document);
+  if (!content) {
+    return errorResponse("Document has been purged.", 410);
+  }
+
+  return new Response(new Uint8Array(content), {
+    headers: {
+      "Content-Type": getDocumentContentType(document.kind, document.filename),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(document.filename)}`,
+      "X-Content-SHA256": document.sha256,
+      "Cache-Control": "no-store"
+    }
+  });
+}
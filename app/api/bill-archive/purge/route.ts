@@ -0,0 +1,23 @@
+import { purgeExpiredDocuments } from "@/lib/storage/archive";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Daily Vercel Cron run that applies BILL_RETENTION_DAYS.
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET?.trim();
+  const authorization = request.headers.get("authorization") ?? "";
+
+  if (!cronSecret || authorization !== `Bearer ${cronSecret}`) {
+    return Response.json(
+      {
+        ok: false,
+        error: "Not authorized."
+      },
+      { status: 401 }
+    );
+  }
+
+  const result = await purgeExpiredDocuments();
+  return Response.json({ ok: true, ...result });
+}
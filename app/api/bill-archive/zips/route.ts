@@ -0,0 +1,68 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import { getRequestBodySizeError } from "@/lib/email/attachments";
+import { getBillStorageMode } from "@/lib/storage";
+import { storeDocument } from "@/lib/storage/archive";
+import { createClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+// Archives an uploaded ZIP as-is. The body is the raw file; the name comes from ?filename=.
+// Only for storage modes without browser uploads (see ./uploads), since the body is capped at
+// MAX_REQUEST_BODY_BYTES.
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "console:view");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  if (!getBillStorageMode()) {
+    return errorResponse("Bill storage is off.", 409);
+  }
+
+  const filename = new URL(request.url).searchParams.get("filename")?.trim() ?? "";
+  if (!filename.toLowerCase().endsWith(".zip")) {
+    return errorResponse("filename must end with .zip.", 400);
+  }
+
+  const sizeError = getRequestBodySizeError(request);
+  if (sizeError) {
+    return errorResponse(sizeError, 413);
+  }
+
+  const content = Buffer.from(await request.arrayBuffer());
+  if (content.length === 0) {
+    return errorResponse("ZIP file must be non-empty.", 400);
+  }
+
+  try {
+    const document = await storeDocument({
+      kind: "zip",
+      content,
+      filename,
+      uploadedByAuthUserId: user.id
+    });
+
+    return Response.json({
+      ok: true,
+      document: {
+        id: document.id,
+        sha256: document.sha256
+      }
+    });
+  } catch (error) {
+    console.error("zip archive failed", error);
+    return errorResponse("Failed to archive ZIP.", 500);
+  }
+}
@@ -0,0 +1,78 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import { getBillStorageMode } from "@/lib/storage";
+import { completeDocumentUpload } from "@/lib/storage/archive";
+import { createClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+type CompleteZipUploadBody = {
+  filename?: unknown;
+  sha256?: unknown;
+};
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+// Records a ZIP the browser uploaded with the token from /api/bill-archive/zips/uploads.
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "console:view");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  if (!getBillStorageMode()) {
+    return errorResponse("Bill storage is off.", 409);
+  }
+
+  let body: CompleteZipUploadBody;
+  try {
+    body = (await request.json()) as CompleteZipUploadBody;
+  } catch {
+    return errorResponse("Invalid request body.", 400);
+  }
+
+  const filename = String(body.filename ?? "").trim();
+  const sha256 = String(body.sha256 ?? "").trim().toLowerCase();
+  if (!filename.toLowerCase().endsWith(".zip")) {
+    return errorResponse("filename must end with .zip.", 400);
+  }
+
+  if (!SHA256_PATTERN.test(sha256)) {
+    return errorResponse("sha256 must be 64 hex characters.", 400);
+  }
+
+  try {
+    const document = await completeDocumentUpload({
+      kind: "zip",
+      sha256,
+      filename,
+      uploadedByAuthUserId: user.id
+    });
+
+    if (!document) {
+      return errorResponse("The uploaded ZIP is missing or does not match its SHA-256.", 400);
+    }
+
+    return Response.json({
+      ok: true,
+      document: {
+        id: document.id,
+        sha256: document.sha256
+      }
+    });
+  } catch (error) {
+    console.error("zip upload completion failed", error);
+    return errorResponse("Failed to archive ZIP.", 500);
+  }
+}
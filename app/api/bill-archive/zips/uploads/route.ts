@@ -0,0 +1,70 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import { getBillStorageMode } from "@/lib/storage";
+import { beginDocumentUpload } from "@/lib/storage/archive";
+import { createClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+type BeginZipUploadBody = {
+  filename?: unknown;
+  sha256?: unknown;
+};
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+// Starts a ZIP upload that goes from the browser straight to storage, so month-end ZIPs are not
+// held back by the request body limit. Returns the archived document when these bytes are
+// already stored, an upload token otherwise, or neither when the ZIP must be posted to
+// /api/bill-archive/zips.
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "console:view");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  if (!getBillStorageMode()) {
+    return errorResponse("Bill storage is off.", 409);
+  }
+
+  let body: BeginZipUploadBody;
+  try {
+    body = (await request.json()) as BeginZipUploadBody;
+  } catch {
+    return errorResponse("Invalid request body.", 400);
+  }
+
+  const filename = String(body.filename ?? "").trim();
+  const sha256 = String(body.sha256 ?? "").trim().toLowerCase();
+  if (!filename.toLowerCase().endsWith(".zip")) {
+    return errorResponse("filename must end with .zip.", 400);
+  }
+
+  if (!SHA256_PATTERN.test(sha256)) {
+    return errorResponse("sha256 must be 64 hex characters.", 400);
+  }
+
+  try {
+    const { document, upload } = await beginDocumentUpload("zip", sha256);
+
+    return Response.json({
+      ok: true,
+      document: document ? { id: document.id, sha256: document.sha256 } : null,
+      upload
+    });
+  } catch (error) {
+    console.error("zip upload start failed", error);
+    return errorResponse("Failed to archive ZIP.", 500);
+  }
+}
@@ -1,174 +1,161 @@
-import type { SupabaseClient } from "@supabase/supabase-js";
-import { getProfileForAuthUser, hasAdminAccess } from "@/lib/auth/profile";
-import { getGmailClient } from "@/lib/email/gmail";
+import { getMfaStatus, isMfaPending } from "@/lib/auth/mfa";
+import { hasPermission } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import { normalizeRecipients } from "@/lib/contacts/recipients";
+import {
+  decodeExtraAttachments,
+  getAttachmentSizeError,
+  getRequestBodySizeError,
+  normalizeExtraAttachments,
+  readExtraAttachmentFiles,
+  type ExtraAttachment
+} from "@/lib/email/attachments";
+import { getEmailProvider, getEmailProviderName } from "@/lib/email/providers";
+import { buildIdempotencyKey, sha256Hex } from "@/lib/email/idempotency";
+import {
+  EMAIL_PATTERN,
+  getMissingSenderMessage,
+  getSenderEmail,
+  logSendOutcome,
+  sendBillEmail
+} from "@/lib/email/send-bill";
+import {
+  SEND_EMAIL_ATTACHMENT_FIELD,
+  SEND_EMAIL_METADATA_FIELD,
+  SEND_EMAIL_PDF_FIELD
+} from "@/lib/email/send-request";
+import { getStoredDocument, readStoredDocument } from "@/lib/storage/archive";
 import { createClient } from "@/lib/supabase/server";
+import { getTemplateForSend } from "@/lib/templates/load";
+import { normalizeCustomVariables } from "@/lib/templates/render";
 
 export const runtime = "nodejs";
 
-const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-const EMAIL_IN_TEXT_PATTERN = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
-
 type SendEmailRequestBody = {
   zip_filename?: unknown;
   account_key?: unknown;
   trade_date?: unknown;
   to_email?: unknown;
   to_name?: unknown;
+  recipients?: unknown;
   filename?: unknown;
   pdf_base64?: unknown;
+  template_id?: unknown;
+  idempotency_key?: unknown;
+  force?: unknown;
+  force_reason?: unknown;
+  pdf_document_id?: unknown;
+  attachment_document_ids?: unknown;
+  zip_document_id?: unknown;
+  attachments?: unknown;
+  variables?: unknown;
 };
 
-type SendLogInput = {
-  zip_filename: string;
-  account_key: string;
-  trade_date: string | null;
-  to_email: string;
-  to_name: string | null;
-  status: "sent" | "failed";
-  error: string | null;
-  message_id: string | null;
-  sent_by_auth_user_id: string;
-};
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 function badRequest(error: string) {
   return Response.json(
     {
       ok: false,
-      provider: "gmail",
+      provider: getEmailProviderName(),
       error
     },
     { status: 400 }
   );
 }
 
+function payloadTooLarge(error: string) {
+  return Response.json(
+    {
+      ok: false,
+      provider: getEmailProviderName(),
+      error
+    },
+    { status: 413 }
+  );
+}
+
 function toStringOrEmpty(value: unknown): string {
   return String(value ?? "").trim();
 }
 
-function maskEmail(email: string): string {
-  const normalized = email.trim().toLowerCase();
-  const [local, domain] = normalized.split("@");
-
-  if (!local || !domain) {
-    return "***";
+// Extra files of an archived bill, in the order they were attached. Any unknown or purged
+// file is an error, so a resend never goes out with only part of the original email.
+async function readArchivedAttachments(value: unknown): Promise<ExtraAttachment[] | string> {
+  if (value === undefined || value === null) {
+    return [];
   }
 
-  if (local.length <= 2) {
-    return `${local[0] ?? "*"}***@${domain}`;
+  if (!Array.isArray(value) || !value.every((id) => UUID_PATTERN.test(String(id)))) {
+    return "attachment_document_ids must be a list of archived document ids.";
   }
 
-  return `${local.slice(0, 2)}***@${domain}`;
-}
-
-function sanitizeErrorMessage(message: string): string {
-  return message.replace(EMAIL_IN_TEXT_PATTERN, (match) => maskEmail(match));
-}
+  const attachments: ExtraAttachment[] = [];
+  for (const id of value) {
+    const document = await getStoredDocument(String(id), "attachment");
+    if (!document) {
+      return "attachment_document_ids does not match archived attachments.";
+    }
 
-function wrapBase64Lines(value: string): string {
-  return value.replace(/.{1,76}/g, "$&\r\n").trimEnd();
-}
+    const content = await readStoredDocument(document);
+    if (!content) {
+      return "An archived attachment has been purged. Resend from the original ZIP.";
+    }
 
-function pad2(value: number): string {
-  return value.toString().padStart(2, "0");
-}
+    attachments.push({ filename: document.filename, content });
+  }
 
-function formatAsDdMmYyyy(date: Date): string {
-  return `${pad2(date.getDate())}-${pad2(date.getMonth() + 1)}-${date.getFullYear()}`;
+  return attachments;
 }
 
-function formatDateForSubject(value: string | null): string {
-  const normalized = String(value ?? "").trim();
+type MultipartSendEmail = {
+  body: SendEmailRequestBody;
+  pdf: ExtraAttachment;
+  attachments: ExtraAttachment[];
+};
 
-  const ymdMatch = normalized.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (ymdMatch) {
-    return `${ymdMatch[3]}-${ymdMatch[2]}-${ymdMatch[1]}`;
+// Metadata is the same JSON as the JSON body; the bill and extra files arrive as binary parts.
+async function readMultipartBody(request: Request): Promise<MultipartSendEmail | string> {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return "Invalid request body.";
   }
 
-  const dmyMatch = normalized.match(/^(\d{2})-(\d{2})-(\d{4})$/);
-  if (dmyMatch) {
-    return normalized;
+  const metadata = String(formData.get(SEND_EMAIL_METADATA_FIELD) ?? "");
+  let body: SendEmailRequestBody | null = null;
+  try {
+    body = JSON.parse(metadata) as SendEmailRequestBody;
+  } catch {
+    // Reported below.
   }
 
-  const ymdSlashMatch = normalized.match(/^(\d{4})\/(\d{2})\/(\d{2})$/);
-  if (ymdSlashMatch) {
-    return `${ymdSlashMatch[3]}-${ymdSlashMatch[2]}-${ymdSlashMatch[1]}`;
+  if (!body || typeof body !== "object") {
+    return `${SEND_EMAIL_METADATA_FIELD} must be a JSON object.`;
   }
 
-  const dmySlashMatch = normalized.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
-  if (dmySlashMatch) {
-    return `${dmySlashMatch[1]}-${dmySlashMatch[2]}-${dmySlashMatch[3]}`;
+  const pdfFile = formData.get(SEND_EMAIL_PDF_FIELD);
+  if (!pdfFile || typeof pdfFile === "string") {
+    return `${SEND_EMAIL_PDF_FIELD} file is required.`;
   }
 
-  if (normalized) {
-    const parsed = new Date(normalized);
-    if (!Number.isNaN(parsed.getTime())) {
-      return formatAsDdMmYyyy(parsed);
-    }
+  const attachmentsResult = await readExtraAttachmentFiles(
+    formData.getAll(SEND_EMAIL_ATTACHMENT_FIELD)
+  );
+  if (!attachmentsResult.ok) {
+    return attachmentsResult.error;
   }
 
-  return formatAsDdMmYyyy(new Date());
-}
-
-function base64UrlEncode(value: string): string {
-  return Buffer.from(value)
-    .toString("base64")
-    .replace(/\+/g, "-")
-    .replace(/\//g, "_")
-    .replace(/=+$/g, "");
-}
-
-function buildRawMimeMessage(params: {
-  from: string;
-  to: string;
-  subject: string;
-  text: string;
-  filename: string;
-  pdfBuffer: Buffer;
-}): string {
-  const boundary = `boundary_${Date.now().toString(36)}`;
-  const safeFilename = params.filename.replace(/"/g, "");
-  const attachmentBase64 = wrapBase64Lines(params.pdfBuffer.toString("base64"));
-
-  const rawMessage = [
-    `From: ${params.from}`,
-    `To: ${params.to}`,
-    `Subject: ${params.subject}`,
-    "MIME-Version: 1.0",
-    `Content-Type: multipart/mixed; boundary="${boundary}"`,
-    "",
-    `--${boundary}`,
-    'Content-Type: text/plain; charset="UTF-8"',
-    "Content-Transfer-Encoding: 7bit",
-    "",
-    params.text,
-    "",
-    `--${boundary}`,
-    `Content-Type: application/pdf; name="${safeFilename}"`,
-    "Content-Transfer-Encoding: base64",
-    `Content-Disposition: attachment; filename="${safeFilename}"`,
-    "",
-    attachmentBase64,
-    "",
-    `--${boundary}--`,
-    ""
-  ].join("\r\n");
-
-  return base64UrlEncode(rawMessage);
-}
-
-async function writeSendLog(supabase: SupabaseClient, log: SendLogInput) {
-  try {
-    const { error } = await supabase.from("send_logs").insert(log);
-
-    if (error) {
-      console.error("send_logs insert failed");
-    }
-  } catch {
-    console.error("send_logs insert failed");
-  }
+  return {
+    body: { ...body, filename: body.filename ?? pdfFile.name },
+    pdf: { filename: pdfFile.name, content: Buffer.from(await pdfFile.arrayBuffer()) },
+    attachments: attachmentsResult.attachments
+  };
 }
 
 export async function POST(request: Request) {
+  const provider = getEmailProvider();
   const supabase = await createClient();
   const {
     data: claimsData,
@@ -180,7 +167,7 @@ export async function POST(request: Request) {
     return Response.json(
       {
         ok: false,
-        provider: "gmail",
+        provider: provider.name,
         error: "Not authorized."
       },
       { status: 401 }
@@ -195,7 +182,7 @@ export async function POST(request: Request) {
     return Response.json(
       {
         ok: false,
-        provider: "gmail",
+        provider: provider.name,
         error: "Not authorized."
       },
       { status: 401 }
@@ -203,21 +190,45 @@ export async function POST(request: Request) {
   }
 
   const profile = await getProfileForAuthUser(supabase, user.id);
-  if (!hasAdminAccess(user.email, profile.role)) {
+  if (
+    !hasPermission(user.email, profile.role, "emails:send") ||
+    isMfaPending(await getMfaStatus(supabase, user.email, profile.role))
+  ) {
     return Response.json(
       {
         ok: false,
-        provider: "gmail",
+        provider: provider.name,
         error: "Not authorized."
       },
       { status: 401 }
     );
   }
 
+  const requestSizeError = getRequestBodySizeError(request);
+  if (requestSizeError) {
+    return payloadTooLarge(requestSizeError);
+  }
+
   let body: SendEmailRequestBody;
-  try {
-    body = (await request.json()) as SendEmailRequestBody;
-  } catch {
+  let multipart: MultipartSendEmail | null = null;
+  const contentType = request.headers.get("content-type")?.toLowerCase() ?? "";
+  if (contentType.startsWith("multipart/form-data")) {
+    const parsed = await readMultipartBody(request);
+    if (typeof parsed === "string") {
+      return badRequest(parsed);
+    }
+
+    multipart = parsed;
+    body = parsed.body;
+  } else {
+    try {
+      body = (await request.json()) as SendEmailRequestBody;
+    } catch {
+      return badRequest("Invalid request body.");
+    }
+  }
+
+  if (!body || typeof body !== "object") {
     return badRequest("Invalid request body.");
   }
 
@@ -227,8 +238,14 @@ export async function POST(request: Request) {
   const tradeDate = tradeDateRaw || null;
   const toEmail = toStringOrEmpty(body.to_email).toLowerCase();
   const toName = toStringOrEmpty(body.to_name) || null;
-  const filename = toStringOrEmpty(body.filename);
+  let filename = toStringOrEmpty(body.filename);
   const pdfBase64 = toStringOrEmpty(body.pdf_base64);
+  const pdfDocumentId = toStringOrEmpty(body.pdf_document_id);
+  const zipDocumentId = toStringOrEmpty(body.zip_document_id) || null;
+  const templateId = toStringOrEmpty(body.template_id) || null;
+  const idempotencyKey = toStringOrEmpty(body.idempotency_key);
+  const force = body.force === true;
+  const forceReason = toStringOrEmpty(body.force_reason);
 
   if (!zipFilename) {
     return badRequest("zip_filename is required.");
@@ -242,43 +259,139 @@ export async function POST(request: Request) {
     return badRequest("to_email must be a valid email address.");
   }
 
-  if (!filename.toLowerCase().endsWith(".pdf")) {
+  const recipientsResult = normalizeRecipients(body.recipients, toEmail);
+  if (!recipientsResult.ok) {
+    return badRequest(recipientsResult.error);
+  }
+
+  const recipients = recipientsResult.recipients;
+
+  const attachmentsResult = normalizeExtraAttachments(body.attachments);
+  if (!attachmentsResult.ok) {
+    return badRequest(attachmentsResult.error);
+  }
+
+  const variablesResult = normalizeCustomVariables(body.variables);
+  if (!variablesResult.ok) {
+    return badRequest(variablesResult.error);
+  }
+
+  if ((multipart || pdfBase64) && !filename.toLowerCase().endsWith(".pdf")) {
     return badRequest("filename must end with .pdf.");
   }
 
-  if (!pdfBase64) {
-    return badRequest("pdf_base64 is required.");
+  if (!multipart && !pdfBase64 && !pdfDocumentId) {
+    return badRequest("pdf_base64 or pdf_document_id is required.");
   }
 
   let pdfBuffer: Buffer;
-  try {
-    pdfBuffer = Buffer.from(pdfBase64, "base64");
-  } catch {
-    return badRequest("pdf_base64 must be valid base64.");
+  let archivedAttachments: ExtraAttachment[] = [];
+  if (multipart) {
+    pdfBuffer = multipart.pdf.content;
+  } else if (pdfBase64) {
+    try {
+      pdfBuffer = Buffer.from(pdfBase64, "base64");
+    } catch {
+      return badRequest("pdf_base64 must be valid base64.");
+    }
+  } else {
+    // Resend of an archived bill: the server reads the exact PDF that was sent before.
+    const pdfDocument = UUID_PATTERN.test(pdfDocumentId)
+      ? await getStoredDocument(pdfDocumentId, "pdf")
+      : null;
+    if (!pdfDocument) {
+      return badRequest("pdf_document_id does not match an archived PDF.");
+    }
+
+    const storedPdf = await readStoredDocument(pdfDocument);
+    if (!storedPdf) {
+      return badRequest("The archived PDF has been purged. Resend from the original ZIP.");
+    }
+
+    const storedAttachments = await readArchivedAttachments(body.attachment_document_ids);
+    if (typeof storedAttachments === "string") {
+      return badRequest(storedAttachments);
+    }
+
+    pdfBuffer = storedPdf;
+    filename = filename || pdfDocument.filename;
+    archivedAttachments = storedAttachments;
   }
 
   if (pdfBuffer.length === 0) {
     return badRequest("pdf attachment must be non-empty.");
   }
 
-  const senderEmail = process.env.GMAIL_SENDER_EMAIL?.trim();
-  if (!senderEmail || !EMAIL_PATTERN.test(senderEmail)) {
-    const message = "GMAIL_SENDER_EMAIL is missing or invalid.";
-    await writeSendLog(supabase, {
-      zip_filename: zipFilename,
-      account_key: accountKey,
-      trade_date: tradeDate,
-      to_email: toEmail,
-      to_name: toName,
-      status: "failed",
-      error: message,
-      message_id: null,
-      sent_by_auth_user_id: user.id
-    });
+  const extraAttachments = multipart?.attachments ?? [
+    ...archivedAttachments,
+    ...decodeExtraAttachments(attachmentsResult.attachments)
+  ];
+  if (extraAttachments.some((attachment) => attachment.content.length === 0)) {
+    return badRequest("Each attachment must be non-empty.");
+  }
+
+  const sizeError = [{ filename, content: pdfBuffer }, ...extraAttachments]
+    .map((attachment) => getAttachmentSizeError(attachment.filename, attachment.content.length))
+    .find((error) => error !== null);
+  if (sizeError) {
+    return payloadTooLarge(sizeError);
+  }
+
+  if (
+    idempotencyKey &&
+    idempotencyKey !==
+      buildIdempotencyKey(
+        zipFilename,
+        accountKey,
+        sha256Hex(pdfBuffer),
+        extraAttachments.map((attachment) => sha256Hex(attachment.content))
+      )
+  ) {
+    return badRequest(
+      "idempotency_key does not match zip_filename, account_key and the attachments."
+    );
+  }
+
+  if (
+    zipDocumentId &&
+    !(UUID_PATTERN.test(zipDocumentId) && (await getStoredDocument(zipDocumentId, "zip")))
+  ) {
+    return badRequest("zip_document_id does not match an archived ZIP.");
+  }
+
+  if (force && !forceReason) {
+    return badRequest("force_reason is required to resend a bill that was already sent.");
+  }
+
+  const template = await getTemplateForSend(supabase, templateId);
+  if (!template) {
+    return badRequest("template_id does not match an email template.");
+  }
+
+  if (!getSenderEmail(provider)) {
+    const message = getMissingSenderMessage(provider);
+    await logSendOutcome(
+      supabase,
+      {
+        zipFilename,
+        accountKey,
+        tradeDate,
+        toEmail,
+        toName,
+        recipients,
+        sentByAuthUserId: user.id
+      },
+      { provider: provider.name, email: null },
+      {
+        status: "failed",
+        error: message,
+        message_id: null
+      }
+    );
     return Response.json(
       {
         ok: false,
-        provider: "gmail",
+        provider: provider.name,
         error: message
       },
       { status: 500 }
@@ -289,110 +402,57 @@ export async function POST(request: Request) {
   if (dryRun) {
     return Response.json({
       ok: true,
-      provider: "gmail",
+      provider: provider.name,
       dryRun: true
     });
   }
 
-  const toAddress = toName ? `"${toName.replace(/"/g, "")}" <${toEmail}>` : toEmail;
-  const formattedDate = formatDateForSubject(tradeDate);
-  const subject = `Learn Unlearn Relearn "${formattedDate}"`;
-  const text = "Hi\n\nPFA ref for below.";
-
-  try {
-    const { gmail } = getGmailClient();
-    const raw = buildRawMimeMessage({
-      from: senderEmail,
-      to: toAddress,
-      subject,
-      text,
-      filename,
-      pdfBuffer
-    });
-
-    const sendResult = await gmail.users.messages.send({
-      userId: "me",
-      requestBody: { raw }
-    });
-
-    const messageId = sendResult.data.id ?? null;
-    const threadId = sendResult.data.threadId ?? null;
-
-    if (!messageId) {
-      const message = "Failed to send email.";
-      await writeSendLog(supabase, {
-        zip_filename: zipFilename,
-        account_key: accountKey,
-        trade_date: tradeDate,
-        to_email: toEmail,
-        to_name: toName,
-        status: "failed",
-        error: message,
-        message_id: null,
-        sent_by_auth_user_id: user.id
-      });
-
-      return Response.json(
-        {
-          ok: false,
-          provider: "gmail",
-          error: message
-        },
-        { status: 500 }
-      );
-    }
-
-    await writeSendLog(supabase, {
-      zip_filename: zipFilename,
-      account_key: accountKey,
-      trade_date: tradeDate,
-      to_email: toEmail,
-      to_name: toName,
-      status: "sent",
-      error: null,
-      message_id: messageId,
-      sent_by_auth_user_id: user.id
-    });
-
-    return Response.json({
-      ok: true,
-      provider: "gmail",
-      id: messageId,
-      threadId,
-      messageId
-    });
-  } catch (error) {
-    const message = sanitizeErrorMessage(
-      error instanceof Error && error.message.trim()
-        ? error.message
-        : "Failed to send email."
+  const result = await sendBillEmail(supabase, {
+    zipFilename,
+    accountKey,
+    tradeDate,
+    toEmail,
+    toName,
+    recipients,
+    filename,
+    pdfBuffer,
+    sentByAuthUserId: user.id,
+    template,
+    forcedReason: force ? forceReason : null,
+    zipDocumentId,
+    extraAttachments,
+    variables: variablesResult.variables
+  });
+
+  if (!result.ok && result.duplicate) {
+    return Response.json(
+      {
+        ok: false,
+        provider: provider.name,
+        error: result.error,
+        duplicate: result.duplicate
+      },
+      { status: 409 }
     );
+  }
 
-    await writeSendLog(supabase, {
-      zip_filename: zipFilename,
-      account_key: accountKey,
-      trade_date: tradeDate,
-      to_email: toEmail,
-      to_name: toName,
-      status: "failed",
-      error: message,
-      message_id: null,
-      sent_by_auth_user_id: user.id
-    });
-
-    console.error("send-email failed", {
-      account_key: accountKey,
-      to: maskEmail(toEmail),
-      provider: "gmail"
-    });
-
+  if (!result.ok) {
     return Response.json(
       {
         ok: false,
-        provider: "gmail",
-        error: message
+        provider: provider.name,
+        error: result.error,
+        deferred: result.deferred ?? false
       },
-      { status: 500 }
+      { status: result.deferred ? 429 : 500 }
     );
   }
+
+  return Response.json({
+    ok: true,
+    provider: provider.name,
+    id: result.messageId,
+    threadId: result.threadId,
+    messageId: result.messageId
+  });
 }
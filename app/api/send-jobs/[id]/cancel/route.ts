@@ -0,0 +1,66 @@
+import { getSendJobControlUser } from "@/lib/send-jobs/access";
+import { SEND_JOB_COLUMNS, type SendJob } from "@/lib/send-jobs/types";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+
+export const runtime = "nodejs";
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const user = await getSendJobControlUser(await createClient(), id);
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const serviceRole = createServiceRoleClient();
+  const { data, error } = await serviceRole
+    .from("send_jobs")
+    .update({
+      status: "cancelled",
+      completed_at: new Date().toISOString()
+    })
+    .eq("id", id)
+    .in("status", ["uploading", "scheduled", "queued", "running", "paused"])
+    .select(SEND_JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("send_jobs cancel failed", error);
+    return errorResponse("Failed to cancel send job.", 500);
+  }
+
+  if (!data) {
+    return errorResponse("Send job has already finished.", 409);
+  }
+
+  // Pending items of a cancelled job are never claimed, so their PDFs are not kept. Items
+  // already being sent finish and are counted as usual.
+  const { error: itemsError } = await serviceRole
+    .from("send_job_items")
+    .update({ pdf_base64: null, extra_attachments: null })
+    .eq("job_id", id)
+    .eq("status", "pending");
+
+  if (itemsError) {
+    console.error("send_job_items cleanup failed", itemsError);
+  }
+
+  return Response.json({
+    ok: true,
+    job: data as SendJob
+  });
+}
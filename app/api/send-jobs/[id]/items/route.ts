@@ -0,0 +1,202 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import { normalizeRecipients } from "@/lib/contacts/recipients";
+import {
+  getAttachmentSizeError,
+  getRequestBodySizeError,
+  readExtraAttachmentFiles
+} from "@/lib/email/attachments";
+import { EMAIL_PATTERN } from "@/lib/email/send-bill";
+import type { SendJobItemInput } from "@/lib/send-jobs/types";
+import {
+  getSendJobItemAttachmentField,
+  getSendJobItemPdfField,
+  SEND_JOB_ITEMS_METADATA_FIELD
+} from "@/lib/send-jobs/upload-request";
+import { createClient } from "@/lib/supabase/server";
+import { normalizeCustomVariables } from "@/lib/templates/render";
+
+export const runtime = "nodejs";
+
+type AppendItemsMetadata = {
+  items?: unknown;
+};
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+function toStringOrEmpty(value: unknown): string {
+  return String(value ?? "").trim();
+}
+
+// Item n is the n-th metadata entry plus the "pdf_<n>" and "attachments_<n>" file parts. The
+// files are kept as base64 in send_job_items until the worker sends the item.
+async function parseItem(
+  value: unknown,
+  formData: FormData,
+  index: number
+): Promise<SendJobItemInput | { error: string; status: number }> {
+  const entry =
+    value !== null && typeof value === "object"
+      ? (value as Record<string, unknown>)
+      : null;
+  if (!entry) {
+    return { error: "Each item must be an object.", status: 400 };
+  }
+
+  const toEmail = toStringOrEmpty(entry.to_email).toLowerCase();
+  const recipientsResult = normalizeRecipients(entry.recipients, toEmail);
+  if (!recipientsResult.ok) {
+    return { error: recipientsResult.error, status: 400 };
+  }
+
+  const variablesResult = normalizeCustomVariables(entry.variables);
+  if (!variablesResult.ok) {
+    return { error: variablesResult.error, status: 400 };
+  }
+
+  const accountKey = toStringOrEmpty(entry.account_key);
+  const rowKey = toStringOrEmpty(entry.row_key);
+  const filename = toStringOrEmpty(entry.filename);
+
+  if (!rowKey || !accountKey) {
+    return { error: "row_key and account_key are required.", status: 400 };
+  }
+
+  if (!EMAIL_PATTERN.test(toEmail)) {
+    return { error: `to_email must be a valid email address (${accountKey}).`, status: 400 };
+  }
+
+  if (!filename.toLowerCase().endsWith(".pdf")) {
+    return { error: `filename must end with .pdf (${accountKey}).`, status: 400 };
+  }
+
+  const pdfFile = formData.get(getSendJobItemPdfField(index));
+  if (!pdfFile || typeof pdfFile === "string" || pdfFile.size === 0) {
+    return { error: `The PDF file is required (${accountKey}).`, status: 400 };
+  }
+
+  const attachmentsResult = await readExtraAttachmentFiles(
+    formData.getAll(getSendJobItemAttachmentField(index))
+  );
+  if (!attachmentsResult.ok) {
+    return { error: attachmentsResult.error, status: 400 };
+  }
+
+  const pdf = Buffer.from(await pdfFile.arrayBuffer());
+  const files = [{ filename, content: pdf }, ...attachmentsResult.attachments];
+  if (files.some((file) => file.content.length === 0)) {
+    return { error: `Each attachment must be non-empty (${accountKey}).`, status: 400 };
+  }
+
+  const sizeError = files
+    .map((file) => getAttachmentSizeError(file.filename, file.content.length))
+    .find((error) => error !== null);
+  if (sizeError) {
+    return { error: sizeError, status: 413 };
+  }
+
+  return {
+    row_key: rowKey,
+    account_key: accountKey,
+    trade_date: toStringOrEmpty(entry.trade_date) || null,
+    to_email: toEmail,
+    to_name: toStringOrEmpty(entry.to_name) || null,
+    recipients: recipientsResult.recipients,
+    filename,
+    pdf_base64: pdf.toString("base64"),
+    extra_attachments: attachmentsResult.attachments.map((attachment) => ({
+      filename: attachment.filename,
+      content_base64: attachment.content.toString("base64")
+    })),
+    variables: variablesResult.variables
+  };
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "emails:send");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const sizeError = getRequestBodySizeError(request);
+  if (sizeError) {
+    return errorResponse(sizeError, 413);
+  }
+
+  const { id } = await params;
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return errorResponse("Invalid request body.", 400);
+  }
+
+  let metadata: AppendItemsMetadata | null = null;
+  try {
+    metadata = JSON.parse(
+      String(formData.get(SEND_JOB_ITEMS_METADATA_FIELD) ?? "")
+    ) as AppendItemsMetadata;
+  } catch {
+    // Reported below.
+  }
+
+  if (!metadata || !Array.isArray(metadata.items) || metadata.items.length === 0) {
+    return errorResponse("items must be a non-empty array.", 400);
+  }
+
+  const items: SendJobItemInput[] = [];
+  for (const [index, value] of metadata.items.entries()) {
+    const parsed = await parseItem(value, formData, index);
+    if ("error" in parsed) {
+      return errorResponse(parsed.error, parsed.status);
+    }
+    items.push(parsed);
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from("send_jobs")
+    .select("status,created_by_auth_user_id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (jobError || !job) {
+    return errorResponse("Send job not found.", 404);
+  }
+
+  if (job.created_by_auth_user_id !== user.id) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  if (job.status !== "uploading") {
+    return errorResponse("Send job is no longer accepting items.", 409);
+  }
+
+  const { error } = await supabase
+    .from("send_job_items")
+    .upsert(
+      items.map((item) => ({ ...item, job_id: id })),
+      { onConflict: "job_id,row_key", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error("send_job_items insert failed", error);
+    return errorResponse("Failed to store send job items.", 500);
+  }
+
+  return Response.json({
+    ok: true,
+    received: items.length
+  });
+}
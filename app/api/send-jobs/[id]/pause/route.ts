@@ -0,0 +1,53 @@
+import { getSendJobControlUser } from "@/lib/send-jobs/access";
+import { SEND_JOB_COLUMNS, type SendJob } from "@/lib/send-jobs/types";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+
+export const runtime = "nodejs";
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+// Stops the worker from claiming more items. Items already being sent finish; the rest stay
+// pending until the job is resumed or cancelled. Senders may pause their own jobs.
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const user = await getSendJobControlUser(await createClient(), id);
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const serviceRole = createServiceRoleClient();
+  const { data, error } = await serviceRole
+    .from("send_jobs")
+    .update({ status: "paused" })
+    .eq("id", id)
+    .in("status", ["queued", "running"])
+    .select(SEND_JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("send_jobs pause failed", error);
+    return errorResponse("Failed to pause send job.", 500);
+  }
+
+  if (!data) {
+    return errorResponse("Send job is not sending.", 409);
+  }
+
+  return Response.json({
+    ok: true,
+    job: data as SendJob
+  });
+}
@@ -0,0 +1,68 @@
+import { getSendJobControlUser } from "@/lib/send-jobs/access";
+import { SEND_JOB_COLUMNS, type SendJob } from "@/lib/send-jobs/types";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+
+export const runtime = "nodejs";
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+// Senders may resume the jobs they created, like pausing and cancelling them.
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const user = await getSendJobControlUser(await createClient(), id);
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const serviceRole = createServiceRoleClient();
+  const { data: job, error: jobError } = await serviceRole
+    .from("send_jobs")
+    .select("started_at")
+    .eq("id", id)
+    .eq("status", "paused")
+    .maybeSingle();
+
+  if (jobError) {
+    console.error("send_jobs lookup failed", jobError);
+    return errorResponse("Failed to resume send job.", 500);
+  }
+
+  if (!job) {
+    return errorResponse("Send job is not paused.", 409);
+  }
+
+  const { data, error } = await serviceRole
+    .from("send_jobs")
+    .update({ status: job.started_at ? "running" : "queued" })
+    .eq("id", id)
+    .eq("status", "paused")
+    .select(SEND_JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("send_jobs resume failed", error);
+    return errorResponse("Failed to resume send job.", 500);
+  }
+
+  if (!data) {
+    return errorResponse("Send job is not paused.", 409);
+  }
+
+  return Response.json({
+    ok: true,
+    job: data as SendJob
+  });
+}
@@ -0,0 +1,120 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import { parseScheduledFor } from "@/lib/send-jobs/schedule";
+import {
+  SEND_JOB_COLUMNS,
+  type SendJob,
+  type SendJobItemState
+} from "@/lib/send-jobs/types";
+import { createClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+type UpdateSendJobBody = {
+  scheduled_for?: unknown;
+};
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "console:view");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const { id } = await params;
+  const { data: job, error: jobError } = await supabase
+    .from("send_jobs")
+    .select(SEND_JOB_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (jobError) {
+    console.error("send_jobs lookup failed", jobError);
+    return errorResponse("Failed to load send job.", 500);
+  }
+
+  if (!job) {
+    return errorResponse("Send job not found.", 404);
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from("send_job_items")
+    .select("row_key,account_key,status,error")
+    .eq("job_id", id);
+
+  if (itemsError) {
+    console.error("send_job_items lookup failed", itemsError);
+    return errorResponse("Failed to load send job.", 500);
+  }
+
+  return Response.json({
+    ok: true,
+    job: job as SendJob,
+    items: (items ?? []) as SendJobItemState[]
+  });
+}
+
+// Reschedules a job that has not fired yet.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "send_jobs:manage");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  let body: UpdateSendJobBody;
+  try {
+    body = (await request.json()) as UpdateSendJobBody;
+  } catch {
+    return errorResponse("Invalid request body.", 400);
+  }
+
+  const schedule = parseScheduledFor(body.scheduled_for);
+  if (!schedule.ok) {
+    return errorResponse(schedule.error, 400);
+  }
+
+  if (!schedule.scheduledFor) {
+    return errorResponse("scheduled_for is required.", 400);
+  }
+
+  const { id } = await params;
+  const { data, error } = await supabase
+    .from("send_jobs")
+    .update({ scheduled_for: schedule.scheduledFor })
+    .eq("id", id)
+    .eq("status", "scheduled")
+    .select(SEND_JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("send_jobs reschedule failed", error);
+    return errorResponse("Failed to update send job.", 500);
+  }
+
+  if (!data) {
+    return errorResponse("Send job is no longer scheduled.", 409);
+  }
+
+  return Response.json({
+    ok: true,
+    job: data as SendJob
+  });
+}
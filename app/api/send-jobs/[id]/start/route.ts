@@ -0,0 +1,97 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import { parseScheduledFor } from "@/lib/send-jobs/schedule";
+import { SEND_JOB_COLUMNS, type SendJob } from "@/lib/send-jobs/types";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+
+export const runtime = "nodejs";
+
+type StartSendJobBody = {
+  scheduled_for?: unknown;
+};
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "emails:send");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  // The body is optional; without scheduled_for the job is queued right away.
+  const body = (await request.json().catch(() => ({}))) as StartSendJobBody | null;
+  const schedule = parseScheduledFor(body?.scheduled_for);
+  if (!schedule.ok) {
+    return errorResponse(schedule.error, 400);
+  }
+
+  const { id } = await params;
+  const { data: job, error: jobError } = await supabase
+    .from("send_jobs")
+    .select("created_by_auth_user_id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (jobError || !job) {
+    return errorResponse("Send job not found.", 404);
+  }
+
+  // Only the sender who uploaded the job starts it. Row level security keeps senders to their
+  // own uploading jobs, so the status change itself goes through the service role.
+  if (job.created_by_auth_user_id !== user.id) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const { count, error: countError } = await supabase
+    .from("send_job_items")
+    .select("id", { count: "exact", head: true })
+    .eq("job_id", id);
+
+  if (countError) {
+    console.error("send_job_items count failed", countError);
+    return errorResponse("Failed to start send job.", 500);
+  }
+
+  if (!count) {
+    return errorResponse("Send job has no items.", 409);
+  }
+
+  const { data, error } = await createServiceRoleClient()
+    .from("send_jobs")
+    .update({
+      status: schedule.scheduledFor ? "scheduled" : "queued",
+      scheduled_for: schedule.scheduledFor,
+      total_items: count
+    })
+    .eq("id", id)
+    .eq("status", "uploading")
+    .select(SEND_JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("send_jobs start failed", error);
+    return errorResponse("Failed to start send job.", 500);
+  }
+
+  if (!data) {
+    return errorResponse("Send job is not waiting to start.", 409);
+  }
+
+  return Response.json({
+    ok: true,
+    job: data as SendJob
+  });
+}
@@ -0,0 +1,115 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import {
+  ACTIVE_SEND_JOB_STATUSES,
+  SEND_JOB_COLUMNS,
+  type SendJob
+} from "@/lib/send-jobs/types";
+import { createClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+
+type CreateSendJobBody = {
+  zip_filename?: unknown;
+  total_items?: unknown;
+  template_id?: unknown;
+  zip_document_id?: unknown;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "console:view");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const zipFilename = new URL(request.url).searchParams.get("zip_filename")?.trim();
+  let query = supabase
+    .from("send_jobs")
+    .select(SEND_JOB_COLUMNS)
+    .in("status", ACTIVE_SEND_JOB_STATUSES)
+    .order("created_at", { ascending: false });
+
+  if (zipFilename) {
+    query = query.eq("zip_filename", zipFilename);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("send_jobs list failed", error);
+    return errorResponse("Failed to load send jobs.", 500);
+  }
+
+  return Response.json({
+    ok: true,
+    jobs: (data ?? []) as SendJob[]
+  });
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "emails:send");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  let body: CreateSendJobBody;
+  try {
+    body = (await request.json()) as CreateSendJobBody;
+  } catch {
+    return errorResponse("Invalid request body.", 400);
+  }
+
+  const zipFilename = String(body.zip_filename ?? "").trim();
+  const totalItems = Number(body.total_items);
+  const templateId = String(body.template_id ?? "").trim() || null;
+  const zipDocumentId = String(body.zip_document_id ?? "").trim() || null;
+
+  if (!zipFilename) {
+    return errorResponse("zip_filename is required.", 400);
+  }
+
+  if (!Number.isInteger(totalItems) || totalItems <= 0) {
+    return errorResponse("total_items must be a positive integer.", 400);
+  }
+
+  if (zipDocumentId && !UUID_PATTERN.test(zipDocumentId)) {
+    return errorResponse("zip_document_id must be a stored document id.", 400);
+  }
+
+  const { data, error } = await supabase
+    .from("send_jobs")
+    .insert({
+      zip_filename: zipFilename,
+      total_items: totalItems,
+      template_id: templateId,
+      zip_document_id: zipDocumentId,
+      created_by_auth_user_id: user.id
+    })
+    .select(SEND_JOB_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("send_jobs insert failed", error);
+    return errorResponse("Failed to create send job.", 500);
+  }
+
+  return Response.json({
+    ok: true,
+    job: data as SendJob
+  });
+}
@@ -0,0 +1,48 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import { drainSendJobs } from "@/lib/send-jobs/worker";
+import { createClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const CRON_DRAIN_BUDGET_MS = 45_000;
+const CONSOLE_DRAIN_BUDGET_MS = 15_000;
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+// Scheduled invocation (Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`).
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET?.trim();
+  const authorization = request.headers.get("authorization") ?? "";
+
+  if (!cronSecret || authorization !== `Bearer ${cronSecret}`) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const result = await drainSendJobs(CRON_DRAIN_BUDGET_MS);
+  return Response.json({ ok: true, ...result });
+}
+
+// Lets an open console nudge the queue between cron runs. Draining sends emails, so only roles
+// that can send or manage send jobs may trigger it.
+export async function POST() {
+  const supabase = await createClient();
+  const user =
+    (await getPermittedUser(supabase, "emails:send")) ??
+    (await getPermittedUser(supabase, "send_jobs:manage"));
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const result = await drainSendJobs(CONSOLE_DRAIN_BUDGET_MS);
+  return Response.json({ ok: true, ...result });
+}
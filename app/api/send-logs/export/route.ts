@@ -0,0 +1,144 @@
+import { getPermittedUser } from "@/lib/auth/session";
+import { formatCsv } from "@/lib/spreadsheet/csv";
+import {
+  listSendLogSenders,
+  normalizeSendLogFilters,
+  selectSendLogs
+} from "@/lib/send-logs/query";
+import { SEND_LOG_FILTER_KEYS, type SendLog } from "@/lib/send-logs/types";
+import { createClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const EXPORT_BATCH_SIZE = 1000;
+
+const CSV_HEADER = [
+  "sent_at",
+  "zip_filename",
+  "account_key",
+  "trade_date",
+  "to_email",
+  "to_name",
+  "recipient_type",
+  "status",
+  "error",
+  "message_id",
+  "forced_reason",
+  "pdf_sha256",
+  "attachment_filenames",
+  "provider",
+  "sender_email",
+  "sent_by"
+];
+
+function formatLogRow(log: SendLog, senderLabels: Map<string, string>): string[] {
+  return [
+    log.sent_at,
+    log.zip_filename,
+    log.account_key,
+    log.trade_date ?? "",
+    log.to_email,
+    log.to_name ?? "",
+    log.recipient_type,
+    log.status,
+    log.error ?? "",
+    log.message_id ?? "",
+    log.forced_reason ?? "",
+    log.pdf_sha256 ?? "",
+    (log.attachment_filenames ?? []).join("; "),
+    log.provider,
+    log.sender_email ?? "",
+    senderLabels.get(log.sent_by_auth_user_id) ?? log.sent_by_auth_user_id
+  ];
+}
+
+function errorResponse(error: string, status: number) {
+  return Response.json(
+    {
+      ok: false,
+      error
+    },
+    { status }
+  );
+}
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const user = await getPermittedUser(supabase, "console:view");
+
+  if (!user) {
+    return errorResponse("Not authorized.", 401);
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const filters = normalizeSendLogFilters(
+    Object.fromEntries(SEND_LOG_FILTER_KEYS.map((key) => [key, searchParams.get(key)]))
+  );
+
+  // Rows sent while the export runs would shift the pages, so the export stops at its start.
+  const startedAt = new Date().toISOString();
+  const exportFilters = {
+    ...filters,
+    sent_before:
+      filters.sent_before && Date.parse(filters.sent_before) < Date.parse(startedAt)
+        ? filters.sent_before
+        : startedAt
+  };
+  const loadBatch = (offset: number) =>
+    selectSendLogs(supabase, exportFilters)
+      .order("id", { ascending: false })
+      .range(offset, offset + EXPORT_BATCH_SIZE - 1);
+
+  // The first page is loaded up front so a failing query still gets an error response.
+  const { data: firstData, error: firstError } = await loadBatch(0);
+  if (firstError) {
+    console.error("send_logs export query failed", firstError);
+    return errorResponse("Could not load send history.", 500);
+  }
+
+  const senderLabels = new Map(
+    (await listSendLogSenders()).map((sender) => [sender.auth_user_id, sender.label])
+  );
+  const encoder = new TextEncoder();
+
+  // Every matching row is exported, one page at a time. A later page that fails aborts the
+  // download instead of ending it early, so a saved file is never silently incomplete.
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(encoder.encode(`\uFEFF${formatCsv([CSV_HEADER])}\r\n`));
+
+      let batch = (firstData ?? []) as SendLog[];
+      let offset = 0;
+      while (batch.length > 0) {
+        const rows = batch.map((log) => formatLogRow(log, senderLabels));
+        controller.enqueue(encoder.encode(`${formatCsv(rows)}\r\n`));
+
+        if (batch.length < EXPORT_BATCH_SIZE) {
+          break;
+        }
+
+        offset += EXPORT_BATCH_SIZE;
+        const { data, error } = await loadBatch(offset);
+        if (error) {
+          console.error("send_logs export query failed", error);
+          controller.error(new Error("Could not load send history."));
+          return;
+        }
+
+        batch = (data ?? []) as SendLog[];
+      }
+
+      controller.close();
+    }
+  });
+  const filename = `send-history-${new Date().toISOString().slice(0, 10)}.csv`;
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store"
+    }
+  });
+}
@@ -1,17 +1,46 @@
+import type { EmailOtpType } from "@supabase/supabase-js";
 import { NextResponse } from "next/server";
-import { getProfileForAuthUser, hasAdminAccess } from "@/lib/auth/profile";
+import { getSignedInPath } from "@/lib/auth/mfa";
+import { SET_PASSWORD_PATH } from "@/lib/auth/password";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
 import { createClient } from "@/lib/supabase/server";
 
+// Invite emails can link here with a token hash instead of a code (see README).
+const TOKEN_HASH_TYPES: EmailOtpType[] = ["invite"];
+
+type CallbackCredentials = { code: string } | { tokenHash: string; type: EmailOtpType };
+
+function isTokenHashType(value: string | null): value is EmailOtpType {
+  return TOKEN_HASH_TYPES.includes(value as EmailOtpType);
+}
+
+function getCallbackCredentials(searchParams: URLSearchParams): CallbackCredentials | null {
+  const code = searchParams.get("code");
+  if (code) {
+    return { code };
+  }
+
+  const tokenHash = searchParams.get("token_hash");
+  const type = searchParams.get("type");
+  return tokenHash && isTokenHashType(type) ? { tokenHash, type } : null;
+}
+
 export async function GET(request: Request) {
   const requestUrl = new URL(request.url);
-  const code = requestUrl.searchParams.get("code");
+  const credentials = getCallbackCredentials(requestUrl.searchParams);
 
-  if (!code) {
+  if (!credentials) {
     return NextResponse.redirect(new URL("/login?error=missing_code", request.url));
   }
 
   const supabase = await createClient();
-  const { error } = await supabase.auth.exchangeCodeForSession(code);
+  const { error } =
+    "code" in credentials
+      ? await supabase.auth.exchangeCodeForSession(credentials.code)
+      : await supabase.auth.verifyOtp({
+          type: credentials.type,
+          token_hash: credentials.tokenHash
+        });
 
   if (error) {
     return NextResponse.redirect(
@@ -27,8 +56,14 @@ export async function GET(request: Request) {
     return NextResponse.redirect(new URL("/login?error=session_missing", request.url));
   }
 
+  // Invited users have no password yet; only this one path is honoured from ?next=.
+  const isInvite = "type" in credentials && credentials.type === "invite";
+  if (isInvite || requestUrl.searchParams.get("next") === SET_PASSWORD_PATH) {
+    return NextResponse.redirect(new URL(SET_PASSWORD_PATH, request.url));
+  }
+
   const profile = await getProfileForAuthUser(supabase, user.id);
-  const redirectPath = hasAdminAccess(user.email, profile.role) ? "/" : "/user";
+  const redirectPath = await getSignedInPath(supabase, user.email, profile.role);
 
   return NextResponse.redirect(new URL(redirectPath, request.url));
 }
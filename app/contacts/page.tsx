@@ -1,8 +1,10 @@
 import { redirect } from "next/navigation";
 import { listContacts } from "@/app/actions/contacts";
+import { getSendLogSenders } from "@/app/actions/send-logs";
 import ConsoleHeader from "@/components/console-header";
 import ContactsManager from "@/components/contacts-manager";
-import { getProfileForAuthUser, hasAdminAccess } from "@/lib/auth/profile";
+import { getPermissions } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
 import { createClient } from "@/lib/supabase/server";
 
 export default async function ContactsPage() {
@@ -22,18 +24,29 @@ export default async function ContactsPage() {
   } = await supabase.auth.getUser();
   const userEmail = user?.email ?? null;
   const profile = await getProfileForAuthUser(supabase, user?.id);
+  const permissions = getPermissions(userEmail, profile.role);
 
-  if (!hasAdminAccess(userEmail, profile.role)) {
+  if (!permissions.includes("console:view")) {
     redirect("/access-denied");
   }
 
-  const contacts = await listContacts();
+  const [contacts, senders] = await Promise.all([listContacts(), getSendLogSenders()]);
 
   return (
     <main className="console-shell">
       <section className="console">
-        <ConsoleHeader activeTab="contacts" userEmail={userEmail} />
-        <ContactsManager initialContacts={contacts} />
+        <ConsoleHeader
+          activeTab="contacts"
+          userEmail={userEmail}
+          permissions={permissions}
+        />
+        <ContactsManager
+          initialContacts={contacts}
+          senders={senders}
+          canEdit={permissions.includes("contacts:edit")}
+          canRevealPdfPasswords={permissions.includes("pdf_passwords:reveal")}
+          canResend={permissions.includes("emails:send")}
+        />
       </section>
     </main>
   );
@@ -0,0 +1,46 @@
+import { redirect } from "next/navigation";
+import { listFilenamePatterns } from "@/app/actions/filename-patterns";
+import ConsoleHeader from "@/components/console-header";
+import FilenamePatternsManager from "@/components/filename-patterns-manager";
+import { getPermissions } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import { createClient } from "@/lib/supabase/server";
+
+export default async function FilenamePatternsPage() {
+  const supabase = await createClient();
+  const {
+    data: claimsData,
+    error: claimsError
+  } = await supabase.auth.getClaims();
+  const isAuthenticated = Boolean(!claimsError && claimsData?.claims);
+
+  if (!isAuthenticated) {
+    redirect("/login");
+  }
+
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+  const userEmail = user?.email ?? null;
+  const profile = await getProfileForAuthUser(supabase, user?.id);
+  const permissions = getPermissions(userEmail, profile.role);
+
+  if (!permissions.includes("filename_patterns:edit")) {
+    redirect("/access-denied");
+  }
+
+  const patterns = await listFilenamePatterns();
+
+  return (
+    <main className="console-shell">
+      <section className="console">
+        <ConsoleHeader
+          activeTab="filename-patterns"
+          userEmail={userEmail}
+          permissions={permissions}
+        />
+        <FilenamePatternsManager initialPatterns={patterns} />
+      </section>
+    </main>
+  );
+}
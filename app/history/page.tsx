@@ -0,0 +1,46 @@
+import { redirect } from "next/navigation";
+import { getSendLogSenders, listSendLogs } from "@/app/actions/send-logs";
+import ConsoleHeader from "@/components/console-header";
+import SendHistory from "@/components/send-history";
+import { getPermissions } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import { createClient } from "@/lib/supabase/server";
+
+export default async function HistoryPage() {
+  const supabase = await createClient();
+  const {
+    data: claimsData,
+    error: claimsError
+  } = await supabase.auth.getClaims();
+  const isAuthenticated = Boolean(!claimsError && claimsData?.claims);
+
+  if (!isAuthenticated) {
+    redirect("/login");
+  }
+
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+  const userEmail = user?.email ?? null;
+  const profile = await getProfileForAuthUser(supabase, user?.id);
+  const permissions = getPermissions(userEmail, profile.role);
+
+  if (!permissions.includes("console:view")) {
+    redirect("/access-denied");
+  }
+
+  const [initialPage, senders] = await Promise.all([listSendLogs({}), getSendLogSenders()]);
+
+  return (
+    <main className="console-shell">
+      <section className="console">
+        <ConsoleHeader
+          activeTab="history"
+          userEmail={userEmail}
+          permissions={permissions}
+        />
+        <SendHistory initialPage={initialPage} senders={senders} />
+      </section>
+    </main>
+  );
+}
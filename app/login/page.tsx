@@ -1,6 +1,7 @@
 import { redirect } from "next/navigation";
 import LoginForm from "@/components/login-form";
-import { getProfileForAuthUser, hasAdminAccess } from "@/lib/auth/profile";
+import { getSignedInPath } from "@/lib/auth/mfa";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
 import { createClient } from "@/lib/supabase/server";
 
 export default async function LoginPage() {
@@ -17,7 +18,7 @@ export default async function LoginPage() {
     } = await supabase.auth.getUser();
     const userEmail = user?.email ?? null;
     const profile = await getProfileForAuthUser(supabase, user?.id);
-    redirect(hasAdminAccess(userEmail, profile.role) ? "/" : "/user");
+    redirect(await getSignedInPath(supabase, userEmail, profile.role));
   }
 
   return (
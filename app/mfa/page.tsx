@@ -0,0 +1,60 @@
+import { redirect } from "next/navigation";
+import { signOutAction } from "@/app/actions/auth";
+import { countRecoveryCodes } from "@/app/actions/mfa";
+import MfaPanel from "@/components/mfa-panel";
+import { getMfaRequiredFrom, getMfaStatus } from "@/lib/auth/mfa";
+import { hasConsoleAccess } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import { createClient } from "@/lib/supabase/server";
+
+export default async function MfaPage() {
+  const supabase = await createClient();
+  const {
+    data: claimsData,
+    error: claimsError
+  } = await supabase.auth.getClaims();
+  const isAuthenticated = Boolean(!claimsError && claimsData?.claims);
+
+  if (!isAuthenticated) {
+    redirect("/login");
+  }
+
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+  const userEmail = user?.email ?? null;
+  const profile = await getProfileForAuthUser(supabase, user?.id);
+
+  if (!hasConsoleAccess(userEmail, profile.role)) {
+    redirect("/user");
+  }
+
+  const status = await getMfaStatus(supabase, userEmail, profile.role);
+  const { data: assurance } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  const isEnrolled = assurance?.nextLevel === "aal2";
+  const recoveryCodeCount = status === "ok" && isEnrolled ? await countRecoveryCodes() : 0;
+
+  return (
+    <main className="page-shell">
+      <section className="card">
+        <h2>Two-factor authentication</h2>
+        <p className="subtitle">
+          Signed in as <strong>{userEmail ?? "Unknown email"}</strong>
+        </p>
+
+        <MfaPanel
+          status={status}
+          isEnrolled={isEnrolled}
+          requiredFrom={getMfaRequiredFrom()?.toISOString() ?? null}
+          recoveryCodeCount={recoveryCodeCount}
+        />
+
+        <form action={signOutAction} className="form-stack">
+          <button type="submit" className="button button-danger">
+            Sign out
+          </button>
+        </form>
+      </section>
+    </main>
+  );
+}
@@ -1,7 +1,9 @@
 import { redirect } from "next/navigation";
 import ConsoleHeader from "@/components/console-header";
 import UploadSendConsole from "@/components/upload-send-console";
-import { getProfileForAuthUser, hasAdminAccess } from "@/lib/auth/profile";
+import { getPermissions } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import { getBillStorageMode } from "@/lib/storage";
 import { createClient } from "@/lib/supabase/server";
 
 export default async function HomePage() {
@@ -21,16 +23,27 @@ export default async function HomePage() {
   } = await supabase.auth.getUser();
   const userEmail = user?.email ?? null;
   const profile = await getProfileForAuthUser(supabase, user?.id);
+  const permissions = getPermissions(userEmail, profile.role);
 
-  if (!hasAdminAccess(userEmail, profile.role)) {
+  if (!permissions.includes("console:view")) {
     redirect("/access-denied");
   }
 
   return (
     <main className="console-shell">
       <section className="console">
-        <ConsoleHeader activeTab="upload" userEmail={userEmail} />
-        <UploadSendConsole />
+        <ConsoleHeader
+          activeTab="upload"
+          userEmail={userEmail}
+          permissions={permissions}
+        />
+        <UploadSendConsole
+          billArchiveEnabled={getBillStorageMode() !== null}
+          canSend={permissions.includes("emails:send")}
+          canManageSendJobs={permissions.includes("send_jobs:manage")}
+          currentUserId={user?.id ?? null}
+          canEditContacts={permissions.includes("contacts:edit")}
+        />
       </section>
     </main>
   );
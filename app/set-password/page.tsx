@@ -0,0 +1,30 @@
+import { redirect } from "next/navigation";
+import SetPasswordForm from "@/components/set-password-form";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import { createClient } from "@/lib/supabase/server";
+
+export default async function SetPasswordPage() {
+  const supabase = await createClient();
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const profile = await getProfileForAuthUser(supabase, user.id);
+
+  return (
+    <main className="page-shell">
+      <section className="card">
+        <h2>Choose a password</h2>
+        <p className="subtitle">
+          You sign in with User ID <strong>{profile.user_id ?? "Not set"}</strong> (or{" "}
+          {user.email ?? "your email"}) and this password.
+        </p>
+        <SetPasswordForm />
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,46 @@
+import { redirect } from "next/navigation";
+import { listTemplates } from "@/app/actions/templates";
+import ConsoleHeader from "@/components/console-header";
+import TemplatesManager from "@/components/templates-manager";
+import { getPermissions } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import { createClient } from "@/lib/supabase/server";
+
+export default async function TemplatesPage() {
+  const supabase = await createClient();
+  const {
+    data: claimsData,
+    error: claimsError
+  } = await supabase.auth.getClaims();
+  const isAuthenticated = Boolean(!claimsError && claimsData?.claims);
+
+  if (!isAuthenticated) {
+    redirect("/login");
+  }
+
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+  const userEmail = user?.email ?? null;
+  const profile = await getProfileForAuthUser(supabase, user?.id);
+  const permissions = getPermissions(userEmail, profile.role);
+
+  if (!permissions.includes("templates:edit")) {
+    redirect("/access-denied");
+  }
+
+  const templates = await listTemplates();
+
+  return (
+    <main className="console-shell">
+      <section className="console">
+        <ConsoleHeader
+          activeTab="templates"
+          userEmail={userEmail}
+          permissions={permissions}
+        />
+        <TemplatesManager initialTemplates={templates} />
+      </section>
+    </main>
+  );
+}
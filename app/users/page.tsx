@@ -0,0 +1,52 @@
+import { redirect } from "next/navigation";
+import { listLoginAttempts, listUsers } from "@/app/actions/users";
+import ConsoleHeader from "@/components/console-header";
+import LoginAttemptsPanel from "@/components/login-attempts-panel";
+import UsersManager from "@/components/users-manager";
+import { LOGIN_ATTEMPT_WINDOW_MINUTES } from "@/lib/auth/login-attempts";
+import { getPermissions } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+import { createClient } from "@/lib/supabase/server";
+
+export default async function UsersPage() {
+  const supabase = await createClient();
+  const {
+    data: claimsData,
+    error: claimsError
+  } = await supabase.auth.getClaims();
+  const isAuthenticated = Boolean(!claimsError && claimsData?.claims);
+
+  if (!isAuthenticated) {
+    redirect("/login");
+  }
+
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+  const userEmail = user?.email ?? null;
+  const profile = await getProfileForAuthUser(supabase, user?.id);
+  const permissions = getPermissions(userEmail, profile.role);
+
+  if (!permissions.includes("users:manage")) {
+    redirect("/access-denied");
+  }
+
+  const [users, loginAttempts] = await Promise.all([listUsers(), listLoginAttempts()]);
+
+  return (
+    <main className="console-shell">
+      <section className="console">
+        <ConsoleHeader
+          activeTab="users"
+          userEmail={userEmail}
+          permissions={permissions}
+        />
+        <UsersManager initialUsers={users} currentUserId={user?.id ?? null} />
+        <LoginAttemptsPanel
+          overview={loginAttempts}
+          windowMinutes={LOGIN_ATTEMPT_WINDOW_MINUTES}
+        />
+      </section>
+    </main>
+  );
+}
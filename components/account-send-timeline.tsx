@@ -0,0 +1,354 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { listFilenamePatternRules } from "@/app/actions/filename-patterns";
+import { listSendLogsForAccount } from "@/app/actions/send-logs";
+import { formatRecipientKind } from "@/lib/contacts/recipients";
+import type { Contact } from "@/lib/contacts/types";
+import { buildSendEmailFormData, type SendEmailFile } from "@/lib/email/send-request";
+import type { SendLog, SendLogSender } from "@/lib/send-logs/types";
+import { createBillZipReader } from "@/lib/zip/reader";
+
+type AccountSendTimelineProps = {
+  contact: Contact;
+  senders: SendLogSender[];
+  canResend: boolean;
+};
+
+function formatSentAt(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "-";
+  }
+
+  return date.toLocaleString();
+}
+
+// All recipients of one send share a log row each; the bill itself is identified by
+// the ZIP and trade date.
+function getBillKey(log: SendLog): string {
+  return `${log.zip_filename}::${log.trade_date ?? ""}`;
+}
+
+export default function AccountSendTimeline({
+  contact,
+  senders,
+  canResend
+}: AccountSendTimelineProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [logs, setLogs] = useState<SendLog[] | null>(null);
+  const [resendTarget, setResendTarget] = useState<SendLog | null>(null);
+  const [isResending, setIsResending] = useState(false);
+  const [errorText, setErrorText] = useState("");
+  const [successText, setSuccessText] = useState("");
+
+  const senderLabels = new Map(senders.map((sender) => [sender.auth_user_id, sender.label]));
+
+  const loadLogs = useCallback(async () => {
+    setLogs(await listSendLogsForAccount(contact.account_key));
+  }, [contact.account_key]);
+
+  useEffect(() => {
+    void loadLogs();
+  }, [loadLogs]);
+
+  // Every resend is forced past the server's duplicate guard, so it needs a reason.
+  const promptForceReason = (filename: string): string | null => {
+    const recipientCount = contact.recipients.length;
+    const forceReason = window.prompt(
+      `Resend ${filename} to ${contact.email}` +
+        `${recipientCount > 0 ? ` and ${recipientCount} more recipient(s)` : ""}?\n\n` +
+        "Reason for sending this bill again (saved in the send history):"
+    );
+    if (forceReason === null) {
+      return null;
+    }
+
+    if (!forceReason.trim()) {
+      setErrorText("A reason is required to resend a bill.");
+      return null;
+    }
+
+    return forceReason.trim();
+  };
+
+  const postResend = async (
+    log: SendLog,
+    filename: string,
+    pdf:
+      | {
+          pdf: SendEmailFile;
+          attachments: SendEmailFile[];
+          variables: Record<string, string>;
+        }
+      | { pdf_document_id: string; attachment_document_ids: string[] },
+    forceReason: string
+  ) => {
+    const metadata = {
+      zip_filename: log.zip_filename,
+      account_key: contact.account_key,
+      trade_date: log.trade_date,
+      to_email: contact.email,
+      to_name: contact.name,
+      recipients: contact.recipients,
+      filename,
+      zip_document_id: log.zip_document_id,
+      force: true,
+      force_reason: forceReason
+    };
+    const response = await fetch("/api/send-email", {
+      method: "POST",
+      ...("pdf_document_id" in pdf
+        ? {
+            headers: {
+              "Content-Type": "application/json"
+            },
+            body: JSON.stringify({
+              ...metadata,
+              pdf_document_id: pdf.pdf_document_id,
+              attachment_document_ids: pdf.attachment_document_ids
+            })
+          }
+        : {
+            body: buildSendEmailFormData(
+              { ...metadata, variables: pdf.variables },
+              pdf.pdf,
+              pdf.attachments
+            )
+          }),
+      credentials: "same-origin"
+    });
+
+    const payload = (await response.json().catch(() => null)) as
+      | { ok?: boolean; error?: string }
+      | null;
+
+    if (!response.ok || !payload?.ok) {
+      setErrorText(payload?.error ?? "Failed to send email.");
+    } else {
+      setSuccessText(`Resent ${filename || "the archived bill"} to ${contact.email}.`);
+    }
+
+    await loadLogs();
+  };
+
+  // With bill storage on, the exact PDF and extra files that were sent are resent from the
+  // archive.
+  const resendArchived = async (log: SendLog, pdfDocumentId: string) => {
+    const forceReason = promptForceReason("the archived bill");
+    if (!forceReason) {
+      return;
+    }
+
+    setIsResending(true);
+    setResendTarget(log);
+    try {
+      await postResend(
+        log,
+        "",
+        {
+          pdf_document_id: pdfDocumentId,
+          attachment_document_ids: log.attachment_document_ids
+        },
+        forceReason
+      );
+    } catch {
+      setErrorText("Failed to send email.");
+    } finally {
+      setIsResending(false);
+      setResendTarget(null);
+    }
+  };
+
+  const startResend = (log: SendLog) => {
+    setErrorText("");
+    setSuccessText("");
+
+    // Sends archived before extra files were archived too still need the original ZIP.
+    const extraFileCount = Math.max((log.attachment_filenames?.length ?? 0) - 1, 0);
+    if (log.pdf_document_id && log.attachment_document_ids.length === extraFileCount) {
+      void resendArchived(log, log.pdf_document_id);
+      return;
+    }
+
+    setResendTarget(log);
+    fileInputRef.current?.click();
+  };
+
+  const resendFromZip = async (file: File) => {
+    const target = resendTarget;
+    if (!target) {
+      return;
+    }
+
+    if (file.name !== target.zip_filename) {
+      setErrorText(`Choose the original ZIP (${target.zip_filename}); got ${file.name}.`);
+      return;
+    }
+
+    setIsResending(true);
+    // Parsed in the same Web Worker as the upload console, so a large ZIP does not freeze
+    // the page.
+    const zipReader = createBillZipReader();
+    try {
+      const { rows } = await zipReader.parse(file, await listFilenamePatternRules(), () => {});
+      const row = rows.find(
+        (candidate) =>
+          candidate.account_key === contact.account_key &&
+          (target.trade_date === null || candidate.trade_date === target.trade_date)
+      );
+
+      if (!row) {
+        setErrorText(
+          `${file.name} has no bill for ${contact.account_key}${target.trade_date ? ` on ${target.trade_date}` : ""}.`
+        );
+        return;
+      }
+
+      const forceReason = promptForceReason(row.pdf_filename);
+      if (!forceReason) {
+        return;
+      }
+
+      const files = await zipReader.readRow(row);
+      await postResend(
+        target,
+        row.pdf_filename,
+        {
+          pdf: { filename: files.pdf.filename, content: new Blob([files.pdf.content]) },
+          attachments: files.attachments.map((attachment) => ({
+            filename: attachment.filename,
+            content: new Blob([attachment.content])
+          })),
+          variables: row.variables
+        },
+        forceReason
+      );
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "Failed to read ZIP file.");
+    } finally {
+      zipReader.dispose();
+      setIsResending(false);
+      setResendTarget(null);
+    }
+  };
+
+  const billsWithResend = new Set<string>();
+
+  return (
+    <div className="account-timeline">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="zip-input"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) {
+            void resendFromZip(file);
+          }
+        }}
+      />
+
+      <p className="section-note">
+        Send history for {contact.account_key}. Archived bills are resent as stored; otherwise
+        choose the original ZIP when prompted.
+      </p>
+
+      {errorText ? (
+        <div className="message message-error" role="alert">
+          {errorText}
+        </div>
+      ) : null}
+
+      {successText ? (
+        <div className="message message-success" role="status">
+          {successText}
+        </div>
+      ) : null}
+
+      {logs === null ? (
+        <p className="section-note">Loading...</p>
+      ) : logs.length === 0 ? (
+        <p className="section-note">No emails have been sent for this account yet.</p>
+      ) : (
+        <table className="contacts-table">
+          <thead>
+            <tr>
+              <th>Sent at</th>
+              <th>Trade date</th>
+              <th>Recipient</th>
+              <th>Status</th>
+              <th>Message id</th>
+              <th>Sent by</th>
+              <th>Bill</th>
+            </tr>
+          </thead>
+          <tbody>
+            {logs.map((log) => {
+              const billKey = getBillKey(log);
+              const showResend = canResend && !billsWithResend.has(billKey);
+              billsWithResend.add(billKey);
+
+              return (
+                <tr key={log.id}>
+                  <td>{formatSentAt(log.sent_at)}</td>
+                  <td>{log.trade_date ?? "-"}</td>
+                  <td>
+                    {log.to_email}
+                    <span className="email-muted recipient-line">
+                      {formatRecipientKind(log.recipient_type)}
+                    </span>
+                  </td>
+                  <td>
+                    <div className="status-cell">
+                      <span className={`status-pill status-${log.status}`}>
+                        {log.status === "sent" ? "Sent" : "Failed"}
+                      </span>
+                      {log.error ? <span className="email-muted">{log.error}</span> : null}
+                      {log.forced_reason ? (
+                        <span className="email-muted">Resent: {log.forced_reason}</span>
+                      ) : null}
+                    </div>
+                  </td>
+                  <td className="email-muted">{log.message_id ?? "-"}</td>
+                  <td>{senderLabels.get(log.sent_by_auth_user_id) ?? "-"}</td>
+                  <td>
+                    {log.zip_filename}
+                    {log.attachment_filenames?.length ? (
+                      <span className="email-muted recipient-line">
+                        {log.attachment_filenames.join(", ")}
+                      </span>
+                    ) : null}
+                    {log.pdf_document_id ? (
+                      <a
+                        className="email-muted recipient-line"
+                        href={`/api/bill-archive/documents/${log.pdf_document_id}`}
+                        title={log.pdf_sha256 ?? undefined}
+                      >
+                        Archived PDF
+                      </a>
+                    ) : null}
+                    {showResend ? (
+                      <div>
+                        <button
+                          type="button"
+                          className="button button-secondary button-sm"
+                          onClick={() => startResend(log)}
+                          disabled={isResending}
+                        >
+                          {isResending && resendTarget?.id === log.id ? "Resending..." : "Resend"}
+                        </button>
+                      </div>
+                    ) : null}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
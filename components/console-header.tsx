@@ -1,14 +1,40 @@
 import Link from "next/link";
 import { signOutAction } from "@/app/actions/auth";
+import { getRoutePermission, type AppPermission } from "@/lib/auth/permissions";
+
+type ConsoleTab =
+  | "upload"
+  | "contacts"
+  | "templates"
+  | "filename-patterns"
+  | "history"
+  | "users";
 
 type ConsoleHeaderProps = {
-  activeTab: "upload" | "contacts";
+  activeTab: ConsoleTab;
   userEmail: string | null;
+  permissions: AppPermission[];
 };
 
+const CONSOLE_TABS: { id: ConsoleTab; href: string; label: string }[] = [
+  { id: "upload", href: "/", label: "Upload & Send" },
+  { id: "contacts", href: "/contacts", label: "Contacts" },
+  { id: "templates", href: "/templates", label: "Templates" },
+  { id: "filename-patterns", href: "/filename-patterns", label: "Filename rules" },
+  { id: "history", href: "/history", label: "History" },
+  { id: "users", href: "/users", label: "Users" }
+];
+
+// Tabs are only shown to roles that can open the page behind them.
+function canOpenTab(href: string, permissions: AppPermission[]): boolean {
+  const permission = getRoutePermission(href);
+  return permission !== null && permissions.includes(permission);
+}
+
 export default function ConsoleHeader({
   activeTab,
-  userEmail
+  userEmail,
+  permissions
 }: ConsoleHeaderProps) {
   return (
     <>
@@ -20,27 +46,29 @@ export default function ConsoleHeader({
 
         <div style={{ display: "grid", gap: 10, justifyItems: "end" }}>
           <span className="user-chip">{userEmail ?? "Unknown email"}</span>
-          <form action={signOutAction}>
-            <button type="submit" className="button button-secondary">
-              Sign out
-            </button>
-          </form>
+          <div style={{ display: "flex", gap: 8 }}>
+            <Link href="/mfa" className="button button-secondary">
+              Security
+            </Link>
+            <form action={signOutAction}>
+              <button type="submit" className="button button-secondary">
+                Sign out
+              </button>
+            </form>
+          </div>
         </div>
       </header>
 
       <nav className="tab-row" aria-label="Primary">
-        <Link
-          href="/"
-          className={`tab ${activeTab === "upload" ? "tab-active" : ""}`}
-        >
-          Upload &amp; Send
-        </Link>
-        <Link
-          href="/contacts"
-          className={`tab ${activeTab === "contacts" ? "tab-active" : ""}`}
-        >
-          Contacts
-        </Link>
+        {CONSOLE_TABS.filter((tab) => canOpenTab(tab.href, permissions)).map((tab) => (
+          <Link
+            key={tab.id}
+            href={tab.href}
+            className={`tab ${activeTab === tab.id ? "tab-active" : ""}`}
+          >
+            {tab.label}
+          </Link>
+        ))}
       </nav>
     </>
   );
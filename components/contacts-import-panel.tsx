@@ -0,0 +1,255 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { applyContactImport, previewContactImport } from "@/app/actions/contacts";
+import { toContactImportRows } from "@/lib/contacts/import";
+import type {
+  ContactImportAction,
+  ContactImportChange,
+  ContactImportRow,
+  ContactImportSummary
+} from "@/lib/contacts/types";
+import { parseCsv } from "@/lib/spreadsheet/csv";
+import { readXlsxRows } from "@/lib/spreadsheet/xlsx";
+
+type ContactsImportPanelProps = {
+  onClose: () => void;
+};
+
+type ImportPreview = {
+  filename: string;
+  rows: ContactImportRow[];
+  changes: ContactImportChange[];
+  summary: ContactImportSummary;
+};
+
+const ACTION_LABELS: Record<ContactImportAction, string> = {
+  create: "Create",
+  update: "Update",
+  unchanged: "Unchanged",
+  conflict: "Conflict",
+  invalid: "Invalid"
+};
+
+const ACTION_PILL_CLASSES: Record<ContactImportAction, string> = {
+  create: "sent",
+  update: "pending",
+  unchanged: "blocked",
+  conflict: "failed",
+  invalid: "failed"
+};
+
+async function readImportTable(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsxRows(await file.arrayBuffer());
+  }
+
+  if (/\.csv$/i.test(file.name) || file.type === "text/csv") {
+    return parseCsv(await file.text());
+  }
+
+  throw new Error("Choose a .csv or .xlsx file.");
+}
+
+export default function ContactsImportPanel({ onClose }: ContactsImportPanelProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [errorText, setErrorText] = useState("");
+  const [successText, setSuccessText] = useState("");
+
+  const handleFileChange = (file: File | null) => {
+    setErrorText("");
+    setSuccessText("");
+    setPreview(null);
+
+    if (!file) {
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const sheet = toContactImportRows(await readImportTable(file));
+        if (!sheet.ok) {
+          setErrorText(sheet.error);
+          return;
+        }
+
+        const result = await previewContactImport(sheet.rows);
+        if (!result.ok) {
+          setErrorText(result.error);
+          return;
+        }
+
+        setPreview({
+          filename: file.name,
+          rows: sheet.rows,
+          changes: result.changes,
+          summary: result.summary
+        });
+      } catch (error) {
+        setErrorText(error instanceof Error ? error.message : "Could not read the file.");
+      }
+    });
+  };
+
+  const handleApply = () => {
+    if (!preview) {
+      return;
+    }
+
+    setErrorText("");
+    startTransition(async () => {
+      const result = await applyContactImport(preview.rows);
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      setPreview(null);
+      setSuccessText(
+        `Imported ${preview.filename}: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped.`
+      );
+      router.refresh();
+    });
+  };
+
+  const visibleChanges = (preview?.changes ?? []).filter(
+    (change) => showUnchanged || change.action !== "unchanged"
+  );
+  const writeCount = preview ? preview.summary.create + preview.summary.update : 0;
+
+  return (
+    <div className="contact-form-panel">
+      <div className="import-top-row">
+        <label className="field-label">
+          CSV or Excel file with columns account_key, name, email, to, cc, bcc
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv"
+            className="text-input"
+            onChange={(event) => {
+              handleFileChange(event.target.files?.[0] ?? null);
+              event.target.value = "";
+            }}
+            disabled={isPending}
+          />
+        </label>
+        <p className="section-note">
+          Separate several to/cc/bcc addresses with semicolons; use &quot;Name
+          &lt;email&gt;&quot; to set a display name. Leaving out the to/cc/bcc columns keeps
+          existing recipients.
+        </p>
+      </div>
+
+      {preview ? (
+        <>
+          <div className="summary-strip import-summary">
+            <span className="summary-file">{preview.filename}</span>
+            <div className="summary-counts">
+              {(Object.keys(ACTION_LABELS) as ContactImportAction[]).map((action) => (
+                <span
+                  key={action}
+                  className={`count-pill count-pill-${ACTION_PILL_CLASSES[action]}`}
+                >
+                  {ACTION_LABELS[action]} {preview.summary[action]}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <label className="import-toggle">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(event) => setShowUnchanged(event.target.checked)}
+            />
+            Show unchanged rows
+          </label>
+
+          {visibleChanges.length === 0 ? (
+            <p className="section-note">Every row matches the stored contacts.</p>
+          ) : (
+            <div className="contacts-table-wrap">
+              <table className="contacts-table">
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>Account Key</th>
+                    <th>Result</th>
+                    <th>Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleChanges.map((change) => (
+                    <tr key={change.row_number}>
+                      <td>{change.row_number}</td>
+                      <td>{change.account_key || "-"}</td>
+                      <td>
+                        <span
+                          className={`status-pill status-${ACTION_PILL_CLASSES[change.action]}`}
+                        >
+                          {ACTION_LABELS[change.action]}
+                        </span>
+                      </td>
+                      <td>
+                        {change.details.length === 0
+                          ? "-"
+                          : change.details.map((detail) => (
+                              <span className="recipient-line" key={detail}>
+                                {detail}
+                              </span>
+                            ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      ) : null}
+
+      <div className="contact-form-actions">
+        {preview ? (
+          <button
+            type="button"
+            className="button button-primary"
+            onClick={handleApply}
+            disabled={isPending || writeCount === 0}
+          >
+            {isPending
+              ? "Importing..."
+              : `Import ${preview.summary.create} new, ${preview.summary.update} updated`}
+          </button>
+        ) : null}
+        <button
+          type="button"
+          className="button button-secondary"
+          onClick={onClose}
+          disabled={isPending}
+        >
+          Close
+        </button>
+      </div>
+
+      {preview && preview.summary.conflict + preview.summary.invalid > 0 ? (
+        <p className="section-note">Conflicting and invalid rows are skipped on import.</p>
+      ) : null}
+
+      {errorText ? (
+        <div className="message message-error" role="alert">
+          {errorText}
+        </div>
+      ) : null}
+
+      {successText ? (
+        <div className="message message-success" role="status">
+          {successText}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,32 +1,78 @@
 "use client";
 
-import { useMemo, useState, useTransition } from "react";
+import { Fragment, useMemo, useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import {
   createContact,
   deleteContact,
+  listContacts,
+  revealPdfPassword,
   updateContact
 } from "@/app/actions/contacts";
-import type { Contact } from "@/lib/contacts/types";
+import AccountSendTimeline from "@/components/account-send-timeline";
+import ContactsImportPanel from "@/components/contacts-import-panel";
+import { contactsToSheetRows } from "@/lib/contacts/import";
+import {
+  formatPdfPasswordMode,
+  isPdfPasswordMode,
+  PDF_PASSWORD_MODES
+} from "@/lib/contacts/pdf-password";
+import { formatRecipientKind, RECIPIENT_KINDS } from "@/lib/contacts/recipients";
+import type { Contact, PdfPasswordMode, RecipientKind } from "@/lib/contacts/types";
+import type { SendLogSender } from "@/lib/send-logs/types";
+import { formatCsv } from "@/lib/spreadsheet/csv";
+import { buildXlsx } from "@/lib/spreadsheet/xlsx";
 
 type ContactsManagerProps = {
   initialContacts: Contact[];
+  senders: SendLogSender[];
+  canEdit: boolean;
+  canRevealPdfPasswords: boolean;
+  canResend: boolean;
 };
 
 type FormMode = "add" | "edit";
 
+type ExportFormat = "csv" | "xlsx";
+
+type RecipientFormState = {
+  kind: RecipientKind;
+  email: string;
+  name: string;
+};
+
 type FormState = {
   account_key: string;
   name: string;
   email: string;
+  recipients: RecipientFormState[];
+  pdf_password_mode: PdfPasswordMode;
+  pdf_password_hint: string;
+  // Left blank on edit to keep the stored password.
+  pdf_password: string;
+  has_stored_pdf_password: boolean;
 };
 
 const EMPTY_FORM: FormState = {
   account_key: "",
   name: "",
-  email: ""
+  email: "",
+  recipients: [],
+  pdf_password_mode: "none",
+  pdf_password_hint: "",
+  pdf_password: "",
+  has_stored_pdf_password: false
 };
 
+function downloadBlob(blob: Blob, filename: string) {
+  const blobUrl = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = blobUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(blobUrl);
+}
+
 function formatUpdatedAt(value: string): string {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) {
@@ -36,14 +82,26 @@ function formatUpdatedAt(value: string): string {
   return date.toLocaleString();
 }
 
-export default function ContactsManager({ initialContacts }: ContactsManagerProps) {
+export default function ContactsManager({
+  initialContacts,
+  senders,
+  canEdit,
+  canRevealPdfPasswords,
+  canResend
+}: ContactsManagerProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [searchTerm, setSearchTerm] = useState("");
   const [formOpen, setFormOpen] = useState(false);
   const [formMode, setFormMode] = useState<FormMode>("add");
   const [formState, setFormState] = useState<FormState>(EMPTY_FORM);
+  const [importOpen, setImportOpen] = useState(false);
+  const [timelineAccountKey, setTimelineAccountKey] = useState<string | null>(null);
   const [errorText, setErrorText] = useState("");
+  const [revealedPdfPassword, setRevealedPdfPassword] = useState<{
+    account_key: string;
+    password: string;
+  } | null>(null);
 
   const filteredContacts = useMemo(() => {
     const normalizedSearch = searchTerm.trim().toLowerCase();
@@ -55,7 +113,10 @@ export default function ContactsManager({ initialContacts }: ContactsManagerProp
       return (
         contact.account_key.toLowerCase().includes(normalizedSearch) ||
         (contact.name ?? "").toLowerCase().includes(normalizedSearch) ||
-        contact.email.toLowerCase().includes(normalizedSearch)
+        contact.email.toLowerCase().includes(normalizedSearch) ||
+        contact.recipients.some((recipient) =>
+          recipient.email.includes(normalizedSearch)
+        )
       );
     });
   }, [initialContacts, searchTerm]);
@@ -72,31 +133,107 @@ export default function ContactsManager({ initialContacts }: ContactsManagerProp
     setFormState({
       account_key: contact.account_key,
       name: contact.name ?? "",
-      email: contact.email
+      email: contact.email,
+      recipients: contact.recipients.map((recipient) => ({
+        kind: recipient.kind,
+        email: recipient.email,
+        name: recipient.name ?? ""
+      })),
+      pdf_password_mode: contact.pdf_password_mode,
+      pdf_password_hint: contact.pdf_password_hint ?? "",
+      pdf_password: "",
+      has_stored_pdf_password: Boolean(contact.pdf_password_updated_at)
     });
     setErrorText("");
     setFormOpen(true);
   };
 
+  const updateRecipient = (index: number, patch: Partial<RecipientFormState>) => {
+    setFormState((current) => ({
+      ...current,
+      recipients: current.recipients.map((recipient, recipientIndex) =>
+        recipientIndex === index ? { ...recipient, ...patch } : recipient
+      )
+    }));
+  };
+
+  const addRecipient = () => {
+    setFormState((current) => ({
+      ...current,
+      recipients: [...current.recipients, { kind: "cc", email: "", name: "" }]
+    }));
+  };
+
+  const removeRecipient = (index: number) => {
+    setFormState((current) => ({
+      ...current,
+      recipients: current.recipients.filter((_, recipientIndex) => recipientIndex !== index)
+    }));
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    setErrorText("");
+
+    startTransition(async () => {
+      try {
+        // Export everything, not just the rows matching the current search.
+        const rows = contactsToSheetRows(await listContacts());
+        const filename = `contacts-${new Date().toISOString().slice(0, 10)}.${format}`;
+        const blob =
+          format === "csv"
+            ? new Blob(["\uFEFF", formatCsv(rows)], { type: "text/csv;charset=utf-8" })
+            : await buildXlsx(rows, "Contacts");
+
+        downloadBlob(blob, filename);
+      } catch (error) {
+        setErrorText(error instanceof Error ? error.message : "Could not export contacts.");
+      }
+    });
+  };
+
   const closeForm = () => {
     setFormOpen(false);
     setErrorText("");
   };
 
+  const handleRevealPdfPassword = (accountKey: string) => {
+    setErrorText("");
+
+    startTransition(async () => {
+      const result = await revealPdfPassword(accountKey);
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      setRevealedPdfPassword({ account_key: accountKey, password: result.password ?? "" });
+    });
+  };
+
   const handleSubmit = () => {
     setErrorText("");
 
+    const pdfProtection = {
+      mode: formState.pdf_password_mode,
+      hint: formState.pdf_password_hint,
+      password: formState.pdf_password.trim() || undefined
+    };
+
     startTransition(async () => {
       const result =
         formMode === "add"
           ? await createContact({
               account_key: formState.account_key,
               name: formState.name,
-              email: formState.email
+              email: formState.email,
+              recipients: formState.recipients,
+              pdf_protection: pdfProtection
             })
           : await updateContact(formState.account_key, {
               name: formState.name,
-              email: formState.email
+              email: formState.email,
+              recipients: formState.recipients,
+              pdf_protection: pdfProtection
             });
 
       if (!result.ok) {
@@ -135,19 +272,51 @@ export default function ContactsManager({ initialContacts }: ContactsManagerProp
       <div className="contacts-top-row">
         <div>
           <h2>Contacts</h2>
-          <p className="subtitle">Manage account_key to email mappings</p>
+          <p className="subtitle">Manage account_key to email mappings (To, CC and BCC)</p>
         </div>
 
-        <button
-          type="button"
-          className="button button-primary"
-          onClick={openAddForm}
-          disabled={isPending}
-        >
-          Add Contact
-        </button>
+        <div className="row-actions">
+          {canEdit ? (
+            <button
+              type="button"
+              className="button button-secondary"
+              onClick={() => setImportOpen(true)}
+              disabled={isPending || importOpen}
+            >
+              Import
+            </button>
+          ) : null}
+          <button
+            type="button"
+            className="button button-secondary"
+            onClick={() => handleExport("csv")}
+            disabled={isPending}
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            className="button button-secondary"
+            onClick={() => handleExport("xlsx")}
+            disabled={isPending}
+          >
+            Export Excel
+          </button>
+          {canEdit ? (
+            <button
+              type="button"
+              className="button button-primary"
+              onClick={openAddForm}
+              disabled={isPending}
+            >
+              Add Contact
+            </button>
+          ) : null}
+        </div>
       </div>
 
+      {importOpen ? <ContactsImportPanel onClose={() => setImportOpen(false)} /> : null}
+
       <div className="contacts-search">
         <input
           type="text"
@@ -198,7 +367,7 @@ export default function ContactsManager({ initialContacts }: ContactsManagerProp
             </label>
 
             <label className="field-label">
-              Email
+              Primary email (To)
               <input
                 type="email"
                 value={formState.email}
@@ -216,6 +385,128 @@ export default function ContactsManager({ initialContacts }: ContactsManagerProp
             </label>
           </div>
 
+          <div className="recipient-editor">
+            {formState.recipients.map((recipient, index) => (
+              <div className="recipient-row" key={index}>
+                <select
+                  value={recipient.kind}
+                  onChange={(event) =>
+                    updateRecipient(index, { kind: event.target.value as RecipientKind })
+                  }
+                  className="text-input"
+                  aria-label="Recipient type"
+                  disabled={isPending}
+                >
+                  {RECIPIENT_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {formatRecipientKind(kind)}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="email"
+                  value={recipient.email}
+                  onChange={(event) => updateRecipient(index, { email: event.target.value })}
+                  className="text-input"
+                  placeholder="accountant@example.com"
+                  aria-label="Recipient email"
+                  disabled={isPending}
+                />
+                <input
+                  type="text"
+                  value={recipient.name}
+                  onChange={(event) => updateRecipient(index, { name: event.target.value })}
+                  className="text-input"
+                  placeholder="Name (optional)"
+                  aria-label="Recipient name"
+                  disabled={isPending}
+                />
+                <button
+                  type="button"
+                  className="button button-secondary button-sm"
+                  onClick={() => removeRecipient(index)}
+                  disabled={isPending}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div>
+              <button
+                type="button"
+                className="button button-secondary button-sm"
+                onClick={addRecipient}
+                disabled={isPending}
+              >
+                Add recipient
+              </button>
+            </div>
+          </div>
+
+          <div className="contact-form-grid">
+            <label className="field-label">
+              PDF password
+              <select
+                value={formState.pdf_password_mode}
+                onChange={(event) => {
+                  const mode = event.target.value;
+                  if (isPdfPasswordMode(mode)) {
+                    setFormState((current) => ({ ...current, pdf_password_mode: mode }));
+                  }
+                }}
+                className="text-input"
+                disabled={isPending}
+              >
+                {PDF_PASSWORD_MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {formatPdfPasswordMode(mode)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {formState.pdf_password_mode === "stored" ? (
+              <label className="field-label">
+                Password
+                <input
+                  type="password"
+                  value={formState.pdf_password}
+                  onChange={(event) =>
+                    setFormState((current) => ({
+                      ...current,
+                      pdf_password: event.target.value
+                    }))
+                  }
+                  className="text-input"
+                  placeholder={
+                    formState.has_stored_pdf_password ? "Leave blank to keep" : "Required"
+                  }
+                  autoComplete="new-password"
+                  disabled={isPending}
+                />
+              </label>
+            ) : null}
+
+            {formState.pdf_password_mode !== "none" ? (
+              <label className="field-label">
+                Password rule for the email ({"{{pdf_password_hint}}"})
+                <input
+                  type="text"
+                  value={formState.pdf_password_hint}
+                  onChange={(event) =>
+                    setFormState((current) => ({
+                      ...current,
+                      pdf_password_hint: event.target.value
+                    }))
+                  }
+                  className="text-input"
+                  placeholder="Optional; a generic line is used when empty"
+                  disabled={isPending}
+                />
+              </label>
+            ) : null}
+          </div>
+
           <div className="contact-form-actions">
             <button
               type="button"
@@ -256,14 +547,16 @@ export default function ContactsManager({ initialContacts }: ContactsManagerProp
       {initialContacts.length === 0 ? (
         <div className="empty-state">
           <p>No contacts yet.</p>
-          <button
-            type="button"
-            className="button button-primary"
-            onClick={openAddForm}
-            disabled={isPending}
-          >
-            Add Contact
-          </button>
+          {canEdit ? (
+            <button
+              type="button"
+              className="button button-primary"
+              onClick={openAddForm}
+              disabled={isPending}
+            >
+              Add Contact
+            </button>
+          ) : null}
         </div>
       ) : filteredContacts.length === 0 ? (
         <div className="empty-state">
@@ -277,38 +570,95 @@ export default function ContactsManager({ initialContacts }: ContactsManagerProp
                 <th>Account Key</th>
                 <th>Name</th>
                 <th>Email</th>
+                <th>Other recipients</th>
+                <th>PDF password</th>
                 <th>Updated</th>
                 <th>Actions</th>
               </tr>
             </thead>
             <tbody>
               {filteredContacts.map((contact) => (
-                <tr key={contact.account_key}>
-                  <td>{contact.account_key}</td>
-                  <td>{contact.name ?? "-"}</td>
-                  <td>{contact.email}</td>
-                  <td>{formatUpdatedAt(contact.updated_at)}</td>
-                  <td>
-                    <div className="row-actions">
-                      <button
-                        type="button"
-                        className="button button-secondary button-sm"
-                        onClick={() => openEditForm(contact)}
-                        disabled={isPending}
-                      >
-                        Edit
-                      </button>
-                      <button
-                        type="button"
-                        className="button button-danger button-sm"
-                        onClick={() => handleDelete(contact)}
-                        disabled={isPending}
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </td>
-                </tr>
+                <Fragment key={contact.account_key}>
+                  <tr>
+                    <td>{contact.account_key}</td>
+                    <td>{contact.name ?? "-"}</td>
+                    <td>{contact.email}</td>
+                    <td>
+                      {contact.recipients.length === 0
+                        ? "-"
+                        : contact.recipients.map((recipient) => (
+                            <span className="email-muted recipient-line" key={recipient.email}>
+                              {formatRecipientKind(recipient.kind)}: {recipient.email}
+                            </span>
+                          ))}
+                    </td>
+                    <td>{formatPdfPasswordMode(contact.pdf_password_mode)}</td>
+                    <td>{formatUpdatedAt(contact.updated_at)}</td>
+                    <td>
+                      <div className="row-actions">
+                        {canEdit ? (
+                          <button
+                            type="button"
+                            className="button button-secondary button-sm"
+                            onClick={() => openEditForm(contact)}
+                            disabled={isPending}
+                          >
+                            Edit
+                          </button>
+                        ) : null}
+                        <button
+                          type="button"
+                          className="button button-secondary button-sm"
+                          onClick={() =>
+                            setTimelineAccountKey((current) =>
+                              current === contact.account_key ? null : contact.account_key
+                            )
+                          }
+                        >
+                          {timelineAccountKey === contact.account_key ? "Hide history" : "History"}
+                        </button>
+                        {canRevealPdfPasswords &&
+                        (contact.pdf_password_mode === "derived" ||
+                          (contact.pdf_password_mode === "stored" &&
+                            contact.pdf_password_updated_at)) ? (
+                          revealedPdfPassword?.account_key === contact.account_key ? (
+                            <code>{revealedPdfPassword.password || "-"}</code>
+                          ) : (
+                            <button
+                              type="button"
+                              className="button button-secondary button-sm"
+                              onClick={() => handleRevealPdfPassword(contact.account_key)}
+                              disabled={isPending}
+                            >
+                              Show PDF password
+                            </button>
+                          )
+                        ) : null}
+                        {canEdit ? (
+                          <button
+                            type="button"
+                            className="button button-danger button-sm"
+                            onClick={() => handleDelete(contact)}
+                            disabled={isPending}
+                          >
+                            Delete
+                          </button>
+                        ) : null}
+                      </div>
+                    </td>
+                  </tr>
+                  {timelineAccountKey === contact.account_key ? (
+                    <tr>
+                      <td colSpan={7}>
+                        <AccountSendTimeline
+                          contact={contact}
+                          senders={senders}
+                          canResend={canResend}
+                        />
+                      </td>
+                    </tr>
+                  ) : null}
+                </Fragment>
               ))}
             </tbody>
           </table>
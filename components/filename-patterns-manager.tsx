@@ -0,0 +1,429 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  createFilenamePattern,
+  deleteFilenamePattern,
+  updateFilenamePattern
+} from "@/app/actions/filename-patterns";
+import {
+  compileFilenamePatterns,
+  DEFAULT_FILENAME_PATTERNS,
+  FILENAME_ROW_TYPES,
+  formatFilenameRowType,
+  matchFilename
+} from "@/lib/filename-patterns/match";
+import type {
+  FilenamePattern,
+  FilenamePatternInput,
+  FilenameRowType
+} from "@/lib/filename-patterns/types";
+
+type FilenamePatternsManagerProps = {
+  initialPatterns: FilenamePattern[];
+};
+
+type FormMode = "add" | "edit";
+
+type FormState = {
+  id: string;
+  name: string;
+  pattern: string;
+  row_type: FilenameRowType;
+  position: string;
+  enabled: boolean;
+};
+
+const EMPTY_FORM: FormState = {
+  id: "",
+  name: "",
+  pattern: "",
+  row_type: "bill",
+  position: "",
+  enabled: true
+};
+
+function formatUpdatedAt(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "-";
+  }
+
+  return date.toLocaleString();
+}
+
+function getNextPosition(patterns: FilenamePattern[]): number {
+  return patterns.reduce((max, pattern) => Math.max(max, pattern.position), 0) + 10;
+}
+
+export default function FilenamePatternsManager({
+  initialPatterns
+}: FilenamePatternsManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [formOpen, setFormOpen] = useState(false);
+  const [formMode, setFormMode] = useState<FormMode>("add");
+  const [formState, setFormState] = useState<FormState>(EMPTY_FORM);
+  const [errorText, setErrorText] = useState("");
+  const [testFilename, setTestFilename] = useState("");
+
+  // Same rules the upload console uses: the enabled patterns, or the built-in ones when
+  // nothing is configured yet.
+  const compiled = useMemo(() => {
+    const rules =
+      initialPatterns.length === 0
+        ? DEFAULT_FILENAME_PATTERNS
+        : initialPatterns.filter((pattern) => pattern.enabled);
+    return compileFilenamePatterns(rules);
+  }, [initialPatterns]);
+
+  const testMatch = useMemo(() => {
+    const baseName = testFilename.trim().split("/").pop() ?? "";
+    return baseName ? matchFilename(baseName, compiled.patterns) : null;
+  }, [compiled, testFilename]);
+
+  const openAddForm = () => {
+    setFormMode("add");
+    setFormState({ ...EMPTY_FORM, position: String(getNextPosition(initialPatterns)) });
+    setErrorText("");
+    setFormOpen(true);
+  };
+
+  const openEditForm = (pattern: FilenamePattern) => {
+    setFormMode("edit");
+    setFormState({
+      id: pattern.id,
+      name: pattern.name,
+      pattern: pattern.pattern,
+      row_type: pattern.row_type,
+      position: String(pattern.position),
+      enabled: pattern.enabled
+    });
+    setErrorText("");
+    setFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setErrorText("");
+  };
+
+  const toPayload = (state: FormState | FilenamePattern): FilenamePatternInput => ({
+    name: state.name,
+    pattern: state.pattern,
+    row_type: state.row_type,
+    position: Number(state.position),
+    enabled: state.enabled
+  });
+
+  const handleSubmit = () => {
+    setErrorText("");
+
+    startTransition(async () => {
+      const payload = toPayload(formState);
+      const result =
+        formMode === "add"
+          ? await createFilenamePattern(payload)
+          : await updateFilenamePattern(formState.id, payload);
+
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      setFormOpen(false);
+      setFormState(EMPTY_FORM);
+      router.refresh();
+    });
+  };
+
+  const handleToggleEnabled = (pattern: FilenamePattern) => {
+    setErrorText("");
+    startTransition(async () => {
+      const result = await updateFilenamePattern(pattern.id, {
+        ...toPayload(pattern),
+        enabled: !pattern.enabled
+      });
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  };
+
+  const handleDelete = (pattern: FilenamePattern) => {
+    const confirmed = window.confirm(`Delete this filename pattern?\n\n${pattern.name}`);
+    if (!confirmed) {
+      return;
+    }
+
+    setErrorText("");
+    startTransition(async () => {
+      const result = await deleteFilenamePattern(pattern.id);
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  };
+
+  return (
+    <section className="contacts-panel">
+      <div className="contacts-top-row">
+        <div>
+          <h2>Filename rules</h2>
+          <p className="subtitle">
+            How bills are read from ZIPs without a manifest.json. Patterns are regular expressions
+            matched against each file name in position order; the first match wins. Use{" "}
+            {"(?<account>...)"} and {"(?<trade_date>...)"} to capture the account key and trade
+            date.
+          </p>
+        </div>
+
+        <button
+          type="button"
+          className="button button-primary"
+          onClick={openAddForm}
+          disabled={isPending}
+        >
+          Add Pattern
+        </button>
+      </div>
+
+      <div className="template-preview">
+        <label className="field-label">
+          Test a file name
+          <input
+            type="text"
+            value={testFilename}
+            onChange={(event) => setTestFilename(event.target.value)}
+            className="text-input"
+            placeholder="Bill_PR20_2026-02-20.pdf"
+          />
+        </label>
+        {testFilename.trim() ? (
+          testMatch ? (
+            <p>
+              <strong>{testMatch.rule.name}</strong> ({formatFilenameRowType(testMatch.row_type)}):
+              account {testMatch.account_key}, trade date {testMatch.trade_date ?? "-"}
+            </p>
+          ) : (
+            <p>No pattern matches; this file is ignored.</p>
+          )
+        ) : null}
+        {compiled.errors.map((error) => (
+          <p key={error} className="send-error-inline">
+            {error}
+          </p>
+        ))}
+      </div>
+
+      {formOpen ? (
+        <div className="contact-form-panel">
+          <div className="contact-form-grid">
+            <label className="field-label">
+              Name
+              <input
+                type="text"
+                value={formState.name}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    name: event.target.value
+                  }))
+                }
+                className="text-input"
+                placeholder="Back-office statement"
+                disabled={isPending}
+                required
+              />
+            </label>
+
+            <label className="field-label">
+              Pattern
+              <input
+                type="text"
+                value={formState.pattern}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    pattern: event.target.value
+                  }))
+                }
+                className="text-input"
+                placeholder="^Statement-(?<account>\w+)-(?<trade_date>[\d-]+)\.pdf$"
+                disabled={isPending}
+                required
+              />
+            </label>
+
+            <label className="field-label">
+              Row type
+              <select
+                value={formState.row_type}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    row_type: event.target.value as FilenameRowType
+                  }))
+                }
+                className="text-input"
+                disabled={isPending}
+              >
+                {FILENAME_ROW_TYPES.map((rowType) => (
+                  <option key={rowType} value={rowType}>
+                    {formatFilenameRowType(rowType)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="field-label">
+              Position
+              <input
+                type="number"
+                value={formState.position}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    position: event.target.value
+                  }))
+                }
+                className="text-input"
+                disabled={isPending}
+              />
+            </label>
+          </div>
+
+          <label className="pending-toggle">
+            <input
+              type="checkbox"
+              checked={formState.enabled}
+              onChange={(event) =>
+                setFormState((current) => ({
+                  ...current,
+                  enabled: event.target.checked
+                }))
+              }
+              disabled={isPending}
+            />
+            <span>Enabled</span>
+          </label>
+
+          <div className="contact-form-actions">
+            <button
+              type="button"
+              className="button button-primary"
+              onClick={handleSubmit}
+              disabled={isPending}
+            >
+              {isPending
+                ? "Saving..."
+                : formMode === "add"
+                  ? "Create Pattern"
+                  : "Save Changes"}
+            </button>
+            <button
+              type="button"
+              className="button button-secondary"
+              onClick={closeForm}
+              disabled={isPending}
+            >
+              Cancel
+            </button>
+          </div>
+
+          {errorText ? (
+            <div className="message message-error" role="alert">
+              {errorText}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {errorText && !formOpen ? (
+        <div className="message message-error" role="alert">
+          {errorText}
+        </div>
+      ) : null}
+
+      {initialPatterns.length === 0 ? (
+        <div className="empty-state">
+          <p>No filename patterns yet. The built-in Bill_/Summary_Admin rules are used.</p>
+          <button
+            type="button"
+            className="button button-primary"
+            onClick={openAddForm}
+            disabled={isPending}
+          >
+            Add Pattern
+          </button>
+        </div>
+      ) : (
+        <div className="contacts-table-wrap">
+          <table className="contacts-table">
+            <thead>
+              <tr>
+                <th>Position</th>
+                <th>Name</th>
+                <th>Pattern</th>
+                <th>Row type</th>
+                <th>Updated</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {initialPatterns.map((pattern) => (
+                <tr key={pattern.id}>
+                  <td>{pattern.position}</td>
+                  <td>
+                    {pattern.name}
+                    {pattern.enabled ? null : <span className="tag-muted">Disabled</span>}
+                  </td>
+                  <td>
+                    <code>{pattern.pattern}</code>
+                  </td>
+                  <td>{formatFilenameRowType(pattern.row_type)}</td>
+                  <td>{formatUpdatedAt(pattern.updated_at)}</td>
+                  <td>
+                    <div className="row-actions">
+                      <button
+                        type="button"
+                        className="button button-secondary button-sm"
+                        onClick={() => openEditForm(pattern)}
+                        disabled={isPending}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="button button-secondary button-sm"
+                        onClick={() => handleToggleEnabled(pattern)}
+                        disabled={isPending}
+                      >
+                        {pattern.enabled ? "Disable" : "Enable"}
+                      </button>
+                      <button
+                        type="button"
+                        className="button button-danger button-sm"
+                        onClick={() => handleDelete(pattern)}
+                        disabled={isPending}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { unlockLogin } from "@/app/actions/users";
+import type {
+  LoginAttemptOutcome,
+  LoginAttemptsOverview,
+  LoginLockKind
+} from "@/lib/users/types";
+
+type LoginAttemptsPanelProps = {
+  overview: LoginAttemptsOverview;
+  windowMinutes: number;
+};
+
+function formatOutcome(outcome: LoginAttemptOutcome): string {
+  switch (outcome) {
+    case "success":
+      return "Signed in";
+    case "failure":
+      return "Failed";
+    case "locked":
+      return "Refused (locked)";
+  }
+}
+
+export default function LoginAttemptsPanel({
+  overview,
+  windowMinutes
+}: LoginAttemptsPanelProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [errorText, setErrorText] = useState("");
+  const [successText, setSuccessText] = useState("");
+
+  const handleUnlock = (kind: LoginLockKind, key: string) => {
+    setErrorText("");
+    setSuccessText("");
+    startTransition(async () => {
+      const result = await unlockLogin(kind, key);
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      setSuccessText(`${key} can sign in again.`);
+      router.refresh();
+    });
+  };
+
+  return (
+    <section className="contacts-panel">
+      <div className="contacts-top-row">
+        <div>
+          <h2>Sign-in attempts</h2>
+          <p className="subtitle">
+            Sign-ins by User ID. Repeated failures slow further attempts down and lock the User ID
+            or address for up to {windowMinutes} minutes.
+          </p>
+        </div>
+      </div>
+
+      {errorText ? (
+        <div className="message message-error" role="alert">
+          {errorText}
+        </div>
+      ) : null}
+
+      {successText ? (
+        <div className="message message-success" role="status">
+          {successText}
+        </div>
+      ) : null}
+
+      {overview.locked.length > 0 ? (
+        <div className="contacts-table-wrap">
+          <table className="contacts-table">
+            <thead>
+              <tr>
+                <th>Locked</th>
+                <th>Failed attempts</th>
+                <th>Last failure</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {overview.locked.map((locked) => (
+                <tr key={`${locked.kind}:${locked.key}`}>
+                  <td>
+                    {locked.key}
+                    <span className="tag-muted">
+                      {locked.kind === "user_id" ? "User ID" : "IP address"}
+                    </span>
+                  </td>
+                  <td>{locked.failure_count}</td>
+                  <td>{new Date(locked.last_failed_at).toLocaleString()}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className="button button-secondary button-sm"
+                      onClick={() => handleUnlock(locked.kind, locked.key)}
+                      disabled={isPending}
+                    >
+                      Unlock
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="section-note">No User ID or IP address is locked right now.</p>
+      )}
+
+      {overview.recent.length === 0 ? (
+        <div className="empty-state">
+          <p>No sign-in attempts recorded.</p>
+        </div>
+      ) : (
+        <div className="contacts-table-wrap">
+          <table className="contacts-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>User ID</th>
+                <th>Result</th>
+                <th>IP address</th>
+              </tr>
+            </thead>
+            <tbody>
+              {overview.recent.map((attempt) => (
+                <tr key={attempt.id}>
+                  <td>{new Date(attempt.created_at).toLocaleString()}</td>
+                  <td>
+                    {attempt.user_id}
+                    {attempt.outcome === "failure" && !attempt.auth_user_id ? (
+                      <span className="tag-muted">No such user</span>
+                    ) : null}
+                  </td>
+                  <td>
+                    {formatOutcome(attempt.outcome)}
+                    {attempt.cleared_at ? <span className="tag-muted">Cleared</span> : null}
+                  </td>
+                  <td>{attempt.ip_address ?? "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import type { ManifestIssue, ManifestValidationReport } from "@/lib/manifest/types";
+
+type ManifestReportProps = {
+  report: ManifestValidationReport | null;
+};
+
+function formatIssueLocation(issue: ManifestIssue): string {
+  if (issue.index === null) {
+    return "manifest.json";
+  }
+
+  return `${issue.section}[${issue.index}]`;
+}
+
+export default function ManifestReport({ report }: ManifestReportProps) {
+  if (!report || (report.rejected.length === 0 && report.failed.length === 0)) {
+    return null;
+  }
+
+  return (
+    <details className="summary-details manifest-report" open={report.rejected.length > 0}>
+      <summary>
+        Manifest {report.version ? `v${report.version}` : ""}: {report.accepted} accepted,{" "}
+        {report.rejected.length} rejected, {report.failed.length} reported failed
+      </summary>
+      <div className="summary-details-body">
+        {report.rejected.length > 0 ? (
+          <table className="contacts-table">
+            <thead>
+              <tr>
+                <th>Entry</th>
+                <th>Account Key</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rejected.map((issue, index) => (
+                <tr key={`${issue.section}-${issue.index ?? "manifest"}-${index}`}>
+                  <td>{formatIssueLocation(issue)}</td>
+                  <td>{issue.key ?? "—"}</td>
+                  <td>{issue.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : null}
+
+        {report.failed.length > 0 ? (
+          <>
+            <p>Bills the generating system could not produce:</p>
+            <table className="contacts-table">
+              <thead>
+                <tr>
+                  <th>Account Key</th>
+                  <th>Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.failed.map((entry, index) => (
+                  <tr key={`${entry.key}-${index}`}>
+                    <td>{entry.key}</td>
+                    <td>{entry.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        ) : null}
+      </div>
+    </details>
+  );
+}
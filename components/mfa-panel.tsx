@@ -0,0 +1,358 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+import { generateRecoveryCodes, redeemRecoveryCode } from "@/app/actions/mfa";
+import type { MfaStatus } from "@/lib/auth/mfa";
+import { createClient } from "@/lib/supabase/client";
+
+type MfaPanelProps = {
+  status: MfaStatus;
+  isEnrolled: boolean;
+  requiredFrom: string | null;
+  recoveryCodeCount: number;
+};
+
+type Step = "challenge" | "recover" | "enroll" | "codes" | "manage";
+
+type Enrollment = {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+};
+
+function getInitialStep(status: MfaStatus, isEnrolled: boolean): Step {
+  if (status === "challenge") {
+    return "challenge";
+  }
+
+  return isEnrolled ? "manage" : "enroll";
+}
+
+function getEnrollNote(status: MfaStatus, requiredFrom: string | null): string {
+  if (status === "enroll") {
+    return "Your role requires two-factor authentication. Set up an authenticator app to continue.";
+  }
+
+  if (status === "suggest_enroll" && requiredFrom) {
+    const date = new Date(requiredFrom).toLocaleDateString();
+    return `Your role requires two-factor authentication from ${date}. Set it up now.`;
+  }
+
+  return "Add an authenticator app such as Google Authenticator or 1Password to your sign-in.";
+}
+
+export default function MfaPanel({
+  status,
+  isEnrolled,
+  requiredFrom,
+  recoveryCodeCount
+}: MfaPanelProps) {
+  const [step, setStep] = useState<Step>(() => getInitialStep(status, isEnrolled));
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isPending, setIsPending] = useState(false);
+  const [errorText, setErrorText] = useState("");
+  const [successText, setSuccessText] = useState("");
+
+  const run = async (task: () => Promise<string | null>) => {
+    setIsPending(true);
+    setErrorText("");
+
+    try {
+      const error = await task();
+      if (error) {
+        setErrorText(error);
+      }
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "Unexpected error.");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const showNewRecoveryCodes = async (): Promise<string | null> => {
+    const result = await generateRecoveryCodes();
+    if (!result.ok) {
+      return result.error;
+    }
+
+    setRecoveryCodes(result.codes);
+    setStep("codes");
+    return null;
+  };
+
+  const startEnrollment = () =>
+    run(async () => {
+      const supabase = createClient();
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) {
+        return listError.message;
+      }
+
+      // A setup that was started but never verified blocks a new one; drop it first.
+      for (const factor of factors.all) {
+        if (factor.factor_type === "totp" && factor.status === "unverified") {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        issuer: "ALPHA-TECH X"
+      });
+      if (error) {
+        return error.message;
+      }
+
+      setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+      return null;
+    });
+
+  const confirmEnrollment = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!enrollment) {
+      return;
+    }
+
+    void run(async () => {
+      const { error } = await createClient().auth.mfa.challengeAndVerify({
+        factorId: enrollment.factorId,
+        code: code.trim()
+      });
+      if (error) {
+        return "That code did not match. Check the time on your device and try again.";
+      }
+
+      setCode("");
+      return showNewRecoveryCodes();
+    });
+  };
+
+  const verifyChallenge = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    void run(async () => {
+      const supabase = createClient();
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) {
+        return listError.message;
+      }
+
+      const factor = factors.totp[0];
+      if (!factor) {
+        return "No authenticator is set up for this account.";
+      }
+
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: factor.id,
+        code: code.trim()
+      });
+      if (error) {
+        return "That code did not match. Check the time on your device and try again.";
+      }
+
+      window.location.assign("/");
+      return null;
+    });
+  };
+
+  const submitRecoveryCode = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    void run(async () => {
+      const result = await redeemRecoveryCode(recoveryCode);
+      if (!result.ok) {
+        return result.error;
+      }
+
+      setRecoveryCode("");
+      setSuccessText(
+        "Recovery code accepted and your authenticator was removed. Sign in again to set up " +
+          "a new one."
+      );
+      return null;
+    });
+  };
+
+  const regenerateRecoveryCodes = () => {
+    const confirmed = window.confirm(
+      "Generate new recovery codes? Your current codes stop working."
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    void run(showNewRecoveryCodes);
+  };
+
+  if (successText) {
+    return (
+      <>
+        <div className="message message-success" role="status">
+          {successText}
+        </div>
+        <a href="/login" className="button button-primary">
+          Sign in again
+        </a>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {step === "challenge" ? (
+        <form onSubmit={verifyChallenge} className="form-stack">
+          <p className="section-note">Enter the 6-digit code from your authenticator app.</p>
+          <input
+            type="text"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder="123456"
+            className="text-input"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            autoFocus
+            required
+          />
+          <button type="submit" className="button button-primary" disabled={isPending}>
+            {isPending ? "Verifying..." : "Verify"}
+          </button>
+          <button
+            type="button"
+            className="link-button"
+            onClick={() => {
+              setStep("recover");
+              setErrorText("");
+            }}
+          >
+            Lost your device? Use a recovery code
+          </button>
+        </form>
+      ) : null}
+
+      {step === "recover" ? (
+        <form onSubmit={submitRecoveryCode} className="form-stack">
+          <p className="section-note">
+            A recovery code removes your authenticator. You then sign in again and set up a new
+            one.
+          </p>
+          <input
+            type="text"
+            value={recoveryCode}
+            onChange={(event) => setRecoveryCode(event.target.value)}
+            placeholder="xxxx-xxxx-xxxx"
+            className="text-input"
+            autoComplete="off"
+            autoFocus
+            required
+          />
+          <button type="submit" className="button button-primary" disabled={isPending}>
+            {isPending ? "Checking..." : "Use recovery code"}
+          </button>
+          <button
+            type="button"
+            className="link-button"
+            onClick={() => {
+              setStep("challenge");
+              setErrorText("");
+            }}
+          >
+            Back to authenticator code
+          </button>
+        </form>
+      ) : null}
+
+      {step === "enroll" ? (
+        <div className="form-stack">
+          <p className="section-note">{getEnrollNote(status, requiredFrom)}</p>
+
+          {enrollment ? (
+            <form onSubmit={confirmEnrollment} className="form-stack">
+              <img src={enrollment.qrCode} alt="Authenticator QR code" width={180} height={180} />
+              <p className="section-note">
+                Can&apos;t scan it? Enter this key instead: <code>{enrollment.secret}</code>
+              </p>
+              <input
+                type="text"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                placeholder="123456"
+                className="text-input"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                required
+              />
+              <button type="submit" className="button button-primary" disabled={isPending}>
+                {isPending ? "Verifying..." : "Verify and turn on"}
+              </button>
+            </form>
+          ) : (
+            <button
+              type="button"
+              className="button button-primary"
+              onClick={() => void startEnrollment()}
+              disabled={isPending}
+            >
+              {isPending ? "Preparing..." : "Set up authenticator"}
+            </button>
+          )}
+
+          {status !== "enroll" ? (
+            <Link href="/" className="button button-secondary">
+              {status === "suggest_enroll" ? "Skip for now" : "Back to console"}
+            </Link>
+          ) : null}
+        </div>
+      ) : null}
+
+      {step === "codes" ? (
+        <div className="form-stack">
+          <p className="section-note">
+            Save these recovery codes somewhere safe. Each one works once if you lose your
+            authenticator, and they are not shown again.
+          </p>
+          <ul className="recovery-codes">
+            {recoveryCodes.map((recovery) => (
+              <li key={recovery}>
+                <code>{recovery}</code>
+              </li>
+            ))}
+          </ul>
+          <a href="/" className="button button-primary">
+            I saved my codes
+          </a>
+        </div>
+      ) : null}
+
+      {step === "manage" ? (
+        <div className="form-stack">
+          <p className="section-note">
+            Two-factor authentication is on. {recoveryCodeCount} unused recovery code(s) left.
+          </p>
+          <button
+            type="button"
+            className="button button-secondary"
+            onClick={regenerateRecoveryCodes}
+            disabled={isPending}
+          >
+            {isPending ? "Generating..." : "Generate new recovery codes"}
+          </button>
+          <Link href="/" className="button button-secondary">
+            Back to console
+          </Link>
+        </div>
+      ) : null}
+
+      {errorText ? (
+        <div className="message message-error" role="alert">
+          {errorText}
+        </div>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { formatScheduledFor, toDateTimeLocalValue } from "@/lib/send-jobs/schedule";
+import type { SendJob } from "@/lib/send-jobs/types";
+
+type ScheduledSendsProps = {
+  jobs: SendJob[];
+  canManage: boolean;
+  // Set for senders, who may cancel the scheduled sends they created.
+  currentUserId: string | null;
+  onChanged: () => void;
+};
+
+function getEditValue(job: SendJob): string {
+  return job.scheduled_for ? toDateTimeLocalValue(new Date(job.scheduled_for)) : "";
+}
+
+export default function ScheduledSends({
+  jobs,
+  canManage,
+  currentUserId,
+  onChanged
+}: ScheduledSendsProps) {
+  const [editValues, setEditValues] = useState<Record<string, string>>({});
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const [errorText, setErrorText] = useState("");
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const runJobRequest = async (job: SendJob, path: string, init: RequestInit) => {
+    setErrorText("");
+    setBusyJobId(job.id);
+
+    try {
+      const response = await fetch(path, { ...init, credentials: "same-origin" });
+      const payload = (await response.json().catch(() => null)) as
+        | { ok?: boolean; error?: string }
+        | null;
+
+      if (!response.ok || !payload?.ok) {
+        setErrorText(payload?.error ?? "Failed to update scheduled send.");
+        return;
+      }
+
+      setEditValues((current) => {
+        const next = { ...current };
+        delete next[job.id];
+        return next;
+      });
+      onChanged();
+    } catch {
+      setErrorText("Failed to update scheduled send.");
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const handleReschedule = (job: SendJob) => {
+    const value = editValues[job.id] ?? getEditValue(job);
+    const date = new Date(value);
+    if (!value || Number.isNaN(date.getTime())) {
+      setErrorText("Pick a date and time.");
+      return;
+    }
+
+    void runJobRequest(job, `/api/send-jobs/${job.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ scheduled_for: date.toISOString() })
+    });
+  };
+
+  const handleCancel = (job: SendJob) => {
+    const confirmed = window.confirm(
+      `Cancel the scheduled send of ${job.total_items} bill(s) from ${job.zip_filename}?`
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    void runJobRequest(job, `/api/send-jobs/${job.id}/cancel`, { method: "POST" });
+  };
+
+  return (
+    <div className="scheduled-sends">
+      <p className="section-note">Scheduled sends</p>
+      {jobs.map((job) => (
+        <div className="batch-strip" key={job.id}>
+          <div className="batch-main">
+            <strong>{job.zip_filename}</strong>
+            <span>•</span>
+            <span>
+              {job.total_items} bill(s) at {formatScheduledFor(job.scheduled_for)}
+            </span>
+          </div>
+          {canManage || job.created_by_auth_user_id === currentUserId ? (
+            <div className="batch-main">
+              {canManage ? (
+                <>
+                  <input
+                    type="datetime-local"
+                    value={editValues[job.id] ?? getEditValue(job)}
+                    onChange={(event) =>
+                      setEditValues((current) => ({ ...current, [job.id]: event.target.value }))
+                    }
+                    className="text-input select-input"
+                    aria-label={`New send time for ${job.zip_filename}`}
+                    disabled={busyJobId === job.id}
+                  />
+                  <button
+                    type="button"
+                    className="button button-secondary button-sm"
+                    onClick={() => handleReschedule(job)}
+                    disabled={busyJobId === job.id || editValues[job.id] === undefined}
+                  >
+                    Reschedule
+                  </button>
+                </>
+              ) : null}
+              <button
+                type="button"
+                className="button button-danger button-sm"
+                onClick={() => handleCancel(job)}
+                disabled={busyJobId === job.id}
+              >
+                Cancel send
+              </button>
+            </div>
+          ) : null}
+        </div>
+      ))}
+
+      {errorText ? (
+        <div className="message message-error" role="alert">
+          {errorText}
+        </div>
+      ) : null}
+    </div>
+  );
+}
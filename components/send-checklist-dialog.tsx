@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { RECENT_CONTACT_CHANGE_DAYS, type SendChecklist } from "@/lib/send-jobs/checklist";
+
+type SendChecklistDialogProps = {
+  checklist: SendChecklist;
+  zipFilename: string;
+  scheduledLabel: string | null;
+  skippedSentCount: number;
+  // Bill storage is on but the ZIP could not be archived.
+  zipNotArchived: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+function formatAccountKeys(accountKeys: string[]): string {
+  const shown = accountKeys.slice(0, 10).join(", ");
+  return accountKeys.length > 10 ? `${shown} and ${accountKeys.length - 10} more` : shown;
+}
+
+export default function SendChecklistDialog({
+  checklist,
+  zipFilename,
+  scheduledLabel,
+  skippedSentCount,
+  zipNotArchived,
+  onConfirm,
+  onCancel
+}: SendChecklistDialogProps) {
+  const [typedConfirmation, setTypedConfirmation] = useState("");
+  const confirmationText = checklist.confirmation_text;
+  const canConfirm =
+    confirmationText === null || typedConfirmation.trim() === confirmationText;
+  const actionLabel = scheduledLabel
+    ? `Schedule ${checklist.email_count} email(s)`
+    : `Send ${checklist.email_count} email(s)`;
+
+  return (
+    <div
+      className="dialog-backdrop"
+      onKeyDown={(event) => {
+        if (event.key === "Escape") {
+          onCancel();
+        }
+      }}
+    >
+      <div
+        className="dialog-panel"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="send-checklist-title"
+      >
+        <h2 className="section-title" id="send-checklist-title">
+          Before sending
+        </h2>
+
+        <ul className="checklist">
+          <li>
+            {checklist.email_count} email(s) from <strong>{zipFilename}</strong> to{" "}
+            {checklist.recipient_count} address(es)
+            {scheduledLabel ? `, scheduled for ${scheduledLabel}` : ""}.
+          </li>
+          <li>
+            Trade date:{" "}
+            {checklist.trade_dates.length === 0
+              ? "not detected"
+              : checklist.trade_dates.join(", ")}
+            {checklist.trade_dates.length > 1 ? " (more than one in this batch)" : ""}.
+          </li>
+          {checklist.undated_account_keys.length > 0 ? (
+            <li className="checklist-warning">
+              No trade date: {formatAccountKeys(checklist.undated_account_keys)}.
+            </li>
+          ) : null}
+          {zipNotArchived ? (
+            <li className="checklist-warning">
+              The ZIP was not archived. These emails are sent without an archived copy of it;
+              upload the ZIP again to retry archiving.
+            </li>
+          ) : null}
+          {skippedSentCount > 0 ? (
+            <li>
+              {skippedSentCount} row(s) already sent for this ZIP are skipped.
+            </li>
+          ) : null}
+          {checklist.already_sent_account_keys.length > 0 ? (
+            <li className="checklist-warning">
+              Already sent for this ZIP and sent again:{" "}
+              {formatAccountKeys(checklist.already_sent_account_keys)}.
+            </li>
+          ) : null}
+          {checklist.recently_changed_account_keys.length > 0 ? (
+            <li className="checklist-warning">
+              Email or recipients changed in the last {RECENT_CONTACT_CHANGE_DAYS} days:{" "}
+              {formatAccountKeys(checklist.recently_changed_account_keys)}.
+            </li>
+          ) : null}
+          {checklist.duplicate_emails.map((duplicate) => (
+            <li className="checklist-warning" key={duplicate.email}>
+              {duplicate.email} receives bills for {formatAccountKeys(duplicate.account_keys)}.
+            </li>
+          ))}
+        </ul>
+
+        {confirmationText !== null ? (
+          <label className="field-label">
+            Type {confirmationText} to confirm this batch.
+            <input
+              type="text"
+              value={typedConfirmation}
+              onChange={(event) => setTypedConfirmation(event.target.value)}
+              className="text-input"
+              autoComplete="off"
+              autoFocus
+            />
+          </label>
+        ) : null}
+
+        <div className="contact-form-actions">
+          <button
+            type="button"
+            className="button button-primary"
+            onClick={onConfirm}
+            disabled={!canConfirm}
+          >
+            {actionLabel}
+          </button>
+          <button type="button" className="button button-secondary" onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { listSendLogs } from "@/app/actions/send-logs";
+import { formatRecipientKind } from "@/lib/contacts/recipients";
+import {
+  SEND_LOG_FILTER_KEYS,
+  type SendLogFilters,
+  type SendLogPage,
+  type SendLogSender,
+  type SendLogStatus
+} from "@/lib/send-logs/types";
+
+type SendHistoryProps = {
+  initialPage: SendLogPage;
+  senders: SendLogSender[];
+};
+
+type FilterFormState = {
+  from_date: string;
+  to_date: string;
+  trade_date: string;
+  account_key: string;
+  recipient: string;
+  status: "" | SendLogStatus;
+  sender: string;
+};
+
+const EMPTY_FILTERS: FilterFormState = {
+  from_date: "",
+  to_date: "",
+  trade_date: "",
+  account_key: "",
+  recipient: "",
+  status: "",
+  sender: ""
+};
+
+function toLocalDayStart(value: string, dayOffset = 0): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  date.setDate(date.getDate() + dayOffset);
+  return date.toISOString();
+}
+
+function toSendLogFilters(form: FilterFormState): SendLogFilters {
+  return {
+    sent_from: toLocalDayStart(form.from_date),
+    sent_before: toLocalDayStart(form.to_date, 1),
+    trade_date: form.trade_date.trim() || null,
+    account_key: form.account_key.trim() || null,
+    recipient: form.recipient.trim() || null,
+    status: form.status || null,
+    sender: form.sender || null
+  };
+}
+
+function getExportHref(filters: SendLogFilters): string {
+  const params = new URLSearchParams();
+  for (const key of SEND_LOG_FILTER_KEYS) {
+    const value = filters[key];
+    if (value) {
+      params.set(key, value);
+    }
+  }
+
+  const query = params.toString();
+  return query ? `/api/send-logs/export?${query}` : "/api/send-logs/export";
+}
+
+function formatSentAt(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "-";
+  }
+
+  return date.toLocaleString();
+}
+
+export default function SendHistory({ initialPage, senders }: SendHistoryProps) {
+  const [isPending, startTransition] = useTransition();
+  const [formState, setFormState] = useState<FilterFormState>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<SendLogFilters>({});
+  const [pageData, setPageData] = useState<SendLogPage>(initialPage);
+
+  const senderLabels = new Map(senders.map((sender) => [sender.auth_user_id, sender.label]));
+  const pageCount = Math.max(1, Math.ceil(pageData.total / pageData.page_size));
+  const firstRowNumber = pageData.total === 0 ? 0 : (pageData.page - 1) * pageData.page_size + 1;
+  const lastRowNumber = (pageData.page - 1) * pageData.page_size + pageData.logs.length;
+
+  const loadPage = (filters: SendLogFilters, page: number) => {
+    startTransition(async () => {
+      setPageData(await listSendLogs(filters, page));
+    });
+  };
+
+  const updateField = <Key extends keyof FilterFormState>(
+    key: Key,
+    value: FilterFormState[Key]
+  ) => {
+    setFormState((current) => ({
+      ...current,
+      [key]: value
+    }));
+  };
+
+  const handleApply = () => {
+    const filters = toSendLogFilters(formState);
+    setAppliedFilters(filters);
+    loadPage(filters, 1);
+  };
+
+  const handleReset = () => {
+    setFormState(EMPTY_FILTERS);
+    setAppliedFilters({});
+    loadPage({}, 1);
+  };
+
+  return (
+    <section className="contacts-panel">
+      <div className="contacts-top-row">
+        <div>
+          <h2>History</h2>
+          <p className="subtitle">Every email recorded in send_logs, newest first</p>
+        </div>
+
+        <a className="button button-secondary" href={getExportHref(appliedFilters)} download>
+          Export CSV
+        </a>
+      </div>
+
+      <form
+        className="contact-form-panel"
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleApply();
+        }}
+      >
+        <div className="contact-form-grid">
+          <label className="field-label">
+            Sent from
+            <input
+              type="date"
+              value={formState.from_date}
+              onChange={(event) => updateField("from_date", event.target.value)}
+              className="text-input"
+            />
+          </label>
+          <label className="field-label">
+            Sent to
+            <input
+              type="date"
+              value={formState.to_date}
+              onChange={(event) => updateField("to_date", event.target.value)}
+              className="text-input"
+            />
+          </label>
+          <label className="field-label">
+            Trade date
+            <input
+              type="text"
+              value={formState.trade_date}
+              onChange={(event) => updateField("trade_date", event.target.value)}
+              className="text-input"
+              placeholder="As in the ZIP"
+            />
+          </label>
+          <label className="field-label">
+            Account key
+            <input
+              type="text"
+              value={formState.account_key}
+              onChange={(event) => updateField("account_key", event.target.value)}
+              className="text-input"
+              placeholder="PR20"
+            />
+          </label>
+          <label className="field-label">
+            Recipient
+            <input
+              type="text"
+              value={formState.recipient}
+              onChange={(event) => updateField("recipient", event.target.value)}
+              className="text-input"
+              placeholder="name@example.com"
+            />
+          </label>
+          <label className="field-label">
+            Status
+            <select
+              value={formState.status}
+              onChange={(event) =>
+                updateField("status", event.target.value as FilterFormState["status"])
+              }
+              className="text-input"
+            >
+              <option value="">Any</option>
+              <option value="sent">Sent</option>
+              <option value="failed">Failed</option>
+            </select>
+          </label>
+          <label className="field-label">
+            Sender
+            <select
+              value={formState.sender}
+              onChange={(event) => updateField("sender", event.target.value)}
+              className="text-input"
+            >
+              <option value="">Anyone</option>
+              {senders.map((sender) => (
+                <option key={sender.auth_user_id} value={sender.auth_user_id}>
+                  {sender.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="contact-form-actions">
+          <button type="submit" className="button button-primary" disabled={isPending}>
+            {isPending ? "Loading..." : "Apply filters"}
+          </button>
+          <button
+            type="button"
+            className="button button-secondary"
+            onClick={handleReset}
+            disabled={isPending}
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {pageData.logs.length === 0 ? (
+        <div className="empty-state">
+          <p>No send history matches these filters.</p>
+        </div>
+      ) : (
+        <div className="contacts-table-wrap">
+          <table className="contacts-table">
+            <thead>
+              <tr>
+                <th>Sent at</th>
+                <th>Account Key</th>
+                <th>Trade date</th>
+                <th>Recipient</th>
+                <th>Status</th>
+                <th>Sender</th>
+                <th>ZIP / Message</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pageData.logs.map((log) => (
+                <tr key={log.id}>
+                  <td>{formatSentAt(log.sent_at)}</td>
+                  <td>{log.account_key}</td>
+                  <td>{log.trade_date ?? "-"}</td>
+                  <td>
+                    {log.to_email}
+                    <span className="email-muted recipient-line">
+                      {formatRecipientKind(log.recipient_type)}
+                      {log.to_name ? ` · ${log.to_name}` : ""}
+                    </span>
+                  </td>
+                  <td>
+                    <div className="status-cell">
+                      <span className={`status-pill status-${log.status}`}>
+                        {log.status === "sent" ? "Sent" : "Failed"}
+                      </span>
+                      {log.error ? <span className="email-muted">{log.error}</span> : null}
+                      {log.forced_reason ? (
+                        <span className="email-muted">Resent: {log.forced_reason}</span>
+                      ) : null}
+                    </div>
+                  </td>
+                  <td>
+                    {senderLabels.get(log.sent_by_auth_user_id) ?? "-"}
+                    <span className="email-muted recipient-line">
+                      {log.provider}
+                      {log.sender_email ? ` · ${log.sender_email}` : ""}
+                    </span>
+                  </td>
+                  <td>
+                    {log.zip_filename}
+                    <span className="email-muted recipient-line">{log.message_id ?? "-"}</span>
+                    {log.attachment_filenames?.length ? (
+                      <span className="email-muted recipient-line">
+                        {log.attachment_filenames.join(", ")}
+                      </span>
+                    ) : null}
+                    {log.pdf_document_id ? (
+                      <a
+                        className="email-muted recipient-line"
+                        href={`/api/bill-archive/documents/${log.pdf_document_id}`}
+                        title={log.pdf_sha256 ?? undefined}
+                      >
+                        Archived PDF
+                      </a>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="history-pager">
+        <span className="section-note">
+          {firstRowNumber}-{lastRowNumber} of {pageData.total}
+        </span>
+        <div className="row-actions">
+          <button
+            type="button"
+            className="button button-secondary button-sm"
+            onClick={() => loadPage(appliedFilters, pageData.page - 1)}
+            disabled={isPending || pageData.page <= 1}
+          >
+            Previous
+          </button>
+          <span className="section-note">
+            Page {pageData.page} of {pageCount}
+          </span>
+          <button
+            type="button"
+            className="button button-secondary button-sm"
+            onClick={() => loadPage(appliedFilters, pageData.page + 1)}
+            disabled={isPending || pageData.page >= pageCount}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
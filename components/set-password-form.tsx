@@ -0,0 +1,70 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { setOwnPassword } from "@/app/actions/auth";
+
+export default function SetPasswordForm() {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isPending, setIsPending] = useState(false);
+  const [errorText, setErrorText] = useState("");
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setErrorText("");
+
+    if (password !== confirmation) {
+      setErrorText("The passwords do not match.");
+      return;
+    }
+
+    setIsPending(true);
+    try {
+      const result = await setOwnPassword(password);
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      window.location.assign(result.redirectTo);
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "Unexpected error.");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <>
+      <form onSubmit={handleSubmit} className="form-stack">
+        <input
+          type="password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          placeholder="New password"
+          className="text-input"
+          autoComplete="new-password"
+          required
+        />
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(event) => setConfirmation(event.target.value)}
+          placeholder="Repeat the password"
+          className="text-input"
+          autoComplete="new-password"
+          required
+        />
+        <button type="submit" className="button button-primary" disabled={isPending}>
+          {isPending ? "Saving..." : "Set password"}
+        </button>
+      </form>
+
+      {errorText ? (
+        <div className="message message-error" role="alert">
+          {errorText}
+        </div>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,381 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  createTemplate,
+  deleteTemplate,
+  setDefaultTemplate,
+  updateTemplate
+} from "@/app/actions/templates";
+import { renderEmailTemplate, TEMPLATE_PLACEHOLDERS } from "@/lib/templates/render";
+import type { EmailTemplate, TemplateVariables } from "@/lib/templates/types";
+
+type TemplatesManagerProps = {
+  initialTemplates: EmailTemplate[];
+};
+
+type FormMode = "add" | "edit";
+
+type FormState = {
+  id: string;
+  name: string;
+  subject: string;
+  body_text: string;
+  body_html: string;
+};
+
+const EMPTY_FORM: FormState = {
+  id: "",
+  name: "",
+  subject: "",
+  body_text: "",
+  body_html: ""
+};
+
+const SAMPLE_VARIABLES: TemplateVariables = {
+  name: "Asha Rao",
+  account_key: "PR20",
+  trade_date: "2026-02-20",
+  zip_filename: "bills_20-02-2026.zip",
+  pdf_password_hint: "The attached PDF is protected with your PAN in capital letters."
+};
+
+function formatUpdatedAt(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "-";
+  }
+
+  return date.toLocaleString();
+}
+
+export default function TemplatesManager({ initialTemplates }: TemplatesManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [formOpen, setFormOpen] = useState(false);
+  const [formMode, setFormMode] = useState<FormMode>("add");
+  const [formState, setFormState] = useState<FormState>(EMPTY_FORM);
+  const [errorText, setErrorText] = useState("");
+
+  const preview = useMemo(() => {
+    return renderEmailTemplate(
+      {
+        subject: formState.subject,
+        body_text: formState.body_text,
+        body_html: formState.body_html
+      },
+      SAMPLE_VARIABLES
+    );
+  }, [formState.subject, formState.body_text, formState.body_html]);
+
+  const openAddForm = () => {
+    setFormMode("add");
+    setFormState(EMPTY_FORM);
+    setErrorText("");
+    setFormOpen(true);
+  };
+
+  const openEditForm = (template: EmailTemplate) => {
+    setFormMode("edit");
+    setFormState({
+      id: template.id,
+      name: template.name,
+      subject: template.subject,
+      body_text: template.body_text,
+      body_html: template.body_html ?? ""
+    });
+    setErrorText("");
+    setFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setErrorText("");
+  };
+
+  const handleSubmit = () => {
+    setErrorText("");
+
+    startTransition(async () => {
+      const payload = {
+        name: formState.name,
+        subject: formState.subject,
+        body_text: formState.body_text,
+        body_html: formState.body_html
+      };
+      const result =
+        formMode === "add"
+          ? await createTemplate(payload)
+          : await updateTemplate(formState.id, payload);
+
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      setFormOpen(false);
+      setFormState(EMPTY_FORM);
+      router.refresh();
+    });
+  };
+
+  const handleSetDefault = (template: EmailTemplate) => {
+    setErrorText("");
+    startTransition(async () => {
+      const result = await setDefaultTemplate(template.id);
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  };
+
+  const handleDelete = (template: EmailTemplate) => {
+    const confirmed = window.confirm(`Delete this template?\n\n${template.name}`);
+    if (!confirmed) {
+      return;
+    }
+
+    setErrorText("");
+    startTransition(async () => {
+      const result = await deleteTemplate(template.id);
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  };
+
+  return (
+    <section className="contacts-panel">
+      <div className="contacts-top-row">
+        <div>
+          <h2>Templates</h2>
+          <p className="subtitle">
+            Subject and body used for bill emails. Placeholders:{" "}
+            {TEMPLATE_PLACEHOLDERS.map((key) => `{{${key}}}`).join(", ")}, plus{" "}
+            {"{{var.<name>}}"} for variables from the ZIP manifest
+          </p>
+        </div>
+
+        <button
+          type="button"
+          className="button button-primary"
+          onClick={openAddForm}
+          disabled={isPending}
+        >
+          Add Template
+        </button>
+      </div>
+
+      {formOpen ? (
+        <div className="contact-form-panel">
+          <div className="contact-form-grid">
+            <label className="field-label">
+              Name
+              <input
+                type="text"
+                value={formState.name}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    name: event.target.value
+                  }))
+                }
+                className="text-input"
+                placeholder="Monthly statement"
+                disabled={isPending}
+                required
+              />
+            </label>
+
+            <label className="field-label">
+              Subject
+              <input
+                type="text"
+                value={formState.subject}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    subject: event.target.value
+                  }))
+                }
+                className="text-input"
+                placeholder='Bill for {{account_key}} "{{trade_date}}"'
+                disabled={isPending}
+                required
+              />
+            </label>
+          </div>
+
+          <div className="template-body-grid">
+            <label className="field-label">
+              Plain-text body
+              <textarea
+                value={formState.body_text}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    body_text: event.target.value
+                  }))
+                }
+                className="text-input text-area"
+                rows={8}
+                disabled={isPending}
+                required
+              />
+            </label>
+
+            <label className="field-label">
+              HTML body
+              <textarea
+                value={formState.body_html}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    body_html: event.target.value
+                  }))
+                }
+                className="text-input text-area"
+                rows={8}
+                placeholder="Optional"
+                disabled={isPending}
+              />
+            </label>
+          </div>
+
+          <div className="template-preview">
+            <p className="section-note">Preview with sample data ({SAMPLE_VARIABLES.account_key})</p>
+            <p>
+              <strong>Subject:</strong> {preview.subject || "—"}
+            </p>
+            <pre className="template-preview-text">{preview.text || "—"}</pre>
+            {preview.html ? (
+              <iframe
+                className="template-preview-html"
+                title="HTML preview"
+                sandbox=""
+                srcDoc={preview.html}
+              />
+            ) : null}
+          </div>
+
+          <div className="contact-form-actions">
+            <button
+              type="button"
+              className="button button-primary"
+              onClick={handleSubmit}
+              disabled={isPending}
+            >
+              {isPending
+                ? "Saving..."
+                : formMode === "add"
+                  ? "Create Template"
+                  : "Save Changes"}
+            </button>
+            <button
+              type="button"
+              className="button button-secondary"
+              onClick={closeForm}
+              disabled={isPending}
+            >
+              Cancel
+            </button>
+          </div>
+
+          {errorText ? (
+            <div className="message message-error" role="alert">
+              {errorText}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {errorText && !formOpen ? (
+        <div className="message message-error" role="alert">
+          {errorText}
+        </div>
+      ) : null}
+
+      {initialTemplates.length === 0 ? (
+        <div className="empty-state">
+          <p>No templates yet. The built-in default subject and body are used.</p>
+          <button
+            type="button"
+            className="button button-primary"
+            onClick={openAddForm}
+            disabled={isPending}
+          >
+            Add Template
+          </button>
+        </div>
+      ) : (
+        <div className="contacts-table-wrap">
+          <table className="contacts-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Subject</th>
+                <th>HTML</th>
+                <th>Updated</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {initialTemplates.map((template) => (
+                <tr key={template.id}>
+                  <td>
+                    {template.name}
+                    {template.is_default ? (
+                      <span className="status-pill status-sent template-default-pill">
+                        Default
+                      </span>
+                    ) : null}
+                  </td>
+                  <td>{template.subject}</td>
+                  <td>{template.body_html ? "Yes" : "-"}</td>
+                  <td>{formatUpdatedAt(template.updated_at)}</td>
+                  <td>
+                    <div className="row-actions">
+                      <button
+                        type="button"
+                        className="button button-secondary button-sm"
+                        onClick={() => openEditForm(template)}
+                        disabled={isPending}
+                      >
+                        Edit
+                      </button>
+                      {template.is_default ? null : (
+                        <button
+                          type="button"
+                          className="button button-secondary button-sm"
+                          onClick={() => handleSetDefault(template)}
+                          disabled={isPending}
+                        >
+                          Make default
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        className="button button-danger button-sm"
+                        onClick={() => handleDelete(template)}
+                        disabled={isPending || template.is_default}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,26 +1,64 @@
 "use client";
 
-import JSZip, { type JSZipObject } from "jszip";
 import { useEffect, useMemo, useRef, useState, useTransition } from "react";
 import Link from "next/link";
 import { createContact, getContactsByKeys } from "@/app/actions/contacts";
-import { getLastSendStatusForZip } from "@/app/actions/send-logs";
-import type { Contact } from "@/lib/contacts/types";
+import { listFilenamePatternRules } from "@/app/actions/filename-patterns";
+import { getLastSendStatusForZip, getSendQuota } from "@/app/actions/send-logs";
+import { listTemplates } from "@/app/actions/templates";
+import ManifestReport from "@/components/manifest-report";
+import ScheduledSends from "@/components/scheduled-sends";
+import SendChecklistDialog from "@/components/send-checklist-dialog";
+import { getPdfPasswordHint } from "@/lib/contacts/pdf-password";
+import { formatRecipientKind } from "@/lib/contacts/recipients";
+import type { Contact, ContactRecipient } from "@/lib/contacts/types";
+import type { SenderQuota } from "@/lib/email/providers/types";
+import { buildSendEmailFormData } from "@/lib/email/send-request";
+import type { ManifestValidationReport } from "@/lib/manifest/types";
+import { buildSendChecklist, type SendChecklist } from "@/lib/send-jobs/checklist";
+import {
+  estimateRemainingMs,
+  formatRemaining,
+  getProcessedCount,
+  getProgressPercent,
+  type SendJobRateSample
+} from "@/lib/send-jobs/progress";
+import {
+  DEFAULT_SCHEDULE_HOUR,
+  formatScheduledFor,
+  getNextBusinessDayAt,
+  toDateTimeLocalValue
+} from "@/lib/send-jobs/schedule";
+import type { SendJob, SendJobItemState, SendJobItemStatus } from "@/lib/send-jobs/types";
+import {
+  buildSendJobItemsFormData,
+  type SendJobItemUpload
+} from "@/lib/send-jobs/upload-request";
+import { archiveZipFile } from "@/lib/storage/zip-upload";
+import { DEFAULT_EMAIL_TEMPLATE, renderEmailTemplate } from "@/lib/templates/render";
+import type { EmailTemplate } from "@/lib/templates/types";
+import {
+  getBaseName,
+  normalizeAccountKey,
+  type ParsedBillRow,
+  type ParseSource
+} from "@/lib/zip/bills";
+import {
+  createBillZipReader,
+  ZIP_PARSE_CANCELLED_MESSAGE,
+  type BillZipReader
+} from "@/lib/zip/reader";
+import type { BillRowFile, BillRowFiles, ZipParseProgress } from "@/lib/zip/reader-types";
 
-type ParseSource = "manifest" | "fallback";
 type ReviewFilter = "All" | "Pending" | "Failed" | "Blocked" | "Sent";
 type ReviewStatus = "Pending" | "Blocked" | "Sent" | "Failed";
 
-type ParsedBillRow = {
-  account_key: string;
-  pdf_filename: string;
-  zip_entry_path: string;
-  trade_date: string | null;
-};
-
 type BillRow = ParsedBillRow & {
   contact_name: string | null;
   contact_email: string | null;
+  contact_recipients: ContactRecipient[];
+  contact_pdf_password_hint: string;
+  contact_recipients_changed_at: string | null;
   status: "Pending" | "Blocked";
 };
 
@@ -28,6 +66,7 @@ type ZipSummary = {
   zipFilename: string;
   rowCount: number;
   source: ParseSource;
+  manifestReport: ManifestValidationReport | null;
 };
 
 type AddContactState = {
@@ -37,7 +76,7 @@ type AddContactState = {
   error: string;
 };
 
-type SendState = "idle" | "sending" | "sent" | "failed";
+type SendState = "idle" | "scheduled" | "queued" | "sending" | "sent" | "failed";
 
 type RowSendState = {
   send_state: SendState;
@@ -49,25 +88,32 @@ type LastLogStatus = {
   sent_at: string | null;
 };
 
-function getBaseName(pathname: string): string {
-  const parts = pathname.split("/");
-  return parts[parts.length - 1] ?? pathname;
-}
+type PendingSendConfirmation = {
+  rows: BillRow[];
+  scheduled_for: string | null;
+  checklist: SendChecklist;
+  skipped_sent_count: number;
+};
 
-function normalizeAccountKey(value: unknown): string {
-  return String(value ?? "").trim();
-}
+// Send job items are uploaded in batches of about this many file bytes, below the 4.5 MB
+// request body limit of Vercel functions.
+const SEND_JOB_UPLOAD_CHUNK_BYTES = 3 * 1024 * 1024;
+const SEND_JOB_POLL_INTERVAL_MS = 3000;
 
-function isPdf(filename: string): boolean {
-  return filename.toLowerCase().endsWith(".pdf");
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
-function isAdminPdf(filename: string): boolean {
-  const baseName = getBaseName(filename);
-  return (
-    baseName.startsWith("Bill_Admin") ||
-    baseName.startsWith("Summary_Admin")
-  );
+function formatParseProgress(progress: ZipParseProgress): string {
+  if (progress.phase === "scanning") {
+    return progress.total_files > 0
+      ? `Scanning files: ${progress.files_scanned} of ${progress.total_files}`
+      : "Reading the ZIP directory...";
+  }
+
+  return `Reading ZIP: ${formatMegabytes(progress.bytes_read)} of ${formatMegabytes(
+    progress.total_bytes
+  )}`;
 }
 
 function getStatusFromEmail(email: string | null): "Pending" | "Blocked" {
@@ -80,114 +126,30 @@ function uniqueAccountKeys(keys: string[]): string[] {
   );
 }
 
+// Recipients from the manifest replace the contact's for that row; the contact still
+// supplies the name and PDF password rule when it exists.
+function mergeRowWithContact(row: ParsedBillRow, contact: Contact | undefined): BillRow {
+  const override = row.recipient_override;
+  const contactEmail = override?.to_email ?? contact?.email ?? null;
+
+  return {
+    ...row,
+    contact_name: override?.to_name ?? contact?.name ?? null,
+    contact_email: contactEmail,
+    contact_recipients: override?.recipients ?? contact?.recipients ?? [],
+    contact_pdf_password_hint: getPdfPasswordHint(contact ?? null),
+    contact_recipients_changed_at: override?.to_email
+      ? null
+      : (contact?.recipients_changed_at ?? null),
+    status: getStatusFromEmail(contactEmail)
+  };
+}
+
 function mergeRowsWithContacts(
   rows: ParsedBillRow[],
   contactsByKey: Record<string, Contact>
 ): BillRow[] {
-  return rows.map((row) => {
-    const contact = contactsByKey[row.account_key];
-    const contactEmail = contact?.email ?? null;
-
-    return {
-      ...row,
-      contact_name: contact?.name ?? null,
-      contact_email: contactEmail,
-      status: getStatusFromEmail(contactEmail)
-    };
-  });
-}
-
-function parseFallbackRows(zip: JSZip): ParsedBillRow[] {
-  const rows: ParsedBillRow[] = [];
-  const files = Object.values(zip.files);
-
-  for (const file of files) {
-    if (file.dir) {
-      continue;
-    }
-
-    const baseName = getBaseName(file.name);
-
-    const isBillPdf = baseName.startsWith("Bill_");
-    const isSummaryAdminPdf = baseName.startsWith("Summary_Admin");
-    if (!isBillPdf && !isSummaryAdminPdf) {
-      continue;
-    }
-
-    if (!isPdf(baseName)) {
-      continue;
-    }
-
-    if (isSummaryAdminPdf) {
-      const withoutExtension = baseName.slice(0, -".pdf".length);
-      const lastUnderscoreIndex = withoutExtension.lastIndexOf("_");
-      const tradeDate =
-        lastUnderscoreIndex > 0
-          ? withoutExtension.slice(lastUnderscoreIndex + 1).trim() || null
-          : null;
-
-      rows.push({
-        account_key: "Admin",
-        pdf_filename: baseName,
-        zip_entry_path: file.name,
-        trade_date: tradeDate
-      });
-      continue;
-    }
-
-    const withoutPrefix = baseName.slice("Bill_".length);
-    const firstUnderscoreIndex = withoutPrefix.indexOf("_");
-
-    if (firstUnderscoreIndex <= 0) {
-      continue;
-    }
-
-    const accountKey = normalizeAccountKey(
-      withoutPrefix.slice(0, firstUnderscoreIndex)
-    );
-    if (!accountKey) {
-      continue;
-    }
-
-    const tradeDateValue = withoutPrefix.slice(
-      firstUnderscoreIndex + 1,
-      withoutPrefix.length - ".pdf".length
-    );
-
-    rows.push({
-      account_key: accountKey,
-      pdf_filename: baseName,
-      zip_entry_path: file.name,
-      trade_date: tradeDateValue.trim() || null
-    });
-  }
-
-  return rows;
-}
-
-function findPdfEntry(zip: JSZip, row: BillRow): JSZipObject | null {
-  const directPathMatch = zip.file(row.zip_entry_path);
-  if (directPathMatch && !directPathMatch.dir) {
-    return directPathMatch;
-  }
-
-  const directFilenameMatch = zip.file(row.pdf_filename);
-  if (directFilenameMatch && !directFilenameMatch.dir) {
-    return directFilenameMatch;
-  }
-
-  const targetBaseName = getBaseName(row.pdf_filename);
-  for (const file of Object.values(zip.files)) {
-    if (file.dir) {
-      continue;
-    }
-
-    if (getBaseName(file.name) === targetBaseName) {
-      return file;
-    }
-  }
-
-  return null;
+  return rows.map((row) => mergeRowWithContact(row, contactsByKey[row.account_key]));
 }
 
 function getRowId(row: BillRow): string {
@@ -235,27 +197,31 @@ function getDefaultSendState(): RowSendState {
   return { send_state: "idle" };
 }
 
-function toBase64(arrayBuffer: ArrayBuffer): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const blob = new Blob([arrayBuffer], { type: "application/pdf" });
-    const reader = new FileReader();
-
-    reader.onloadend = () => {
-      if (typeof reader.result !== "string") {
-        reject(new Error("Failed to encode PDF."));
-        return;
-      }
-
-      const base64 = reader.result.split(",", 2)[1] ?? "";
-      resolve(base64);
-    };
+// Rows already sent or waiting in a scheduled job are left out of new batches.
+function isRowSendSettled(rowSendState: RowSendState | undefined): boolean {
+  return rowSendState?.send_state === "sent" || rowSendState?.send_state === "scheduled";
+}
 
-    reader.onerror = () => {
-      reject(new Error("Failed to encode PDF."));
-    };
+function getSendStateForJobItem(status: SendJobItemStatus): SendState {
+  switch (status) {
+    case "pending":
+      return "queued";
+    case "sending":
+      return "sending";
+    case "sent":
+      return "sent";
+    case "failed":
+      return "failed";
+  }
+}
 
-    reader.readAsDataURL(blob);
-  });
+function isJobActive(job: SendJob): boolean {
+  return (
+    job.status === "uploading" ||
+    job.status === "queued" ||
+    job.status === "running" ||
+    job.status === "paused"
+  );
 }
 
 function getReviewStatus(
@@ -286,10 +252,28 @@ function getReviewStatus(
   return "Pending";
 }
 
-export default function UploadSendConsole() {
-  const zipRef = useRef<JSZip | null>(null);
+type UploadSendConsoleProps = {
+  billArchiveEnabled: boolean;
+  canSend: boolean;
+  canManageSendJobs: boolean;
+  // Senders may pause and cancel the send jobs they created.
+  currentUserId: string | null;
+  canEditContacts: boolean;
+};
+
+export default function UploadSendConsole({
+  billArchiveEnabled,
+  canSend,
+  canManageSendJobs,
+  currentUserId,
+  canEditContacts
+}: UploadSendConsoleProps) {
+  const zipReaderRef = useRef<BillZipReader | null>(null);
+  // Bumped on every upload and cancel so a superseded parse stops updating the page.
+  const parseRunRef = useRef(0);
   const createdBlobUrlsRef = useRef<string[]>([]);
   const selectAllCheckboxRef = useRef<HTMLInputElement | null>(null);
+  const jobRateSampleRef = useRef<SendJobRateSample | null>(null);
 
   const [rows, setRows] = useState<BillRow[]>([]);
   const [rowSendStates, setRowSendStates] = useState<Record<string, RowSendState>>(
@@ -301,14 +285,28 @@ export default function UploadSendConsole() {
     Record<string, LastLogStatus>
   >({});
   const [summary, setSummary] = useState<ZipSummary | null>(null);
+  const [zipDocumentId, setZipDocumentId] = useState<string | null>(null);
   const [messages, setMessages] = useState<string[]>([]);
   const [isParsingZip, setIsParsingZip] = useState(false);
+  const [parseProgress, setParseProgress] = useState<ZipParseProgress | null>(null);
   const [isMutating, startMutation] = useTransition();
   const [isSendingAll, setIsSendingAll] = useState(false);
+  const [sendConfirmation, setSendConfirmation] = useState<PendingSendConfirmation | null>(
+    null
+  );
   const [actionError, setActionError] = useState("");
   const [addContactState, setAddContactState] = useState<AddContactState | null>(
     null
   );
+  const [activeJob, setActiveJob] = useState<SendJob | null>(null);
+  const [activeJobEtaMs, setActiveJobEtaMs] = useState<number | null>(null);
+  const [isJobControlPending, setIsJobControlPending] = useState(false);
+  const [backgroundJobs, setBackgroundJobs] = useState<SendJob[]>([]);
+  const [scheduleAt, setScheduleAt] = useState("");
+  const [senderQuota, setSenderQuota] = useState<SenderQuota | null>(null);
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState("");
+  const [showEmailPreview, setShowEmailPreview] = useState(false);
   const [activeFilter, setActiveFilter] = useState<ReviewFilter>("All");
   const [searchTerm, setSearchTerm] = useState("");
   const [showOnlyPending, setShowOnlyPending] = useState(false);
@@ -317,9 +315,139 @@ export default function UploadSendConsole() {
     return () => {
       createdBlobUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
       createdBlobUrlsRef.current = [];
+      zipReaderRef.current?.dispose();
+      zipReaderRef.current = null;
     };
   }, []);
 
+  useEffect(() => {
+    // Set after mount so the server render does not bake in its own clock and time zone.
+    setScheduleAt(toDateTimeLocalValue(getNextBusinessDayAt(DEFAULT_SCHEDULE_HOUR)));
+    void loadBackgroundJobs();
+    void loadSenderQuota();
+    void listTemplates().then((loadedTemplates) => {
+      setTemplates(loadedTemplates);
+      setSelectedTemplateId(
+        loadedTemplates.find((template) => template.is_default)?.id ?? ""
+      );
+    });
+  }, []);
+
+  const activeJobId = activeJob?.id ?? null;
+  const isBatchBusy = isSendingAll || activeJobId !== null;
+  const canNudgeWorker = canSend || canManageSendJobs;
+
+  useEffect(() => {
+    if (!activeJobId) {
+      return;
+    }
+
+    let cancelled = false;
+    let isPolling = false;
+    let isNudging = false;
+
+    const nudgeWorker = async () => {
+      if (isNudging || !canNudgeWorker) {
+        return;
+      }
+
+      isNudging = true;
+      try {
+        await fetch("/api/send-jobs/worker", {
+          method: "POST",
+          credentials: "same-origin"
+        });
+      } catch {
+        // The scheduled worker keeps draining the job even if this nudge fails.
+      } finally {
+        isNudging = false;
+      }
+    };
+
+    const poll = async () => {
+      if (isPolling) {
+        return;
+      }
+
+      isPolling = true;
+      void nudgeWorker();
+
+      try {
+        const response = await fetch(`/api/send-jobs/${activeJobId}`, {
+          credentials: "same-origin"
+        });
+        const payload = (await response.json().catch(() => null)) as
+          | { ok?: boolean; error?: string; job?: SendJob; items?: SendJobItemState[] }
+          | null;
+
+        if (cancelled || !response.ok || !payload?.ok || !payload.job) {
+          return;
+        }
+
+        const job = payload.job;
+        const items = payload.items ?? [];
+
+        if (job.status !== "running") {
+          jobRateSampleRef.current = null;
+        } else if (jobRateSampleRef.current?.job_id !== job.id) {
+          jobRateSampleRef.current = {
+            job_id: job.id,
+            at: Date.now(),
+            processed: getProcessedCount(job)
+          };
+        }
+
+        setActiveJob(job);
+        setActiveJobEtaMs(estimateRemainingMs(job, jobRateSampleRef.current));
+        setRowSendStates((current) => {
+          const next = { ...current };
+          for (const item of items) {
+            // Rows a cancelled job never reached go back to how they were before the batch.
+            if (job.status === "cancelled" && item.status === "pending") {
+              delete next[item.row_key];
+              continue;
+            }
+
+            next[item.row_key] = {
+              send_state: getSendStateForJobItem(item.status),
+              send_error: item.error ?? undefined
+            };
+          }
+          return next;
+        });
+
+        if (isJobActive(job)) {
+          return;
+        }
+
+        const accountKeys = uniqueAccountKeys(items.map((item) => item.account_key));
+        const latestStatus = await getLastSendStatusForZip(job.zip_filename, accountKeys);
+        if (cancelled) {
+          return;
+        }
+
+        setLastLogStatusByKey((current) => ({ ...current, ...latestStatus }));
+        setActiveJob(null);
+        void loadBackgroundJobs();
+        void loadSenderQuota();
+      } catch {
+        // Transient network errors are retried on the next poll.
+      } finally {
+        isPolling = false;
+      }
+    };
+
+    void poll();
+    const intervalId = window.setInterval(() => {
+      void poll();
+    }, SEND_JOB_POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(intervalId);
+    };
+  }, [activeJobId, canNudgeWorker]);
+
   useEffect(() => {
     const rowIds = new Set(rows.map((row) => getRowId(row)));
     setSelectedRowIds((current) => {
@@ -401,11 +529,41 @@ export default function UploadSendConsole() {
         getDisplayAccountKey(item.row).toLowerCase().includes(normalizedSearch) ||
         getDisplayName(item.row).toLowerCase().includes(normalizedSearch) ||
         (item.row.contact_email ?? "").toLowerCase().includes(normalizedSearch) ||
+        item.row.contact_recipients.some((recipient) =>
+          recipient.email.includes(normalizedSearch)
+        ) ||
         item.row.pdf_filename.toLowerCase().includes(normalizedSearch)
       );
     });
   }, [rowsWithReviewStatus, showOnlyPending, activeFilter, searchTerm]);
 
+  const emailPreview = useMemo(() => {
+    const previewItem =
+      rowsWithReviewStatus.find(
+        (item) => selectedRowIds[item.rowId] && item.row.status === "Pending"
+      ) ?? rowsWithReviewStatus.find((item) => item.row.status === "Pending");
+
+    if (!previewItem) {
+      return null;
+    }
+
+    const template =
+      templates.find((candidate) => candidate.id === selectedTemplateId) ??
+      DEFAULT_EMAIL_TEMPLATE;
+
+    return {
+      row: previewItem.row,
+      rendered: renderEmailTemplate(template, {
+        name: previewItem.row.contact_name,
+        account_key: previewItem.row.account_key,
+        trade_date: previewItem.row.trade_date,
+        zip_filename: zipFilename,
+        pdf_password_hint: previewItem.row.contact_pdf_password_hint,
+        custom: previewItem.row.variables
+      })
+    };
+  }, [rowsWithReviewStatus, selectedRowIds, templates, selectedTemplateId, zipFilename]);
+
   const visiblePendingRows = useMemo(() => {
     return visibleRows.filter((item) => item.row.status === "Pending");
   }, [visibleRows]);
@@ -427,95 +585,184 @@ export default function UploadSendConsole() {
     }
   }, [someVisiblePendingSelected]);
 
-  async function parseUploadedZip(file: File) {
-    setIsParsingZip(true);
-    setMessages([]);
+  async function controlActiveJob(action: "pause" | "resume" | "cancel") {
+    if (!activeJob) {
+      return;
+    }
+
+    if (
+      action === "cancel" &&
+      !window.confirm(
+        `Cancel sending ${activeJob.zip_filename}? Bills not sent yet stay pending in the list.`
+      )
+    ) {
+      return;
+    }
+
     setActionError("");
-    setAddContactState(null);
-    setRowSendStates({});
-    setSelectedRowIds({});
-    setLastLogStatusByKey({});
+    setIsJobControlPending(true);
 
     try {
-      const zip = await JSZip.loadAsync(file);
-      const parseMessages: string[] = [];
+      const response = await fetch(`/api/send-jobs/${activeJob.id}/${action}`, {
+        method: "POST",
+        credentials: "same-origin"
+      });
+      const payload = (await response.json().catch(() => null)) as
+        | { ok?: boolean; error?: string; job?: SendJob }
+        | null;
 
-      let source: ParseSource = "fallback";
-      let parsedRows: ParsedBillRow[] = [];
+      if (!response.ok || !payload?.ok || !payload.job) {
+        setActionError(payload?.error ?? `Failed to ${action} the send.`);
+        return;
+      }
 
-      const manifestFile = zip.file("manifest.json");
-      if (manifestFile) {
-        const manifestRawText = await manifestFile.async("string");
+      jobRateSampleRef.current = null;
+      setActiveJob(payload.job);
+      setActiveJobEtaMs(null);
+    } catch {
+      setActionError(`Failed to ${action} the send.`);
+    } finally {
+      setIsJobControlPending(false);
+    }
+  }
 
-        try {
-          const manifestData = JSON.parse(manifestRawText) as {
-            trade_date?: unknown;
-            success?: unknown;
-          };
+  async function fetchActiveJobs(zipFilenameFilter?: string): Promise<SendJob[]> {
+    const query = zipFilenameFilter
+      ? `?zip_filename=${encodeURIComponent(zipFilenameFilter)}`
+      : "";
 
-          source = "manifest";
-          const tradeDate =
-            typeof manifestData.trade_date === "string" &&
-            manifestData.trade_date.trim()
-              ? manifestData.trade_date.trim()
-              : null;
-          const manifestSuccess = Array.isArray(manifestData.success)
-            ? manifestData.success
-            : [];
-
-          parsedRows = manifestSuccess.flatMap((item): ParsedBillRow[] => {
-            const entry =
-              item !== null && typeof item === "object"
-                ? (item as Record<string, unknown>)
-                : null;
-            if (!entry) {
-              return [];
-            }
+    try {
+      const response = await fetch(`/api/send-jobs${query}`, {
+        credentials: "same-origin"
+      });
+      const payload = (await response.json().catch(() => null)) as
+        | { ok?: boolean; jobs?: SendJob[] }
+        | null;
 
-            const accountKey = normalizeAccountKey(entry.key);
-            const pdfPath = String(entry.pdf ?? "").trim();
-            if (!accountKey || !pdfPath) {
-              return [];
-            }
+      return response.ok && payload?.ok ? payload.jobs ?? [] : [];
+    } catch {
+      return [];
+    }
+  }
 
-            if (!isPdf(pdfPath)) {
-              return [];
-            }
+  async function loadSenderQuota() {
+    setSenderQuota(await getSendQuota());
+  }
 
-            return [
-              {
-                account_key: accountKey,
-                pdf_filename: getBaseName(pdfPath),
-                zip_entry_path: pdfPath,
-                trade_date: tradeDate
-              }
-            ];
-          });
-        } catch {
-          parseMessages.push("manifest.json invalid JSON");
+  async function loadBackgroundJobs() {
+    setBackgroundJobs(await fetchActiveJobs());
+  }
+
+  async function syncScheduledRowStates(zipJobs: SendJob[]) {
+    const scheduledRowKeys = new Set<string>();
+
+    for (const job of zipJobs.filter((candidate) => candidate.status === "scheduled")) {
+      try {
+        const response = await fetch(`/api/send-jobs/${job.id}`, {
+          credentials: "same-origin"
+        });
+        const payload = (await response.json().catch(() => null)) as
+          | { ok?: boolean; items?: SendJobItemState[] }
+          | null;
+
+        for (const item of response.ok && payload?.ok ? payload.items ?? [] : []) {
+          scheduledRowKeys.add(item.row_key);
         }
+      } catch {
+        // Rows without a known schedule simply stay sendable.
       }
+    }
 
-      if (source !== "manifest") {
-        source = "fallback";
-        parsedRows = parseFallbackRows(zip);
-      } else {
-        const adminRows = parseFallbackRows(zip).filter((row) =>
-          isAdminPdf(row.pdf_filename)
-        );
-        if (adminRows.length > 0) {
-          const existingPaths = new Set(parsedRows.map((row) => row.zip_entry_path));
-          for (const row of adminRows) {
-            if (!existingPaths.has(row.zip_entry_path)) {
-              parsedRows.push(row);
-            }
-          }
+    setRowSendStates((current) => {
+      const next: Record<string, RowSendState> = {};
+      for (const [rowId, state] of Object.entries(current)) {
+        if (state.send_state !== "scheduled") {
+          next[rowId] = state;
         }
       }
+      for (const rowId of scheduledRowKeys) {
+        next[rowId] = { send_state: "scheduled" };
+      }
+      return next;
+    });
+  }
+
+  async function handleScheduledJobsChanged() {
+    const jobs = await fetchActiveJobs();
+    setBackgroundJobs(jobs);
+
+    if (zipFilename) {
+      await syncScheduledRowStates(jobs.filter((job) => job.zip_filename === zipFilename));
+    }
+  }
+
+  // Keeps the uploaded ZIP as-is for audit; the PDFs are archived server-side as they are sent.
+  async function archiveZip(file: File): Promise<string | null> {
+    try {
+      return await archiveZipFile(file);
+    } catch (error) {
+      setMessages((current) => [
+        ...current,
+        `ZIP was not archived: ${error instanceof Error ? error.message : "Failed to archive ZIP."}`
+      ]);
+      return null;
+    }
+  }
+
+  function getZipReader(): BillZipReader {
+    zipReaderRef.current ??= createBillZipReader();
+    return zipReaderRef.current;
+  }
+
+  function cancelZipParse() {
+    parseRunRef.current += 1;
+    zipReaderRef.current?.cancel();
+    setRows([]);
+    setSummary(null);
+    setMessages([ZIP_PARSE_CANCELLED_MESSAGE]);
+    setParseProgress(null);
+    setIsParsingZip(false);
+  }
+
+  async function parseUploadedZip(file: File) {
+    const parseRun = ++parseRunRef.current;
+    const isSuperseded = () => parseRun !== parseRunRef.current;
+
+    setIsParsingZip(true);
+    setParseProgress({
+      phase: "reading",
+      bytes_read: 0,
+      total_bytes: file.size,
+      files_scanned: 0,
+      total_files: 0
+    });
+    setMessages([]);
+    setActionError("");
+    setAddContactState(null);
+    setRowSendStates({});
+    setSelectedRowIds({});
+    setLastLogStatusByKey({});
+    setActiveJob(null);
+    setZipDocumentId(null);
+
+    try {
+      const filenamePatterns = await listFilenamePatternRules();
+      const {
+        source,
+        rows: parsedRows,
+        messages: parseMessages,
+        report: manifestReport
+      } = await getZipReader().parse(file, filenamePatterns, (progress) => {
+        if (!isSuperseded()) {
+          setParseProgress(progress);
+        }
+      });
+      if (isSuperseded()) {
+        return;
+      }
 
       if (parsedRows.length === 0) {
         parseMessages.push("No bill PDFs found");
-        zipRef.current = zip;
         setRows([]);
         setRowSendStates({});
         setSelectedRowIds({});
@@ -523,7 +770,8 @@ export default function UploadSendConsole() {
         setSummary({
           zipFilename: file.name,
           rowCount: 0,
-          source
+          source,
+          manifestReport
         });
         setMessages(parseMessages);
         return;
@@ -533,8 +781,10 @@ export default function UploadSendConsole() {
       const contactsByKey = await getContactsByKeys(accountKeys);
       const latestStatusByKey = await getLastSendStatusForZip(file.name, accountKeys);
       const mergedRows = mergeRowsWithContacts(parsedRows, contactsByKey);
+      if (isSuperseded()) {
+        return;
+      }
 
-      zipRef.current = zip;
       setRows(mergedRows);
       setRowSendStates({});
       setSelectedRowIds({});
@@ -542,10 +792,27 @@ export default function UploadSendConsole() {
       setSummary({
         zipFilename: file.name,
         rowCount: mergedRows.length,
-        source
+        source,
+        manifestReport
       });
       setMessages(parseMessages);
+      void loadSenderQuota();
+
+      if (billArchiveEnabled) {
+        setZipDocumentId(await archiveZip(file));
+      }
+
+      const zipJobs = await fetchActiveJobs(file.name);
+      const runningJob = zipJobs.find((job) => isJobActive(job));
+      if (runningJob) {
+        setActiveJob(runningJob);
+      }
+      await syncScheduledRowStates(zipJobs);
     } catch (error) {
+      if (isSuperseded()) {
+        return;
+      }
+
       setRows([]);
       setRowSendStates({});
       setSelectedRowIds({});
@@ -555,7 +822,10 @@ export default function UploadSendConsole() {
         error instanceof Error ? error.message : "Failed to parse ZIP file."
       ]);
     } finally {
-      setIsParsingZip(false);
+      if (!isSuperseded()) {
+        setIsParsingZip(false);
+        setParseProgress(null);
+      }
     }
   }
 
@@ -664,15 +934,7 @@ export default function UploadSendConsole() {
           return row;
         }
 
-        const contact = contactsByKey[row.account_key];
-        const contactEmail = contact?.email ?? null;
-
-        return {
-          ...row,
-          contact_name: contact?.name ?? null,
-          contact_email: contactEmail,
-          status: getStatusFromEmail(contactEmail)
-        };
+        return mergeRowWithContact(row, contactsByKey[row.account_key]);
       })
     );
   }
@@ -727,19 +989,7 @@ export default function UploadSendConsole() {
     setActionError("");
 
     try {
-      const zip = zipRef.current;
-      if (!zip) {
-        setActionError("ZIP data is not available. Re-upload the file.");
-        return;
-      }
-
-      const pdfEntry = findPdfEntry(zip, row);
-      if (!pdfEntry) {
-        setActionError(`Could not find PDF in ZIP: ${row.pdf_filename}`);
-        return;
-      }
-
-      const pdfArrayBuffer = await pdfEntry.async("arraybuffer");
+      const pdfArrayBuffer = await getZipReader().readPdf(row);
       const pdfBlob = new Blob([pdfArrayBuffer], { type: "application/pdf" });
       const blobUrl = URL.createObjectURL(pdfBlob);
       createdBlobUrlsRef.current.push(blobUrl);
@@ -755,7 +1005,7 @@ export default function UploadSendConsole() {
     const rowId = getRowId(row);
     const currentState = rowSendStates[rowId]?.send_state ?? "idle";
 
-    if (currentState === "sending") {
+    if (currentState === "sending" || currentState === "queued" || currentState === "scheduled") {
       return false;
     }
 
@@ -777,40 +1027,43 @@ export default function UploadSendConsole() {
     setRowSendState(rowId, "sending");
 
     try {
-      const zip = zipRef.current;
-      if (!zip) {
-        throw new Error("ZIP data is not available. Re-upload the file.");
-      }
-
-      const pdfEntry = findPdfEntry(zip, row);
-      if (!pdfEntry) {
-        throw new Error(`Could not find PDF in ZIP: ${row.pdf_filename}`);
-      }
-
-      const pdfArrayBuffer = await pdfEntry.async("arraybuffer");
-      const pdfBase64 = await toBase64(pdfArrayBuffer);
+      const files = await getZipReader().readRow(row);
+      const toSendEmailFile = (file: BillRowFile) => ({
+        filename: file.filename,
+        content: new Blob([file.content])
+      });
 
       const response = await fetch("/api/send-email", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          zip_filename: zipFilename,
-          account_key: row.account_key,
-          trade_date: row.trade_date,
-          to_email: row.contact_email,
-          to_name: row.contact_name,
-          filename: row.pdf_filename,
-          pdf_base64: pdfBase64
-        }),
+        body: buildSendEmailFormData(
+          {
+            zip_filename: zipFilename,
+            account_key: row.account_key,
+            trade_date: row.trade_date,
+            to_email: row.contact_email,
+            to_name: row.contact_name,
+            recipients: row.contact_recipients,
+            filename: row.pdf_filename,
+            variables: row.variables,
+            template_id: selectedTemplateId || null,
+            zip_document_id: zipDocumentId
+          },
+          toSendEmailFile(files.pdf),
+          files.attachments.map(toSendEmailFile)
+        ),
         credentials: "same-origin"
       });
 
       const payload = (await response.json().catch(() => null)) as
-        | { ok?: boolean; error?: string }
+        | { ok?: boolean; error?: string; duplicate?: { status?: string } }
         | null;
 
+      if (payload?.duplicate?.status === "sent") {
+        // Someone else already delivered this bill; the server refused to send it twice.
+        setRowSendState(rowId, "sent");
+        return false;
+      }
+
       if (!response.ok || !payload?.ok) {
         const errorMessage = payload?.error ?? "Failed to send email.";
         setRowSendState(rowId, "failed", errorMessage);
@@ -826,46 +1079,258 @@ export default function UploadSendConsole() {
       return false;
     } finally {
       await refreshLastLogStatusForKeys([row.account_key]);
+      void loadSenderQuota();
     }
   }
 
-  async function sendPending() {
-    if (isSendingAll) {
-      return;
-    }
+  async function queueRowsAsSendJob(rowsToQueue: BillRow[], scheduledFor: string | null = null) {
+    const queueableRows = rowsToQueue.filter((row) => {
+      if (!row.contact_email) {
+        setRowSendState(getRowId(row), "failed", "No contact email available.");
+        return false;
+      }
 
-    if (!zipFilename) {
-      setActionError("ZIP filename is unavailable. Re-upload the file.");
+      return true;
+    });
+
+    if (queueableRows.length === 0) {
       return;
     }
 
-    setActionError("");
-    setIsSendingAll(true);
+    const queuedRowIds: string[] = [];
+    let createdJobId: string | null = null;
 
     try {
-      const rowsToSend = rows.filter((row) => {
-        if (row.status !== "Pending") {
-          return false;
+      const createResponse = await fetch("/api/send-jobs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          zip_filename: zipFilename,
+          total_items: queueableRows.length,
+          template_id: selectedTemplateId || null,
+          zip_document_id: zipDocumentId
+        }),
+        credentials: "same-origin"
+      });
+      const createPayload = (await createResponse.json().catch(() => null)) as
+        | { ok?: boolean; error?: string; job?: SendJob }
+        | null;
+
+      if (!createResponse.ok || !createPayload?.ok || !createPayload.job) {
+        throw new Error(createPayload?.error ?? "Failed to create send job.");
+      }
+
+      const jobId = createPayload.job.id;
+      createdJobId = jobId;
+      let chunk: SendJobItemUpload[] = [];
+      let chunkBytes = 0;
+
+      const uploadChunk = async () => {
+        if (chunk.length === 0) {
+          return;
         }
 
-        if (shouldSkipRowBecauseSentEarlier(row)) {
-          return false;
+        const response = await fetch(`/api/send-jobs/${jobId}/items`, {
+          method: "POST",
+          body: buildSendJobItemsFormData(chunk),
+          credentials: "same-origin"
+        });
+        const payload = (await response.json().catch(() => null)) as
+          | { ok?: boolean; error?: string }
+          | null;
+
+        if (!response.ok || !payload?.ok) {
+          throw new Error(payload?.error ?? "Failed to upload send job items.");
         }
 
+        chunk = [];
+        chunkBytes = 0;
+      };
+
+      for (const row of queueableRows) {
         const rowId = getRowId(row);
-        return rowSendStates[rowId]?.send_state !== "sent";
+        let files: BillRowFiles;
+        try {
+          files = await getZipReader().readRow(row);
+        } catch (error) {
+          setRowSendState(
+            rowId,
+            "failed",
+            error instanceof Error ? error.message : "Could not read PDF from ZIP."
+          );
+          continue;
+        }
+
+        const rowBytes = files.attachments.reduce(
+          (total, attachment) => total + attachment.content.byteLength,
+          files.pdf.content.byteLength
+        );
+        if (chunkBytes + rowBytes > SEND_JOB_UPLOAD_CHUNK_BYTES) {
+          await uploadChunk();
+        }
+
+        chunk.push({
+          metadata: {
+            row_key: rowId,
+            account_key: row.account_key,
+            trade_date: row.trade_date,
+            to_email: row.contact_email ?? "",
+            to_name: row.contact_name,
+            recipients: row.contact_recipients,
+            filename: row.pdf_filename,
+            variables: row.variables
+          },
+          pdf: { filename: row.pdf_filename, content: new Blob([files.pdf.content]) },
+          attachments: files.attachments.map((attachment) => ({
+            filename: attachment.filename,
+            content: new Blob([attachment.content])
+          }))
+        });
+        chunkBytes += rowBytes;
+        queuedRowIds.push(rowId);
+        setRowSendState(rowId, "queued");
+      }
+
+      await uploadChunk();
+
+      const startResponse = await fetch(`/api/send-jobs/${jobId}/start`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ scheduled_for: scheduledFor }),
+        credentials: "same-origin"
+      });
+      const startPayload = (await startResponse.json().catch(() => null)) as
+        | { ok?: boolean; error?: string; job?: SendJob }
+        | null;
+
+      if (!startResponse.ok || !startPayload?.ok || !startPayload.job) {
+        throw new Error(startPayload?.error ?? "Failed to start send job.");
+      }
+      createdJobId = null;
+
+      if (startPayload.job.status === "scheduled") {
+        for (const rowId of queuedRowIds) {
+          setRowSendState(rowId, "scheduled");
+        }
+        void loadBackgroundJobs();
+      } else {
+        setActiveJob(startPayload.job);
+      }
+    } catch (error) {
+      // The half-uploaded job is never shown or started; cancelling it drops the stored files.
+      if (createdJobId) {
+        await fetch(`/api/send-jobs/${createdJobId}/cancel`, {
+          method: "POST",
+          credentials: "same-origin"
+        }).catch(() => null);
+      }
+
+      setRowSendStates((current) => {
+        const next = { ...current };
+        for (const rowId of queuedRowIds) {
+          delete next[rowId];
+        }
+        return next;
       });
+      setActionError(
+        error instanceof Error ? error.message : "Failed to queue send job."
+      );
+    }
+  }
+
+  function getScheduledForIso(): string | null {
+    const date = new Date(scheduleAt);
+    if (!scheduleAt || Number.isNaN(date.getTime())) {
+      setActionError("Pick a date and time to schedule the send.");
+      return null;
+    }
 
-      for (const row of rowsToSend) {
-        await sendEmailForRow(row);
+    if (date.getTime() <= Date.now()) {
+      setActionError("Scheduled time must be in the future.");
+      return null;
+    }
+
+    return date.toISOString();
+  }
+
+  function getRowsToSendPending(): BillRow[] {
+    return rows.filter((row) => {
+      if (row.status !== "Pending") {
+        return false;
       }
+
+      if (shouldSkipRowBecauseSentEarlier(row)) {
+        return false;
+      }
+
+      const rowId = getRowId(row);
+      return !isRowSendSettled(rowSendStates[rowId]);
+    });
+  }
+
+  // Bulk sends go through the pre-send checklist; nothing is queued until it is confirmed.
+  function requestSendConfirmation(rowsToSend: BillRow[], scheduledFor: string | null) {
+    if (rowsToSend.length === 0) {
+      setActionError("No pending rows to send.");
+      return;
+    }
+
+    setActionError("");
+    setSendConfirmation({
+      rows: rowsToSend,
+      scheduled_for: scheduledFor,
+      checklist: buildSendChecklist(
+        rowsToSend.map((row) => ({
+          account_key: row.account_key,
+          trade_date: row.trade_date,
+          contact_email: row.contact_email,
+          contact_recipients: row.contact_recipients,
+          contact_recipients_changed_at: row.contact_recipients_changed_at,
+          last_status: lastLogStatusByKey[row.account_key]?.status ?? null
+        })),
+        zipFilename
+      ),
+      skipped_sent_count: rows.filter(
+        (row) => row.status === "Pending" && shouldSkipRowBecauseSentEarlier(row)
+      ).length
+    });
+  }
+
+  async function confirmSend() {
+    const confirmation = sendConfirmation;
+    setSendConfirmation(null);
+    if (!confirmation || isBatchBusy) {
+      return;
+    }
+
+    setIsSendingAll(true);
+
+    try {
+      await queueRowsAsSendJob(confirmation.rows, confirmation.scheduled_for);
     } finally {
       setIsSendingAll(false);
     }
   }
 
-  async function sendSelectedPendingRows() {
-    if (isSendingAll) {
+  function sendPending(scheduledFor: string | null = null) {
+    if (isBatchBusy) {
+      return;
+    }
+
+    if (!zipFilename) {
+      setActionError("ZIP filename is unavailable. Re-upload the file.");
+      return;
+    }
+
+    requestSendConfirmation(getRowsToSendPending(), scheduledFor);
+  }
+
+  function sendSelectedPendingRows(scheduledFor: string | null = null) {
+    if (isBatchBusy) {
       return;
     }
 
@@ -885,7 +1350,7 @@ export default function UploadSendConsole() {
         return false;
       }
 
-      return rowSendStates[rowId]?.send_state !== "sent";
+      return !isRowSendSettled(rowSendStates[rowId]);
     });
 
     if (rowsToSend.length === 0) {
@@ -893,20 +1358,11 @@ export default function UploadSendConsole() {
       return;
     }
 
-    setActionError("");
-    setIsSendingAll(true);
-
-    try {
-      for (const row of rowsToSend) {
-        await sendEmailForRow(row);
-      }
-    } finally {
-      setIsSendingAll(false);
-    }
+    requestSendConfirmation(rowsToSend, scheduledFor);
   }
 
-  async function retryAllFailed() {
-    if (isSendingAll) {
+  function retryAllFailed() {
+    if (isBatchBusy) {
       return;
     }
 
@@ -926,7 +1382,7 @@ export default function UploadSendConsole() {
       }
 
       const rowId = getRowId(row);
-      return rowSendStates[rowId]?.send_state !== "sent";
+      return !isRowSendSettled(rowSendStates[rowId]);
     });
 
     if (rowsToRetry.length === 0) {
@@ -934,20 +1390,38 @@ export default function UploadSendConsole() {
       return;
     }
 
-    setActionError("");
-    setIsSendingAll(true);
-
-    try {
-      for (const row of rowsToRetry) {
-        await sendEmailForRow(row);
-      }
-    } finally {
-      setIsSendingAll(false);
-    }
+    requestSendConfirmation(rowsToRetry, null);
   }
 
   const hasRows = rows.length > 0;
   const failedCount = counts.Failed;
+  const sendPendingLabel = isSendingAll
+    ? "Queueing..."
+    : activeJob
+      ? `${activeJob.status === "paused" ? "Paused" : "Sending"} ${getProcessedCount(
+          activeJob
+        )}/${activeJob.total_items}`
+      : "Send pending";
+  const otherBackgroundJobs = backgroundJobs.filter(
+    (job) => job.id !== activeJobId && job.status !== "scheduled"
+  );
+  const scheduledJobs = backgroundJobs.filter((job) => job.status === "scheduled");
+  const batchSize = selectedPendingCount > 0 ? selectedPendingCount : getRowsToSendPending().length;
+  const isOverQuota =
+    senderQuota?.remaining != null && counts.Pending > 0 && batchSize > senderQuota.remaining;
+
+  const scheduleSend = (target: "pending" | "selected") => {
+    const scheduledFor = getScheduledForIso();
+    if (!scheduledFor) {
+      return;
+    }
+
+    if (target === "pending") {
+      sendPending(scheduledFor);
+    } else {
+      sendSelectedPendingRows(scheduledFor);
+    }
+  };
 
   return (
     <section className="upload-flow">
@@ -974,17 +1448,68 @@ export default function UploadSendConsole() {
             disabled={isParsingZip || isMutating || isSendingAll}
           />
           <span className="zip-dropzone-title">Drop ZIP here or click to upload</span>
-          <span className="zip-dropzone-subtitle">
-            Accepts one .zip file with bill PDFs and optional manifest.json
-          </span>
+          {parseProgress ? (
+            <>
+              {parseProgress.phase === "scanning" ? (
+                // Indeterminate until the directory is read and the file count is known.
+                <progress
+                  className="zip-progress"
+                  value={parseProgress.total_files > 0 ? parseProgress.files_scanned : undefined}
+                  max={parseProgress.total_files || 1}
+                />
+              ) : (
+                <progress
+                  className="zip-progress"
+                  value={parseProgress.bytes_read}
+                  max={parseProgress.total_bytes || 1}
+                />
+              )}
+              <span className="zip-dropzone-subtitle" role="status">
+                {formatParseProgress(parseProgress)}
+              </span>
+            </>
+          ) : (
+            <span className="zip-dropzone-subtitle">
+              Accepts one .zip file with bill PDFs and optional manifest.json
+            </span>
+          )}
         </label>
 
         {isParsingZip ? (
           <div className="message message-success" role="status">
-            Parsing ZIP...
+            Parsing ZIP...{" "}
+            <button
+              type="button"
+              className="button button-secondary button-sm"
+              onClick={cancelZipParse}
+            >
+              Cancel
+            </button>
           </div>
         ) : null}
 
+        {otherBackgroundJobs.map((job) => (
+          <div className="batch-strip" key={job.id}>
+            <div className="batch-main">
+              <strong>{job.zip_filename}</strong>
+              <span>•</span>
+              <span>
+                Background send {job.status}: {job.sent_count + job.failed_count}/
+                {job.total_items} processed
+              </span>
+            </div>
+          </div>
+        ))}
+
+        <ScheduledSends
+          jobs={scheduledJobs}
+          canManage={canManageSendJobs}
+          currentUserId={canSend ? currentUserId : null}
+          onChanged={() => {
+            void handleScheduledJobsChanged();
+          }}
+        />
+
         {summary ? (
           <div className="batch-strip">
             <div className="batch-main">
@@ -997,7 +1522,7 @@ export default function UploadSendConsole() {
               <div className="summary-details-body">
                 <p>
                   {summary.source === "manifest"
-                    ? "Using manifest.json"
+                    ? `Using manifest.json (v${summary.manifestReport?.version ?? 1})`
                     : "Using filename fallback"}
                 </p>
                 <p>Audit logging: enabled</p>
@@ -1005,6 +1530,8 @@ export default function UploadSendConsole() {
             </details>
           </div>
         ) : null}
+
+        <ManifestReport report={summary?.manifestReport ?? null} />
       </section>
 
       <section className="panel-section">
@@ -1180,6 +1707,14 @@ export default function UploadSendConsole() {
             </div>
           ) : null}
 
+          {isOverQuota && senderQuota ? (
+            <div className="quota-banner" role="status">
+              {batchSize} bill(s) to send, but {senderQuota.sender_email} has only{" "}
+              {senderQuota.remaining} of {senderQuota.limit} messages left in the last{" "}
+              {senderQuota.window_hours} hours. The rest stay queued until quota frees up.
+            </div>
+          ) : null}
+
           <div className="console-action-bar">
             <div className="action-bar-left">
               {selectedPendingCount > 0 ? (
@@ -1192,60 +1727,188 @@ export default function UploadSendConsole() {
                   type="checkbox"
                   checked={skipAlreadySent}
                   onChange={(event) => setSkipAlreadySent(event.target.checked)}
-                  disabled={isParsingZip || isMutating || isSendingAll}
+                  disabled={isParsingZip || isMutating || isBatchBusy}
                 />
                 <span>Skip already sent</span>
               </label>
+              <label className="pending-toggle">
+                <span>Template</span>
+                <select
+                  value={selectedTemplateId}
+                  onChange={(event) => setSelectedTemplateId(event.target.value)}
+                  className="text-input select-input"
+                  aria-label="Email template"
+                  disabled={isParsingZip || isMutating || isBatchBusy}
+                >
+                  {templates.length === 0 ? <option value="">Built-in default</option> : null}
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                className="button button-secondary button-sm"
+                onClick={() => setShowEmailPreview((current) => !current)}
+                disabled={!emailPreview}
+              >
+                {showEmailPreview ? "Hide preview" : "Preview email"}
+              </button>
+              {senderQuota?.limit != null ? (
+                <span className="action-selection-muted" title={senderQuota.sender_email}>
+                  Daily quota: {senderQuota.remaining} of {senderQuota.limit} left
+                </span>
+              ) : null}
             </div>
 
             <div className="action-bar-right">
-              {counts.Pending > 0 ? (
+              {canSend && counts.Pending > 0 ? (
                 <button
                   type="button"
                   className="button button-primary button-sm"
-                  onClick={() => {
-                    void sendPending();
-                  }}
-                  disabled={!hasRows || !zipFilename || isParsingZip || isMutating || isSendingAll}
+                  onClick={() => sendPending()}
+                  disabled={!hasRows || !zipFilename || isParsingZip || isMutating || isBatchBusy}
                 >
-                  {isSendingAll ? "Sending..." : "Send pending"}
+                  {sendPendingLabel}
                 </button>
               ) : null}
 
-              {failedCount > 0 ? (
+              {canSend && failedCount > 0 ? (
                 <button
                   type="button"
                   className="button button-secondary button-sm"
-                  onClick={() => {
-                    void retryAllFailed();
-                  }}
-                  disabled={!hasRows || !zipFilename || isParsingZip || isMutating || isSendingAll}
+                  onClick={retryAllFailed}
+                  disabled={!hasRows || !zipFilename || isParsingZip || isMutating || isBatchBusy}
                 >
                   Retry failed
                 </button>
               ) : null}
 
-              {selectedPendingCount > 0 ? (
+              {canSend && selectedPendingCount > 0 ? (
                 <button
                   type="button"
                   className="button button-secondary button-sm"
-                  onClick={() => {
-                    void sendSelectedPendingRows();
-                  }}
+                  onClick={() => sendSelectedPendingRows()}
                   disabled={
                     !hasRows ||
                     !zipFilename ||
                     isParsingZip ||
                     isMutating ||
-                    isSendingAll
+                    isBatchBusy
                   }
                 >
                   Send selected
                 </button>
               ) : null}
+
+              {canSend && counts.Pending > 0 ? (
+                <div className="schedule-controls">
+                  <input
+                    type="datetime-local"
+                    value={scheduleAt}
+                    onChange={(event) => setScheduleAt(event.target.value)}
+                    className="text-input select-input"
+                    aria-label="Scheduled send time"
+                    disabled={isParsingZip || isMutating || isBatchBusy}
+                  />
+                  <button
+                    type="button"
+                    className="button button-secondary button-sm"
+                    onClick={() =>
+                      scheduleSend(selectedPendingCount > 0 ? "selected" : "pending")
+                    }
+                    disabled={!hasRows || !zipFilename || isParsingZip || isMutating || isBatchBusy}
+                  >
+                    {selectedPendingCount > 0 ? "Schedule selected" : "Schedule pending"}
+                  </button>
+                </div>
+              ) : null}
             </div>
           </div>
 
+          {activeJob ? (
+            <div className="job-progress" role="status">
+              <progress
+                className="zip-progress"
+                value={getProcessedCount(activeJob)}
+                max={activeJob.total_items || 1}
+              />
+              <span>
+                {getProcessedCount(activeJob)} of {activeJob.total_items} processed (
+                {getProgressPercent(activeJob)}%)
+                {activeJob.failed_count > 0 ? `, ${activeJob.failed_count} failed` : ""}
+                {activeJob.status === "paused"
+                  ? " · Paused"
+                  : activeJobEtaMs !== null
+                    ? ` · about ${formatRemaining(activeJobEtaMs)} left`
+                    : ""}
+              </span>
+              {canManageSendJobs ||
+              (canSend && activeJob.created_by_auth_user_id === currentUserId) ? (
+                <div className="row-actions">
+                  {activeJob.status === "paused" ? (
+                    <button
+                      type="button"
+                      className="button button-secondary button-sm"
+                      onClick={() => {
+                        void controlActiveJob("resume");
+                      }}
+                      disabled={isJobControlPending}
+                    >
+                      Resume
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      className="button button-secondary button-sm"
+                      onClick={() => {
+                        void controlActiveJob("pause");
+                      }}
+                      disabled={
+                        isJobControlPending ||
+                        (activeJob.status !== "queued" && activeJob.status !== "running")
+                      }
+                    >
+                      Pause
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="button button-danger button-sm"
+                    onClick={() => {
+                      void controlActiveJob("cancel");
+                    }}
+                    disabled={isJobControlPending || !isJobActive(activeJob)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          {showEmailPreview && emailPreview ? (
+            <div className="template-preview">
+              <p className="section-note">
+                Preview for {getDisplayAccountKey(emailPreview.row)} ({emailPreview.row.contact_email})
+              </p>
+              <p>
+                <strong>Subject:</strong> {emailPreview.rendered.subject}
+              </p>
+              <pre className="template-preview-text">{emailPreview.rendered.text}</pre>
+              {emailPreview.rendered.html ? (
+                <iframe
+                  className="template-preview-html"
+                  title="HTML email preview"
+                  sandbox=""
+                  srcDoc={emailPreview.rendered.html}
+                />
+              ) : null}
+            </div>
+          ) : null}
+
           <div className="contacts-table-wrap upload-table-wrap">
             <table className="contacts-table upload-table">
               <thead>
@@ -1259,7 +1922,7 @@ export default function UploadSendConsole() {
                         setAllVisiblePendingRowsSelected(event.target.checked);
                       }}
                       aria-label="Select all visible pending rows"
-                      disabled={visiblePendingRows.length === 0 || isParsingZip || isMutating || isSendingAll}
+                      disabled={visiblePendingRows.length === 0 || isParsingZip || isMutating || isBatchBusy}
                     />
                   </th>
                   <th>Account Key</th>
@@ -1287,11 +1950,15 @@ export default function UploadSendConsole() {
                   const actionLabel =
                     rowSendState.send_state === "sending"
                       ? "Sending..."
-                      : rowSendState.send_state === "sent"
-                        ? "Sent"
-                        : rowSendState.send_state === "failed" || reviewStatus === "Failed"
-                          ? "Retry"
-                          : "Send";
+                      : rowSendState.send_state === "queued"
+                        ? "Queued"
+                        : rowSendState.send_state === "scheduled"
+                          ? "Scheduled"
+                          : rowSendState.send_state === "sent"
+                            ? "Sent"
+                            : rowSendState.send_state === "failed" || reviewStatus === "Failed"
+                              ? "Retry"
+                              : "Send";
 
                   return (
                     <tr key={rowId}>
@@ -1303,7 +1970,7 @@ export default function UploadSendConsole() {
                             setRowSelected(rowId, event.target.checked);
                           }}
                           aria-label={`Select ${getDisplayAccountKey(row)}`}
-                          disabled={row.status === "Blocked" || isParsingZip || isMutating || isSendingAll}
+                          disabled={row.status === "Blocked" || isParsingZip || isMutating || isBatchBusy}
                         />
                       </td>
 
@@ -1316,7 +1983,17 @@ export default function UploadSendConsole() {
                       </td>
 
                       <td>
-                        <span className="email-muted">{row.contact_email ?? "—"}</span>
+                        <span className="email-muted">
+                          {row.contact_email ?? "—"}
+                          {row.recipient_override ? (
+                            <span className="tag-muted">from manifest</span>
+                          ) : null}
+                        </span>
+                        {row.contact_recipients.map((recipient) => (
+                          <span className="email-muted recipient-line" key={recipient.email}>
+                            {formatRecipientKind(recipient.kind)}: {recipient.email}
+                          </span>
+                        ))}
                       </td>
 
                       <td>
@@ -1326,10 +2003,20 @@ export default function UploadSendConsole() {
                           onClick={() => {
                             void handleViewPdf(row);
                           }}
-                          disabled={isParsingZip || isMutating || isSendingAll}
+                          disabled={isParsingZip || isMutating || isBatchBusy}
                         >
                           View
                         </button>
+                        {row.extra_attachments.length > 0 ? (
+                          <span
+                            className="tag-muted"
+                            title={row.extra_attachments
+                              .map((attachment) => attachment.filename)
+                              .join(", ")}
+                          >
+                            +{row.extra_attachments.length} file(s)
+                          </span>
+                        ) : null}
                       </td>
 
                       <td>
@@ -1362,11 +2049,14 @@ export default function UploadSendConsole() {
                                 void sendEmailForRow(row);
                               }}
                               disabled={
+                                !canSend ||
                                 !zipFilename ||
                                 isParsingZip ||
                                 isMutating ||
-                                isSendingAll ||
+                                isBatchBusy ||
                                 rowSendState.send_state === "sending" ||
+                                rowSendState.send_state === "queued" ||
+                                rowSendState.send_state === "scheduled" ||
                                 rowSendState.send_state === "sent"
                               }
                             >
@@ -1381,7 +2071,7 @@ export default function UploadSendConsole() {
                             type="button"
                             className="button button-primary button-sm"
                             onClick={() => openAddContact(row.account_key)}
-                            disabled={isParsingZip || isMutating || isSendingAll}
+                            disabled={!canEditContacts || isParsingZip || isMutating || isBatchBusy}
                           >
                             Add contact
                           </button>
@@ -1395,6 +2085,24 @@ export default function UploadSendConsole() {
           </div>
         </div>
       ) : null}
+
+      {sendConfirmation ? (
+        <SendChecklistDialog
+          checklist={sendConfirmation.checklist}
+          zipFilename={zipFilename}
+          scheduledLabel={
+            sendConfirmation.scheduled_for
+              ? formatScheduledFor(sendConfirmation.scheduled_for)
+              : null
+          }
+          skippedSentCount={sendConfirmation.skipped_sent_count}
+          zipNotArchived={billArchiveEnabled && !zipDocumentId}
+          onConfirm={() => {
+            void confirmSend();
+          }}
+          onCancel={() => setSendConfirmation(null)}
+        />
+      ) : null}
     </section>
   );
 }
@@ -0,0 +1,416 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import {
+  inviteUser,
+  resetUserMfa,
+  setUserDisabled,
+  setUserPassword,
+  updateUser
+} from "@/app/actions/users";
+import { APP_ROLES, formatAppRole } from "@/lib/auth/permissions";
+import type { ManagedUser, ProfileRole } from "@/lib/users/types";
+
+type UsersManagerProps = {
+  initialUsers: ManagedUser[];
+  currentUserId: string | null;
+};
+
+type FormMode = "invite" | "edit" | "password";
+
+type FormState = {
+  auth_user_id: string;
+  email: string;
+  user_id: string;
+  role: ProfileRole;
+  password: string;
+};
+
+const EMPTY_FORM: FormState = {
+  auth_user_id: "",
+  email: "",
+  user_id: "",
+  role: "viewer",
+  password: ""
+};
+
+const PROFILE_ROLES: ProfileRole[] = ["user", ...APP_ROLES];
+
+function formatProfileRole(role: ProfileRole | null): string {
+  if (!role) {
+    return "-";
+  }
+
+  return role === "user" ? "User portal only" : formatAppRole(role);
+}
+
+function formatTimestamp(value: string | null): string {
+  if (!value) {
+    return "Never";
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "-";
+  }
+
+  return date.toLocaleString();
+}
+
+export default function UsersManager({ initialUsers, currentUserId }: UsersManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [formOpen, setFormOpen] = useState(false);
+  const [formMode, setFormMode] = useState<FormMode>("invite");
+  const [formState, setFormState] = useState<FormState>(EMPTY_FORM);
+  const [errorText, setErrorText] = useState("");
+  const [successText, setSuccessText] = useState("");
+
+  const openForm = (mode: FormMode, user?: ManagedUser) => {
+    setFormMode(mode);
+    setFormState(
+      user
+        ? {
+            auth_user_id: user.auth_user_id,
+            email: user.email ?? "",
+            user_id: user.user_id ?? "",
+            role: user.role ?? "user",
+            password: ""
+          }
+        : EMPTY_FORM
+    );
+    setErrorText("");
+    setSuccessText("");
+    setFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setErrorText("");
+  };
+
+  const handleSubmit = () => {
+    setErrorText("");
+    setSuccessText("");
+
+    startTransition(async () => {
+      const result =
+        formMode === "invite"
+          ? await inviteUser({
+              email: formState.email,
+              user_id: formState.user_id,
+              role: formState.role,
+              password: formState.password || undefined
+            })
+          : formMode === "edit"
+            ? await updateUser(formState.auth_user_id, {
+                user_id: formState.user_id,
+                role: formState.role
+              })
+            : await setUserPassword(formState.auth_user_id, formState.password);
+
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      setSuccessText(
+        formMode === "invite"
+          ? formState.password
+            ? `Created ${formState.email}. Share the temporary password with them.`
+            : `Invite sent to ${formState.email}. They choose a password from the email link.`
+          : formMode === "password"
+            ? `Password updated for ${formState.email}.`
+            : ""
+      );
+      setFormOpen(false);
+      setFormState(EMPTY_FORM);
+      router.refresh();
+    });
+  };
+
+  const handleToggleDisabled = (user: ManagedUser) => {
+    const confirmed =
+      user.disabled ||
+      window.confirm(`Disable ${user.email ?? user.auth_user_id}? They can no longer sign in.`);
+    if (!confirmed) {
+      return;
+    }
+
+    setErrorText("");
+    setSuccessText("");
+    startTransition(async () => {
+      const result = await setUserDisabled(user.auth_user_id, !user.disabled);
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      router.refresh();
+    });
+  };
+
+  const handleResetMfa = (user: ManagedUser) => {
+    const confirmed = window.confirm(
+      `Remove the authenticator of ${user.email ?? user.auth_user_id}? ` +
+        "They are signed out and set up a new one at their next sign-in."
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    setErrorText("");
+    setSuccessText("");
+    startTransition(async () => {
+      const result = await resetUserMfa(user.auth_user_id);
+      if (!result.ok) {
+        setErrorText(result.error);
+        return;
+      }
+
+      setSuccessText(`Two-factor authentication reset for ${user.email ?? "the user"}.`);
+      router.refresh();
+    });
+  };
+
+  return (
+    <section className="contacts-panel">
+      <div className="contacts-top-row">
+        <div>
+          <h2>Users</h2>
+          <p className="subtitle">
+            Invite people, set their User ID and role, reset passwords and disable accounts.
+          </p>
+        </div>
+
+        <button
+          type="button"
+          className="button button-primary"
+          onClick={() => openForm("invite")}
+          disabled={isPending}
+        >
+          Invite User
+        </button>
+      </div>
+
+      {formOpen ? (
+        <div className="contact-form-panel">
+          <div className="contact-form-grid">
+            <label className="field-label">
+              Email
+              <input
+                type="email"
+                value={formState.email}
+                onChange={(event) =>
+                  setFormState((current) => ({
+                    ...current,
+                    email: event.target.value
+                  }))
+                }
+                className="text-input"
+                placeholder="name@example.com"
+                disabled={isPending || formMode !== "invite"}
+                required
+              />
+            </label>
+
+            {formMode !== "password" ? (
+              <>
+                <label className="field-label">
+                  User ID
+                  <input
+                    type="text"
+                    value={formState.user_id}
+                    onChange={(event) =>
+                      setFormState((current) => ({
+                        ...current,
+                        user_id: event.target.value
+                      }))
+                    }
+                    className="text-input"
+                    disabled={isPending}
+                    required
+                  />
+                </label>
+
+                <label className="field-label">
+                  Role
+                  <select
+                    value={formState.role}
+                    onChange={(event) =>
+                      setFormState((current) => ({
+                        ...current,
+                        role: event.target.value as ProfileRole
+                      }))
+                    }
+                    className="text-input"
+                    disabled={isPending}
+                  >
+                    {PROFILE_ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {formatProfileRole(role)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            ) : null}
+
+            {formMode !== "edit" ? (
+              <label className="field-label">
+                {formMode === "invite" ? "Temporary password (optional)" : "New password"}
+                <input
+                  type="password"
+                  value={formState.password}
+                  onChange={(event) =>
+                    setFormState((current) => ({
+                      ...current,
+                      password: event.target.value
+                    }))
+                  }
+                  className="text-input"
+                  autoComplete="new-password"
+                  disabled={isPending}
+                />
+              </label>
+            ) : null}
+          </div>
+
+          {formMode === "invite" ? (
+            <p className="section-note">
+              Leave the password empty to email an invite link instead.
+            </p>
+          ) : null}
+
+          <div className="contact-form-actions">
+            <button
+              type="button"
+              className="button button-primary"
+              onClick={handleSubmit}
+              disabled={isPending}
+            >
+              {isPending
+                ? "Saving..."
+                : formMode === "invite"
+                  ? formState.password
+                    ? "Create User"
+                    : "Send Invite"
+                  : formMode === "edit"
+                    ? "Save Changes"
+                    : "Set Password"}
+            </button>
+            <button
+              type="button"
+              className="button button-secondary"
+              onClick={closeForm}
+              disabled={isPending}
+            >
+              Cancel
+            </button>
+          </div>
+
+          {errorText ? (
+            <div className="message message-error" role="alert">
+              {errorText}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {errorText && !formOpen ? (
+        <div className="message message-error" role="alert">
+          {errorText}
+        </div>
+      ) : null}
+
+      {successText ? (
+        <div className="message message-success" role="status">
+          {successText}
+        </div>
+      ) : null}
+
+      {initialUsers.length === 0 ? (
+        <div className="empty-state">
+          <p>No users found.</p>
+        </div>
+      ) : (
+        <div className="contacts-table-wrap">
+          <table className="contacts-table">
+            <thead>
+              <tr>
+                <th>Email</th>
+                <th>User ID</th>
+                <th>Role</th>
+                <th>Last sign-in</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {initialUsers.map((user) => (
+                <tr key={user.auth_user_id}>
+                  <td>
+                    {user.email ?? "-"}
+                    {user.disabled ? <span className="tag-muted">Disabled</span> : null}
+                    {user.mfa_enabled ? <span className="tag-muted">2FA</span> : null}
+                    {user.invited_at && !user.last_sign_in_at ? (
+                      <span className="tag-muted">Invited</span>
+                    ) : null}
+                  </td>
+                  <td>{user.user_id ?? "-"}</td>
+                  <td>
+                    {formatProfileRole(user.role)}
+                    {user.is_allowlisted ? (
+                      <span className="tag-muted">Super admin by allowlist</span>
+                    ) : null}
+                  </td>
+                  <td>{formatTimestamp(user.last_sign_in_at)}</td>
+                  <td>
+                    <div className="row-actions">
+                      <button
+                        type="button"
+                        className="button button-secondary button-sm"
+                        onClick={() => openForm("edit", user)}
+                        disabled={isPending}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="button button-secondary button-sm"
+                        onClick={() => openForm("password", user)}
+                        disabled={isPending}
+                      >
+                        Reset password
+                      </button>
+                      {user.mfa_enabled ? (
+                        <button
+                          type="button"
+                          className="button button-secondary button-sm"
+                          onClick={() => handleResetMfa(user)}
+                          disabled={isPending || user.auth_user_id === currentUserId}
+                        >
+                          Reset 2FA
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        className={`button button-sm ${
+                          user.disabled ? "button-secondary" : "button-danger"
+                        }`}
+                        onClick={() => handleToggleDisabled(user)}
+                        disabled={isPending || user.auth_user_id === currentUserId}
+                      >
+                        {user.disabled ? "Enable" : "Disable"}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,163 @@
+import "server-only";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LockedLogin, LoginLockKind } from "@/lib/users/types";
+
+export const LOGIN_ATTEMPT_WINDOW_MINUTES = 15;
+// Failed attempts inside the window before further attempts are refused.
+const MAX_FAILURES_PER_USER_ID = 10;
+const MAX_FAILURES_PER_IP = 30;
+// Failures inside the window before each attempt is delayed, doubling up to the cap.
+const FREE_FAILURES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 8000;
+const LOCKED_LOGINS_SCAN_LIMIT = 5000;
+
+export type LoginThrottle = {
+  attemptId: string | null;
+  locked: boolean;
+  delayMs: number;
+};
+
+type BeginLoginAttemptRow = {
+  attempt_id: string;
+  user_failures: number;
+  ip_failures: number;
+  locked: boolean;
+};
+
+function getWindowStart(): string {
+  return new Date(Date.now() - LOGIN_ATTEMPT_WINDOW_MINUTES * 60 * 1000).toISOString();
+}
+
+export function normalizeLoginUserId(userId: string): string {
+  return userId.trim().toLowerCase();
+}
+
+// Only headers the proxy sets can be trusted: x-vercel-forwarded-for on Vercel, x-real-ip
+// behind nginx and similar. Clients can prepend anything to x-forwarded-for, so only its last
+// hop, the one added by our own proxy, is used.
+export function getClientIp(request: Request): string | null {
+  const vercelForwardedFor = request.headers.get("x-vercel-forwarded-for")?.split(",")[0]?.trim();
+  const realIp = request.headers.get("x-real-ip")?.trim();
+  const lastForwardedFor = request.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  return vercelForwardedFor || realIp || lastForwardedFor || null;
+}
+
+// Counts the recent failures and records this attempt in one database call, so concurrent
+// sign-ins cannot all pass the lockout. The attempt is recorded as a failure until
+// completeLoginAttempt marks it a success. Fails closed: when the attempt cannot be recorded
+// the sign-in is refused.
+export async function beginLoginAttempt(
+  serviceRole: SupabaseClient,
+  userId: string,
+  ipAddress: string | null
+): Promise<LoginThrottle> {
+  const { data, error } = await serviceRole.rpc("begin_login_attempt", {
+    p_user_id: normalizeLoginUserId(userId),
+    p_ip_address: ipAddress,
+    p_window_minutes: LOGIN_ATTEMPT_WINDOW_MINUTES,
+    p_max_user_failures: MAX_FAILURES_PER_USER_ID,
+    p_max_ip_failures: MAX_FAILURES_PER_IP
+  });
+
+  const row = ((data ?? []) as BeginLoginAttemptRow[])[0];
+  if (error || !row) {
+    console.error("login attempt lookup failed", error);
+    return { attemptId: null, locked: true, delayMs: 0 };
+  }
+
+  const failures = Math.max(row.user_failures, row.ip_failures);
+  const delayMs =
+    failures < FREE_FAILURES
+      ? 0
+      : Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_FAILURES), MAX_DELAY_MS);
+
+  return { attemptId: row.attempt_id, locked: row.locked, delayMs };
+}
+
+// Settles an attempt started by beginLoginAttempt. A successful sign-in clears the earlier
+// failures for that User ID.
+export async function completeLoginAttempt(
+  serviceRole: SupabaseClient,
+  attemptId: string,
+  input: { userId: string; authUserId: string | null; outcome: "success" | "failure" }
+): Promise<void> {
+  const { error } = await serviceRole
+    .from("login_attempts")
+    .update({ auth_user_id: input.authUserId, outcome: input.outcome })
+    .eq("id", attemptId);
+
+  if (error) {
+    console.error("login attempt update failed", error);
+  }
+
+  if (input.outcome === "success") {
+    await clearLoginFailures(serviceRole, "user_id", input.userId);
+  }
+}
+
+// Marks the recent failures of a User ID or an address as cleared so they stop counting.
+export async function clearLoginFailures(
+  serviceRole: SupabaseClient,
+  kind: LoginLockKind,
+  value: string
+): Promise<string | null> {
+  const { error } = await serviceRole
+    .from("login_attempts")
+    .update({ cleared_at: new Date().toISOString() })
+    .eq(kind, kind === "user_id" ? normalizeLoginUserId(value) : value.trim())
+    .eq("outcome", "failure")
+    .is("cleared_at", null);
+
+  if (error) {
+    console.error("login attempt clear failed", error);
+    return error.message;
+  }
+
+  return null;
+}
+
+function countFailures(
+  counts: Map<string, LockedLogin>,
+  kind: LoginLockKind,
+  key: string,
+  createdAt: string
+) {
+  const entry = counts.get(key);
+  if (entry) {
+    entry.failure_count += 1;
+  } else {
+    counts.set(key, { kind, key, failure_count: 1, last_failed_at: createdAt });
+  }
+}
+
+export async function listLockedLogins(serviceRole: SupabaseClient): Promise<LockedLogin[]> {
+  const { data, error } = await serviceRole
+    .from("login_attempts")
+    .select("user_id,ip_address,created_at")
+    .eq("outcome", "failure")
+    .is("cleared_at", null)
+    .gte("created_at", getWindowStart())
+    .order("created_at", { ascending: false })
+    .limit(LOCKED_LOGINS_SCAN_LIMIT);
+
+  if (error) {
+    console.error("locked logins query failed", error);
+    return [];
+  }
+
+  const byUserId = new Map<string, LockedLogin>();
+  const byIpAddress = new Map<string, LockedLogin>();
+  const rows = (data ?? []) as { user_id: string; ip_address: string | null; created_at: string }[];
+  for (const row of rows) {
+    countFailures(byUserId, "user_id", row.user_id, row.created_at);
+    if (row.ip_address) {
+      countFailures(byIpAddress, "ip_address", row.ip_address, row.created_at);
+    }
+  }
+
+  return [
+    ...[...byUserId.values()].filter((entry) => entry.failure_count >= MAX_FAILURES_PER_USER_ID),
+    ...[...byIpAddress.values()].filter((entry) => entry.failure_count >= MAX_FAILURES_PER_IP)
+  ];
+}
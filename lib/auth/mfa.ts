@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getPermissions, hasConsoleAccess } from "@/lib/auth/permissions";
+
+// "challenge": the user has an authenticator but this session has not used it yet.
+// "enroll": the user must set one up before opening the console.
+// "suggest_enroll": setup is still optional for the user; they are offered it after sign-in.
+export type MfaStatus = "ok" | "challenge" | "enroll" | "suggest_enroll";
+
+export type MfaActionResult =
+  | {
+      ok: true;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+// The plain codes are only returned here; the database keeps their hashes.
+export type RecoveryCodesResult =
+  | {
+      ok: true;
+      codes: string[];
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+export function getMfaRequiredFrom(): Date | null {
+  const raw = process.env.MFA_REQUIRED_FROM?.trim();
+  if (!raw) {
+    return null;
+  }
+
+  // An unreadable date enforces MFA right away rather than silently leaving it optional.
+  const requiredFrom = new Date(raw);
+  return Number.isNaN(requiredFrom.getTime()) ? new Date(0) : requiredFrom;
+}
+
+// Roles that can send bills or manage accounts must use an authenticator; others may opt in.
+export function isMfaRequiredForRole(
+  email: string | null | undefined,
+  role: string | null | undefined
+): boolean {
+  const permissions = getPermissions(email, role);
+  return permissions.includes("emails:send") || permissions.includes("users:manage");
+}
+
+export async function getMfaStatus(
+  supabase: SupabaseClient,
+  email: string | null | undefined,
+  role: string | null | undefined
+): Promise<MfaStatus> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+  if (error || !data) {
+    console.error("getAuthenticatorAssuranceLevel failed", error);
+    return "challenge";
+  }
+
+  if (data.currentLevel === "aal2") {
+    return "ok";
+  }
+
+  if (data.nextLevel === "aal2") {
+    return "challenge";
+  }
+
+  if (!isMfaRequiredForRole(email, role)) {
+    return "ok";
+  }
+
+  const requiredFrom = getMfaRequiredFrom();
+  return requiredFrom && requiredFrom.getTime() <= Date.now() ? "enroll" : "suggest_enroll";
+}
+
+// Console pages, actions and API routes refuse the session until this is false.
+export function isMfaPending(status: MfaStatus): boolean {
+  return status === "challenge" || status === "enroll";
+}
+
+// Where a user goes right after signing in.
+export async function getSignedInPath(
+  supabase: SupabaseClient,
+  email: string | null | undefined,
+  role: string | null | undefined
+): Promise<string> {
+  if (!hasConsoleAccess(email, role)) {
+    return "/user";
+  }
+
+  const status = await getMfaStatus(supabase, email, role);
+  return status === "ok" ? "/" : "/mfa";
+}
@@ -0,0 +1,20 @@
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Invited users land here from the invite email to choose their first password.
+export const SET_PASSWORD_PATH = "/set-password";
+
+export type SetPasswordResult =
+  | {
+      ok: true;
+      redirectTo: string;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+export function validatePassword(password: string): string | null {
+  return password.length < MIN_PASSWORD_LENGTH
+    ? `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`
+    : null;
+}
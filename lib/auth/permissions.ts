@@ -0,0 +1,126 @@
+import { isAdminEmail } from "@/lib/auth/admin";
+
+export const APP_ROLES = [
+  "viewer",
+  "contact_editor",
+  "sender",
+  "approver",
+  "super_admin"
+] as const;
+
+export type AppRole = (typeof APP_ROLES)[number];
+
+export type AppPermission =
+  | "console:view"
+  | "contacts:edit"
+  | "pdf_passwords:reveal"
+  | "templates:edit"
+  | "filename_patterns:edit"
+  | "emails:send"
+  | "send_jobs:manage"
+  | "users:manage";
+
+// Row level security checks the same map through public.has_app_permission
+// (20260311_add_role_aware_rls.sql, last redefined in
+// 20260315_add_pdf_password_reveal_permission.sql); change both together.
+const ROLE_PERMISSIONS: Record<AppRole, AppPermission[]> = {
+  viewer: ["console:view"],
+  contact_editor: ["console:view", "contacts:edit"],
+  sender: ["console:view", "emails:send", "pdf_passwords:reveal"],
+  approver: [
+    "console:view",
+    "emails:send",
+    "pdf_passwords:reveal",
+    "send_jobs:manage",
+    "templates:edit"
+  ],
+  super_admin: [
+    "console:view",
+    "contacts:edit",
+    "pdf_passwords:reveal",
+    "templates:edit",
+    "filename_patterns:edit",
+    "emails:send",
+    "send_jobs:manage",
+    "users:manage"
+  ]
+};
+
+// Console pages and the permission each needs; "/" only matches the upload page itself.
+const ROUTE_PERMISSIONS: { path: string; permission: AppPermission }[] = [
+  { path: "/contacts", permission: "console:view" },
+  { path: "/templates", permission: "templates:edit" },
+  { path: "/filename-patterns", permission: "filename_patterns:edit" },
+  { path: "/history", permission: "console:view" },
+  { path: "/users", permission: "users:manage" },
+  { path: "/", permission: "console:view" }
+];
+
+export function isAppRole(value: unknown): value is AppRole {
+  return typeof value === "string" && (APP_ROLES as readonly string[]).includes(value);
+}
+
+export function formatAppRole(role: AppRole): string {
+  switch (role) {
+    case "viewer":
+      return "Viewer";
+    case "contact_editor":
+      return "Contact editor";
+    case "sender":
+      return "Sender";
+    case "approver":
+      return "Approver";
+    case "super_admin":
+      return "Super admin";
+  }
+}
+
+// The ALPHA_TECH_X_ADMIN_EMAILS allowlist always grants super admin. "admin" is the role
+// name from before roles were split and is treated the same way.
+export function getEffectiveRole(
+  email: string | null | undefined,
+  role: string | null | undefined
+): AppRole | null {
+  if (isAdminEmail(email)) {
+    return "super_admin";
+  }
+
+  const normalizedRole = String(role ?? "").trim().toLowerCase();
+  if (normalizedRole === "admin") {
+    return "super_admin";
+  }
+
+  return isAppRole(normalizedRole) ? normalizedRole : null;
+}
+
+export function getPermissions(
+  email: string | null | undefined,
+  role: string | null | undefined
+): AppPermission[] {
+  const effectiveRole = getEffectiveRole(email, role);
+  return effectiveRole ? ROLE_PERMISSIONS[effectiveRole] : [];
+}
+
+export function hasPermission(
+  email: string | null | undefined,
+  role: string | null | undefined,
+  permission: AppPermission
+): boolean {
+  return getPermissions(email, role).includes(permission);
+}
+
+// Users without console access land on /user instead of the upload page.
+export function hasConsoleAccess(
+  email: string | null | undefined,
+  role: string | null | undefined
+): boolean {
+  return hasPermission(email, role, "console:view");
+}
+
+export function getRoutePermission(pathname: string): AppPermission | null {
+  const route = ROUTE_PERMISSIONS.find(({ path }) =>
+    path === "/" ? pathname === "/" : pathname === path || pathname.startsWith(`${path}/`)
+  );
+
+  return route?.permission ?? null;
+}
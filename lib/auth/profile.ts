@@ -1,5 +1,4 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
-import { isAdminEmail } from "@/lib/auth/admin";
 
 export type ProfileSummary = {
   role: string | null;
@@ -35,14 +34,3 @@ export async function getProfileForAuthUser(
     user_id: typeof data.user_id === "string" ? data.user_id : null
   };
 }
-
-export function isAdminRole(role: string | null | undefined): boolean {
-  return String(role ?? "").toLowerCase() === "admin";
-}
-
-export function hasAdminAccess(
-  email: string | null | undefined,
-  role: string | null | undefined
-): boolean {
-  return isAdminEmail(email) || isAdminRole(role);
-}
@@ -0,0 +1,37 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { getMfaStatus, isMfaPending } from "@/lib/auth/mfa";
+import { hasPermission, type AppPermission } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
+
+// The signed-in user when their role grants the permission and no MFA step is pending,
+// otherwise null.
+export async function getPermittedUser(
+  supabase: SupabaseClient,
+  permission: AppPermission
+): Promise<User | null> {
+  const {
+    data: claimsData,
+    error: claimsError
+  } = await supabase.auth.getClaims();
+  const isAuthenticated = Boolean(!claimsError && claimsData?.claims);
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null;
+  }
+
+  const profile = await getProfileForAuthUser(supabase, user.id);
+  if (!hasPermission(user.email, profile.role, permission)) {
+    return null;
+  }
+
+  const mfaStatus = await getMfaStatus(supabase, user.email, profile.role);
+  return isMfaPending(mfaStatus) ? null : user;
+}
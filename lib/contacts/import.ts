@@ -0,0 +1,143 @@
+import { RECIPIENT_KINDS } from "@/lib/contacts/recipients";
+import type {
+  Contact,
+  ContactImportRow,
+  ContactRecipient,
+  ContactRecipientInput,
+  RecipientKind
+} from "@/lib/contacts/types";
+
+export const CONTACT_SHEET_COLUMNS = ["account_key", "name", "email", "to", "cc", "bcc"] as const;
+export const MAX_CONTACT_IMPORT_ROWS = 5000;
+
+type ContactSheetColumn = (typeof CONTACT_SHEET_COLUMNS)[number];
+
+const HEADER_ALIASES: Record<string, ContactSheetColumn> = {
+  account: "account_key",
+  accountkey: "account_key",
+  primary_email: "email",
+  to_email: "email",
+  email_address: "email"
+};
+
+const RECIPIENT_CELL_SEPARATOR = /[;\r\n]+/;
+const NAMED_ADDRESS_PATTERN = /^(.*?)\s*<([^<>]+)>$/;
+
+export type ContactSheetResult =
+  | {
+      ok: true;
+      rows: ContactImportRow[];
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+function normalizeHeader(value: string): ContactSheetColumn | null {
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if ((CONTACT_SHEET_COLUMNS as readonly string[]).includes(normalized)) {
+    return normalized as ContactSheetColumn;
+  }
+
+  return HEADER_ALIASES[normalized] ?? null;
+}
+
+// Recipient cells hold bare emails or "Name <email>" entries separated by semicolons or
+// line breaks. Commas are not separators because they are common in display names.
+export function parseRecipientCell(kind: RecipientKind, value: string): ContactRecipientInput[] {
+  return value
+    .split(RECIPIENT_CELL_SEPARATOR)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(NAMED_ADDRESS_PATTERN);
+      if (!match) {
+        return { kind, email: entry, name: null };
+      }
+
+      return {
+        kind,
+        email: match[2].trim(),
+        name: match[1].trim().replace(/^"(.*)"$/, "$1") || null
+      };
+    });
+}
+
+export function formatRecipientCell(recipients: ContactRecipient[], kind: RecipientKind): string {
+  return recipients
+    .filter((recipient) => recipient.kind === kind)
+    .map((recipient) =>
+      recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email
+    )
+    .join("; ");
+}
+
+export function contactsToSheetRows(contacts: Contact[]): string[][] {
+  return [
+    [...CONTACT_SHEET_COLUMNS],
+    ...contacts.map((contact) => [
+      contact.account_key,
+      contact.name ?? "",
+      contact.email,
+      ...RECIPIENT_KINDS.map((kind) => formatRecipientCell(contact.recipients, kind))
+    ])
+  ];
+}
+
+/**
+ * Maps a parsed CSV/XLSX table (header row first) to import rows. Blank lines are
+ * dropped; row_number is the 1-based line in the source file so previews can point at it.
+ */
+export function toContactImportRows(table: string[][]): ContactSheetResult {
+  const header = table[0] ?? [];
+  const columnIndexes = new Map<ContactSheetColumn, number>();
+
+  header.forEach((value, index) => {
+    const column = normalizeHeader(value ?? "");
+    if (column && !columnIndexes.has(column)) {
+      columnIndexes.set(column, index);
+    }
+  });
+
+  if (!columnIndexes.has("account_key") || !columnIndexes.has("email")) {
+    return {
+      ok: false,
+      error: `The first row must be a header with ${CONTACT_SHEET_COLUMNS.join(", ")} columns (account_key and email are required).`
+    };
+  }
+
+  const readCell = (row: string[], column: ContactSheetColumn): string | null => {
+    const index = columnIndexes.get(column);
+    return index === undefined ? null : String(row[index] ?? "").trim();
+  };
+
+  const rows: ContactImportRow[] = [];
+  table.slice(1).forEach((row, index) => {
+    if (row.every((value) => !String(value ?? "").trim())) {
+      return;
+    }
+
+    rows.push({
+      row_number: index + 2,
+      account_key: readCell(row, "account_key") ?? "",
+      name: readCell(row, "name") ?? "",
+      email: readCell(row, "email") ?? "",
+      to: readCell(row, "to"),
+      cc: readCell(row, "cc"),
+      bcc: readCell(row, "bcc")
+    });
+  });
+
+  if (rows.length === 0) {
+    return { ok: false, error: "The file has no contact rows." };
+  }
+
+  if (rows.length > MAX_CONTACT_IMPORT_ROWS) {
+    return {
+      ok: false,
+      error: `The file has ${rows.length} rows; import at most ${MAX_CONTACT_IMPORT_ROWS} at a time.`
+    };
+  }
+
+  return { ok: true, rows };
+}
@@ -0,0 +1,38 @@
+import type { Contact, PdfPasswordMode } from "@/lib/contacts/types";
+
+export const PDF_PASSWORD_MODES: PdfPasswordMode[] = ["none", "derived", "stored"];
+
+export const MIN_PDF_PASSWORD_LENGTH = 4;
+
+const DEFAULT_PDF_PASSWORD_HINTS: Record<PdfPasswordMode, string> = {
+  none: "",
+  derived: "The attached PDF is password protected. Use the password we shared with you for this account.",
+  stored: "The attached PDF is password protected with the password registered for your account."
+};
+
+export function isPdfPasswordMode(value: unknown): value is PdfPasswordMode {
+  return PDF_PASSWORD_MODES.includes(value as PdfPasswordMode);
+}
+
+export function formatPdfPasswordMode(mode: PdfPasswordMode): string {
+  if (mode === "derived") {
+    return "Derived from account key";
+  }
+
+  if (mode === "stored") {
+    return "Stored password";
+  }
+
+  return "No password";
+}
+
+// Text for {{pdf_password_hint}}: the contact's own rule, or a generic line for its mode.
+export function getPdfPasswordHint(
+  contact: Pick<Contact, "pdf_password_mode" | "pdf_password_hint"> | null
+): string {
+  if (!contact || contact.pdf_password_mode === "none") {
+    return "";
+  }
+
+  return contact.pdf_password_hint?.trim() || DEFAULT_PDF_PASSWORD_HINTS[contact.pdf_password_mode];
+}
@@ -0,0 +1,83 @@
+import type { ContactRecipient, RecipientKind } from "@/lib/contacts/types";
+
+export const RECIPIENT_KINDS: RecipientKind[] = ["to", "cc", "bcc"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type RecipientNormalizationResult =
+  | {
+      ok: true;
+      recipients: ContactRecipient[];
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+function isRecipientKind(value: unknown): value is RecipientKind {
+  return RECIPIENT_KINDS.includes(value as RecipientKind);
+}
+
+// Validates the additional recipients of an account. The primary email is always the
+// first "to" address and must not be repeated here.
+export function normalizeRecipients(
+  value: unknown,
+  primaryEmail: string
+): RecipientNormalizationResult {
+  if (value === undefined || value === null) {
+    return { ok: true, recipients: [] };
+  }
+
+  if (!Array.isArray(value)) {
+    return { ok: false, error: "Recipients must be a list." };
+  }
+
+  const seenEmails = new Set([primaryEmail.trim().toLowerCase()]);
+  const recipients: ContactRecipient[] = [];
+
+  for (const item of value) {
+    const entry =
+      item !== null && typeof item === "object"
+        ? (item as Record<string, unknown>)
+        : null;
+    if (!entry) {
+      return { ok: false, error: "Each recipient must be an object." };
+    }
+
+    const email = String(entry.email ?? "").trim().toLowerCase();
+    const name = String(entry.name ?? "").trim();
+    const kind = String(entry.kind ?? "").trim().toLowerCase();
+
+    if (!email && !name) {
+      continue;
+    }
+
+    if (!isRecipientKind(kind)) {
+      return { ok: false, error: `Recipient type must be To, CC or BCC (${email}).` };
+    }
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return {
+        ok: false,
+        error: `Recipient email must be valid (example: name@example.com): ${email || "(empty)"}.`
+      };
+    }
+
+    if (seenEmails.has(email)) {
+      return { ok: false, error: `Recipient ${email} is listed more than once.` };
+    }
+
+    seenEmails.add(email);
+    recipients.push({
+      kind,
+      email,
+      name: name.length > 0 ? name : null
+    });
+  }
+
+  return { ok: true, recipients };
+}
+
+export function formatRecipientKind(kind: RecipientKind): string {
+  return kind === "to" ? "To" : kind.toUpperCase();
+}
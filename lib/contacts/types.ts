@@ -1,19 +1,54 @@
+export type RecipientKind = "to" | "cc" | "bcc";
+
+export type ContactRecipient = {
+  kind: RecipientKind;
+  email: string;
+  name: string | null;
+};
+
+// none: attach the PDF as-is. derived: password computed from the account key and
+// PDF_PASSWORD_SECRET. stored: a per-contact value kept in contact_pdf_passwords.
+export type PdfPasswordMode = "none" | "derived" | "stored";
+
 export type Contact = {
   account_key: string;
   name: string | null;
   email: string;
   updated_at: string;
+  // Last change of the email or the recipient list; other edits only bump updated_at.
+  recipients_changed_at: string;
+  recipients: ContactRecipient[];
+  pdf_password_mode: PdfPasswordMode;
+  pdf_password_hint: string | null;
+  pdf_password_updated_at: string | null;
+};
+
+// password is only sent when it changes; leaving it out keeps the stored value.
+export type ContactPdfProtectionInput = {
+  mode: PdfPasswordMode;
+  hint?: string | null;
+  password?: string;
+};
+
+export type ContactRecipientInput = {
+  kind: RecipientKind;
+  email: string;
+  name?: string | null;
 };
 
 export type ContactUpsertInput = {
   account_key: string;
   name?: string | null;
   email: string;
+  recipients?: ContactRecipientInput[];
+  pdf_protection?: ContactPdfProtectionInput;
 };
 
 export type ContactUpdateInput = {
   name?: string | null;
   email: string;
+  recipients?: ContactRecipientInput[];
+  pdf_protection?: ContactPdfProtectionInput;
 };
 
 export type ContactActionResult =
@@ -24,3 +59,49 @@ export type ContactActionResult =
       ok: false;
       error: string;
     };
+
+// Recipient columns are null when the imported file has no such column, which leaves
+// the existing recipients of that account untouched.
+export type ContactImportRow = {
+  row_number: number;
+  account_key: string;
+  name: string;
+  email: string;
+  to: string | null;
+  cc: string | null;
+  bcc: string | null;
+};
+
+export type ContactImportAction = "create" | "update" | "unchanged" | "conflict" | "invalid";
+
+export type ContactImportChange = {
+  row_number: number;
+  account_key: string;
+  action: ContactImportAction;
+  details: string[];
+};
+
+export type ContactImportSummary = Record<ContactImportAction, number>;
+
+export type ContactImportPreviewResult =
+  | {
+      ok: true;
+      changes: ContactImportChange[];
+      summary: ContactImportSummary;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+export type ContactImportApplyResult =
+  | {
+      ok: true;
+      created: number;
+      updated: number;
+      skipped: number;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
@@ -0,0 +1,174 @@
+import "server-only";
+
+export const MAX_EXTRA_ATTACHMENTS = 10;
+
+// Vercel refuses function request bodies over 4.5 MB before they reach the route, so files and
+// upload requests stay below that unless the deployment allows more.
+const DEFAULT_MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+const DEFAULT_MAX_REQUEST_BODY_BYTES = 4.5 * 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  csv: "text/csv",
+  txt: "text/plain",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  zip: "application/zip"
+};
+
+// Wire format of files sent alongside the bill PDF (send-email body and send_job_items).
+export type ExtraAttachmentInput = {
+  filename: string;
+  content_base64: string;
+};
+
+export type ExtraAttachment = {
+  filename: string;
+  content: Buffer;
+};
+
+export type ExtraAttachmentsResult =
+  | {
+      ok: true;
+      attachments: ExtraAttachmentInput[];
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+export type ExtraAttachmentFilesResult =
+  | {
+      ok: true;
+      attachments: ExtraAttachment[];
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+// Largest single file (bill PDF or extra attachment) a send accepts, from MAX_ATTACHMENT_BYTES.
+export function getMaxAttachmentBytes(): number {
+  const parsed = Number(process.env.MAX_ATTACHMENT_BYTES?.trim() || "");
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_ATTACHMENT_BYTES;
+}
+
+// Largest upload request (one send or one batch of send job items), from MAX_REQUEST_BODY_BYTES.
+export function getMaxRequestBodyBytes(): number {
+  const parsed = Number(process.env.MAX_REQUEST_BODY_BYTES?.trim() || "");
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_REQUEST_BODY_BYTES;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function getAttachmentSizeError(filename: string, bytes: number): string | null {
+  const maxBytes = getMaxAttachmentBytes();
+  if (bytes <= maxBytes) {
+    return null;
+  }
+
+  return `${filename} is ${formatMegabytes(bytes)}; attachments are limited to ${formatMegabytes(
+    maxBytes
+  )}.`;
+}
+
+// Checked from Content-Length before the body is read, so an oversized upload is refused
+// without buffering it.
+export function getRequestBodySizeError(request: Request): string | null {
+  const contentLength = Number(request.headers.get("content-length") ?? "");
+  const maxBytes = getMaxRequestBodyBytes();
+  if (!Number.isFinite(contentLength) || contentLength <= maxBytes) {
+    return null;
+  }
+
+  return `The upload is ${formatMegabytes(contentLength)}; requests are limited to ${formatMegabytes(
+    maxBytes
+  )}.`;
+}
+
+function getAttachmentCountError(count: number): string | null {
+  return count > MAX_EXTRA_ATTACHMENTS
+    ? `At most ${MAX_EXTRA_ATTACHMENTS} extra attachments are allowed.`
+    : null;
+}
+
+function isValidAttachmentFilename(filename: string): boolean {
+  return Boolean(filename) && !/[\\/]/.test(filename);
+}
+
+export function getAttachmentContentType(filename: string): string {
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[extension] ?? "application/octet-stream";
+}
+
+export function normalizeExtraAttachments(value: unknown): ExtraAttachmentsResult {
+  if (value === undefined || value === null) {
+    return { ok: true, attachments: [] };
+  }
+
+  if (!Array.isArray(value)) {
+    return { ok: false, error: "attachments must be a list." };
+  }
+
+  const countError = getAttachmentCountError(value.length);
+  if (countError) {
+    return { ok: false, error: countError };
+  }
+
+  const attachments: ExtraAttachmentInput[] = [];
+  for (const item of value) {
+    const entry =
+      item !== null && typeof item === "object"
+        ? (item as Record<string, unknown>)
+        : null;
+    const filename = String(entry?.filename ?? "").trim();
+    const contentBase64 = String(entry?.content_base64 ?? "").trim();
+
+    if (!isValidAttachmentFilename(filename)) {
+      return { ok: false, error: "Each attachment needs a filename without a path." };
+    }
+
+    if (!contentBase64) {
+      return { ok: false, error: `Attachment ${filename} is empty.` };
+    }
+
+    attachments.push({ filename, content_base64: contentBase64 });
+  }
+
+  return { ok: true, attachments };
+}
+
+export function decodeExtraAttachments(inputs: ExtraAttachmentInput[]): ExtraAttachment[] {
+  return inputs.map((input) => ({
+    filename: input.filename,
+    content: Buffer.from(input.content_base64, "base64")
+  }));
+}
+
+// Binary parts of a multipart send-email or send job items request.
+export async function readExtraAttachmentFiles(
+  values: FormDataEntryValue[]
+): Promise<ExtraAttachmentFilesResult> {
+  const countError = getAttachmentCountError(values.length);
+  if (countError) {
+    return { ok: false, error: countError };
+  }
+
+  const attachments: ExtraAttachment[] = [];
+  for (const value of values) {
+    if (typeof value === "string") {
+      return { ok: false, error: "attachments must be files." };
+    }
+
+    const filename = value.name.trim();
+    if (!isValidAttachmentFilename(filename)) {
+      return { ok: false, error: "Each attachment needs a filename without a path." };
+    }
+
+    attachments.push({ filename, content: Buffer.from(await value.arrayBuffer()) });
+  }
+
+  return { ok: true, attachments };
+}
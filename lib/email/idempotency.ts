@@ -0,0 +1,109 @@
+import "server-only";
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type IdempotencyClaim =
+  | {
+      claimed: true;
+      // Message id of an earlier successful send that this (forced) send replaces.
+      previousMessageId: string | null;
+    }
+  | {
+      claimed: false;
+      status: "sending" | "sent";
+      messageId: string | null;
+      updatedAt: string | null;
+    };
+
+type ClaimRow = {
+  claimed: boolean;
+  existing_status: string | null;
+  existing_message_id: string | null;
+  existing_updated_at: string | null;
+};
+
+export function sha256Hex(value: Buffer | string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+// The same PDF (and the same extra files) from the same ZIP for the same account is the same
+// bill, whoever sends it. A bill without extra files keeps the key it had before they existed.
+export function buildIdempotencyKey(
+  zipFilename: string,
+  accountKey: string,
+  pdfSha256: string,
+  attachmentSha256s: string[] = []
+): string {
+  return sha256Hex([zipFilename, accountKey, pdfSha256, ...attachmentSha256s].join("\n"));
+}
+
+export async function claimIdempotencyKey(
+  supabase: SupabaseClient,
+  input: {
+    key: string;
+    zipFilename: string;
+    accountKey: string;
+    pdfSha256: string;
+    sentByAuthUserId: string;
+    force: boolean;
+  }
+): Promise<IdempotencyClaim> {
+  const { data, error } = await supabase.rpc("claim_send_idempotency_key", {
+    p_key: input.key,
+    p_zip_filename: input.zipFilename,
+    p_account_key: input.accountKey,
+    p_pdf_sha256: input.pdfSha256,
+    p_auth_user_id: input.sentByAuthUserId,
+    p_force: input.force
+  });
+
+  const row = ((data ?? []) as ClaimRow[])[0];
+  if (error || !row) {
+    throw new Error("Failed to check for an earlier send of this bill.");
+  }
+
+  if (row.claimed) {
+    return { claimed: true, previousMessageId: row.existing_message_id };
+  }
+
+  return {
+    claimed: false,
+    status: row.existing_status === "sent" ? "sent" : "sending",
+    messageId: row.existing_message_id,
+    updatedAt: row.existing_updated_at
+  };
+}
+
+export async function completeIdempotencyKey(
+  supabase: SupabaseClient,
+  key: string,
+  messageId: string
+) {
+  const { error } = await supabase
+    .from("send_idempotency_keys")
+    .update({ status: "sent", message_id: messageId, updated_at: new Date().toISOString() })
+    .eq("idempotency_key", key);
+
+  if (error) {
+    console.error("send_idempotency_keys update failed", error);
+  }
+}
+
+// Nothing was delivered: let the bill be sent again, or fall back to the earlier send when a
+// forced resend failed.
+export async function releaseIdempotencyKey(
+  supabase: SupabaseClient,
+  key: string,
+  previousMessageId: string | null
+) {
+  const { error } = previousMessageId
+    ? await supabase
+        .from("send_idempotency_keys")
+        .update({ status: "sent", updated_at: new Date().toISOString() })
+        .eq("idempotency_key", key)
+    : await supabase.from("send_idempotency_keys").delete().eq("idempotency_key", key);
+
+  if (error) {
+    console.error("send_idempotency_keys release failed", error);
+  }
+}
@@ -0,0 +1,57 @@
+import "server-only";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { MimeInlineImage } from "@/lib/email/mime";
+
+const CID_REFERENCE_PATTERN = /cid:([A-Za-z0-9._-]+)/g;
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  ".gif": "image/gif",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp"
+};
+
+function getAssetsDirectory(): string {
+  const configured = process.env.EMAIL_ASSETS_DIR?.trim();
+  return path.resolve(configured || path.join(process.cwd(), "email-assets"));
+}
+
+// HTML templates reference branding images as `cid:<file name>`; each referenced file is
+// read from EMAIL_ASSETS_DIR and attached inline with that Content-ID.
+export async function loadInlineImagesForHtml(html: string | null): Promise<MimeInlineImage[]> {
+  if (!html) {
+    return [];
+  }
+
+  const contentIds = new Set<string>();
+  for (const match of html.matchAll(CID_REFERENCE_PATTERN)) {
+    contentIds.add(match[1]);
+  }
+
+  const assetsDirectory = getAssetsDirectory();
+  const images: MimeInlineImage[] = [];
+
+  for (const contentId of contentIds) {
+    const filename = path.basename(contentId);
+    const contentType = IMAGE_CONTENT_TYPES[path.extname(filename).toLowerCase()];
+    if (!contentType) {
+      throw new Error(`Inline image ${filename} must be a gif, jpg, png, svg or webp file.`);
+    }
+
+    try {
+      images.push({
+        contentId,
+        filename,
+        contentType,
+        content: await readFile(path.join(assetsDirectory, filename))
+      });
+    } catch {
+      throw new Error(`Inline image ${filename} was not found in EMAIL_ASSETS_DIR.`);
+    }
+  }
+
+  return images;
+}
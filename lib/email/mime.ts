@@ -0,0 +1,243 @@
+import "server-only";
+import { randomBytes, randomUUID } from "node:crypto";
+
+const CRLF = "\r\n";
+const MAX_ENCODED_WORD_BYTES = 45;
+const NON_ASCII_PATTERN = /[^\x20-\x7e]/;
+const LONG_LINE_PATTERN = /[^\r\n]{999,}/;
+
+export type MimeAddress = {
+  email: string;
+  name?: string | null;
+};
+
+export type MimeAttachment = {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+};
+
+export type MimeInlineImage = MimeAttachment & {
+  contentId: string;
+};
+
+export type MimeMessageInput = {
+  from: MimeAddress;
+  to: MimeAddress[];
+  cc?: MimeAddress[];
+  bcc?: MimeAddress[];
+  includeBccHeader?: boolean;
+  subject: string;
+  text: string;
+  html?: string | null;
+  inlineImages?: MimeInlineImage[];
+  attachments?: MimeAttachment[];
+};
+
+// `messageId` is the Message-ID header value, angle brackets included.
+export type MimeMessage = {
+  raw: string;
+  messageId: string;
+};
+
+type MimePart = {
+  headers: string[];
+  body: string;
+};
+
+function createBoundary(label: string): string {
+  return `=_${label}_${randomBytes(12).toString("hex")}`;
+}
+
+// Unique id on the sender's domain, so logs can be matched to bounces and delivered copies.
+function createMessageId(senderEmail: string): string {
+  const domain = senderEmail.split("@")[1]?.trim() || "localhost";
+  return `<${randomUUID()}@${domain}>`;
+}
+
+function wrapBase64Lines(value: string): string {
+  return value.replace(/.{1,76}/g, `$&${CRLF}`).trimEnd();
+}
+
+function splitUtf8Chunks(value: string, maxBytes: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const character of value) {
+    const candidate = current + character;
+    if (Buffer.byteLength(candidate, "utf8") > maxBytes && current) {
+      chunks.push(current);
+      current = character;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+// RFC 2047 "B" encoding. Chunks stay on character boundaries so each encoded word
+// decodes on its own, and words are folded onto continuation lines.
+export function encodeHeaderValue(value: string): string {
+  const normalized = value.replace(/[\r\n]+/g, " ");
+
+  if (!NON_ASCII_PATTERN.test(normalized)) {
+    return normalized;
+  }
+
+  return splitUtf8Chunks(normalized, MAX_ENCODED_WORD_BYTES)
+    .map((chunk) => `=?UTF-8?B?${Buffer.from(chunk, "utf8").toString("base64")}?=`)
+    .join(`${CRLF} `);
+}
+
+export function formatAddress(address: MimeAddress): string {
+  const name = address.name?.replace(/[\r\n]+/g, " ").trim();
+  if (!name) {
+    return address.email;
+  }
+
+  if (NON_ASCII_PATTERN.test(name)) {
+    return `${encodeHeaderValue(name)} <${address.email}>`;
+  }
+
+  return `"${name.replace(/["\\]/g, "")}" <${address.email}>`;
+}
+
+function formatAddressList(addresses: MimeAddress[]): string {
+  return addresses.map((address) => formatAddress(address)).join(`,${CRLF} `);
+}
+
+// RFC 2231 parameter encoding for non-ASCII filenames, with an ASCII fallback for
+// clients that only read the plain parameter.
+function formatFilenameParams(parameter: "name" | "filename", filename: string): string {
+  const asciiFallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "");
+
+  if (!NON_ASCII_PATTERN.test(filename)) {
+    return `${parameter}="${asciiFallback}"`;
+  }
+
+  return `${parameter}="${asciiFallback}"; ${parameter}*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function createTextPart(contentType: "text/plain" | "text/html", content: string): MimePart {
+  const normalized = content.replace(/\r?\n/g, CRLF);
+  const needsBase64 =
+    NON_ASCII_PATTERN.test(normalized.replace(/\r\n|\t/g, "")) ||
+    LONG_LINE_PATTERN.test(normalized);
+
+  return {
+    headers: [
+      `Content-Type: ${contentType}; charset="UTF-8"`,
+      `Content-Transfer-Encoding: ${needsBase64 ? "base64" : "7bit"}`
+    ],
+    body: needsBase64
+      ? wrapBase64Lines(Buffer.from(normalized, "utf8").toString("base64"))
+      : normalized
+  };
+}
+
+function createBinaryPart(
+  attachment: MimeAttachment,
+  disposition: "attachment" | "inline",
+  contentId?: string
+): MimePart {
+  const headers = [
+    `Content-Type: ${attachment.contentType}; ${formatFilenameParams("name", attachment.filename)}`,
+    "Content-Transfer-Encoding: base64",
+    `Content-Disposition: ${disposition}; ${formatFilenameParams("filename", attachment.filename)}`
+  ];
+
+  if (contentId) {
+    headers.push(`Content-ID: <${contentId}>`);
+  }
+
+  return {
+    headers,
+    body: wrapBase64Lines(attachment.content.toString("base64"))
+  };
+}
+
+function createMultipart(
+  subtype: "mixed" | "alternative" | "related",
+  parts: MimePart[]
+): MimePart {
+  const boundary = createBoundary(subtype);
+  const lines: string[] = [];
+
+  for (const part of parts) {
+    lines.push(`--${boundary}`, ...part.headers, "", part.body);
+  }
+
+  lines.push(`--${boundary}--`);
+
+  const contentType =
+    subtype === "related"
+      ? `multipart/related; type="text/html"; boundary="${boundary}"`
+      : `multipart/${subtype}; boundary="${boundary}"`;
+
+  return {
+    headers: [`Content-Type: ${contentType}`],
+    body: lines.join(CRLF)
+  };
+}
+
+function createBodyPart(input: MimeMessageInput): MimePart {
+  const textPart = createTextPart("text/plain", input.text);
+
+  if (!input.html) {
+    return textPart;
+  }
+
+  const inlineImages = input.inlineImages ?? [];
+  const htmlPart =
+    inlineImages.length > 0
+      ? createMultipart("related", [
+          createTextPart("text/html", input.html),
+          ...inlineImages.map((image) => createBinaryPart(image, "inline", image.contentId))
+        ])
+      : createTextPart("text/html", input.html);
+
+  return createMultipart("alternative", [textPart, htmlPart]);
+}
+
+/**
+ * Builds an RFC 5322 message: multipart/mixed wrapping the body
+ * (text/plain, or multipart/alternative with an HTML part that may itself be
+ * multipart/related for Content-ID images) followed by the file attachments.
+ */
+export function buildMimeMessage(input: MimeMessageInput): MimeMessage {
+  const bodyPart = createBodyPart(input);
+  const attachments = input.attachments ?? [];
+  const rootPart =
+    attachments.length > 0
+      ? createMultipart("mixed", [
+          bodyPart,
+          ...attachments.map((attachment) => createBinaryPart(attachment, "attachment"))
+        ])
+      : bodyPart;
+
+  const cc = input.cc ?? [];
+  const bcc = input.includeBccHeader ? input.bcc ?? [] : [];
+
+  const messageId = createMessageId(input.from.email);
+  const raw = [
+    `From: ${formatAddress(input.from)}`,
+    `To: ${formatAddressList(input.to)}`,
+    ...(cc.length > 0 ? [`Cc: ${formatAddressList(cc)}`] : []),
+    ...(bcc.length > 0 ? [`Bcc: ${formatAddressList(bcc)}`] : []),
+    `Subject: ${encodeHeaderValue(input.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+    ...rootPart.headers,
+    "",
+    rootPart.body,
+    ""
+  ].join(CRLF);
+
+  return { raw, messageId };
+}
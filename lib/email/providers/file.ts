@@ -0,0 +1,38 @@
+import "server-only";
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EmailProvider } from "@/lib/email/providers/types";
+
+function getSinkDirectory(): string {
+  const configured = process.env.EMAIL_FILE_SINK_DIR?.trim();
+  return path.resolve(configured || path.join(process.cwd(), ".email-sink"));
+}
+
+// Local testing sink: each message is written as an .eml file instead of being delivered.
+export const fileProvider: EmailProvider = {
+  name: "file",
+  senderEnvName: "EMAIL_FILE_SINK_SENDER",
+  includeBccHeader: true,
+  getSenderEmail() {
+    return process.env.EMAIL_FILE_SINK_SENDER?.trim() || "bills@localhost.test";
+  },
+  getMinSendIntervalMs() {
+    return 0;
+  },
+  getDailySendLimit() {
+    return null;
+  },
+  async send(message) {
+    const directory = getSinkDirectory();
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`;
+
+    await mkdir(directory, { recursive: true });
+    await writeFile(path.join(directory, filename), message.raw, "utf8");
+
+    return {
+      messageId: message.messageId,
+      threadId: null
+    };
+  }
+};
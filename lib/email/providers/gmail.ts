@@ -0,0 +1,47 @@
+import "server-only";
+import { getGmailClient } from "@/lib/email/gmail";
+import { readIntegerEnv, type EmailProvider } from "@/lib/email/providers/types";
+
+// Gmail caps consumer accounts at 500 messages a day and Workspace accounts at 2000.
+const DEFAULT_DAILY_SEND_LIMIT = 500;
+const DEFAULT_MIN_SEND_INTERVAL_MS = 400;
+
+function base64UrlEncode(value: string): string {
+  return Buffer.from(value)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/g, "");
+}
+
+export const gmailProvider: EmailProvider = {
+  name: "gmail",
+  senderEnvName: "GMAIL_SENDER_EMAIL",
+  includeBccHeader: true,
+  getSenderEmail() {
+    return process.env.GMAIL_SENDER_EMAIL?.trim() || null;
+  },
+  getMinSendIntervalMs() {
+    return readIntegerEnv("GMAIL_MIN_SEND_INTERVAL_MS") ?? DEFAULT_MIN_SEND_INTERVAL_MS;
+  },
+  getDailySendLimit() {
+    return readIntegerEnv("GMAIL_DAILY_SEND_LIMIT") ?? DEFAULT_DAILY_SEND_LIMIT;
+  },
+  async send(message) {
+    const { gmail } = getGmailClient();
+    const sendResult = await gmail.users.messages.send({
+      userId: "me",
+      requestBody: { raw: base64UrlEncode(message.raw) }
+    });
+
+    const messageId = sendResult.data.id ?? null;
+    if (!messageId) {
+      throw new Error("Failed to send email.");
+    }
+
+    return {
+      messageId,
+      threadId: sendResult.data.threadId ?? null
+    };
+  }
+};
@@ -0,0 +1,25 @@
+import "server-only";
+import { fileProvider } from "@/lib/email/providers/file";
+import { gmailProvider } from "@/lib/email/providers/gmail";
+import { smtpProvider } from "@/lib/email/providers/smtp";
+import type { EmailProvider, EmailProviderName } from "@/lib/email/providers/types";
+
+const PROVIDERS: Record<EmailProviderName, EmailProvider> = {
+  gmail: gmailProvider,
+  smtp: smtpProvider,
+  file: fileProvider
+};
+
+export function getEmailProviderName(): EmailProviderName {
+  const configured = process.env.EMAIL_PROVIDER?.trim().toLowerCase() ?? "";
+
+  if (configured === "smtp" || configured === "file") {
+    return configured;
+  }
+
+  return "gmail";
+}
+
+export function getEmailProvider(): EmailProvider {
+  return PROVIDERS[getEmailProviderName()];
+}
@@ -0,0 +1,66 @@
+import "server-only";
+import nodemailer, { type Transporter } from "nodemailer";
+import { readIntegerEnv, type EmailProvider } from "@/lib/email/providers/types";
+
+let cachedTransport: Transporter | null = null;
+
+function getRequiredEnv(name: string): string {
+  const value = process.env[name]?.trim();
+
+  if (!value) {
+    throw new Error(`${name} is missing.`);
+  }
+
+  return value;
+}
+
+function getTransport(): Transporter {
+  if (cachedTransport) {
+    return cachedTransport;
+  }
+
+  const port = Number(process.env.SMTP_PORT?.trim() || "587");
+  const user = process.env.SMTP_USER?.trim();
+
+  cachedTransport = nodemailer.createTransport({
+    host: getRequiredEnv("SMTP_HOST"),
+    port,
+    secure: process.env.SMTP_SECURE?.trim() === "true" || port === 465,
+    auth: user
+      ? {
+          user,
+          pass: getRequiredEnv("SMTP_PASSWORD")
+        }
+      : undefined
+  });
+
+  return cachedTransport;
+}
+
+export const smtpProvider: EmailProvider = {
+  name: "smtp",
+  senderEnvName: "SMTP_SENDER_EMAIL",
+  includeBccHeader: false,
+  getSenderEmail() {
+    return process.env.SMTP_SENDER_EMAIL?.trim() || null;
+  },
+  getMinSendIntervalMs() {
+    return readIntegerEnv("SMTP_MIN_SEND_INTERVAL_MS") ?? 0;
+  },
+  getDailySendLimit() {
+    return readIntegerEnv("SMTP_DAILY_SEND_LIMIT");
+  },
+  async send(message, envelope) {
+    // Nodemailer's own info.messageId only names the SMTP transaction; the raw message
+    // carries the Message-ID recipients and bounces see.
+    await getTransport().sendMail({
+      envelope,
+      raw: message.raw
+    });
+
+    return {
+      messageId: message.messageId,
+      threadId: null
+    };
+  }
+};
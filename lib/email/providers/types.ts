@@ -0,0 +1,47 @@
+import type { MimeMessage } from "@/lib/email/mime";
+
+export type EmailProviderName = "gmail" | "smtp" | "file";
+
+export type EmailEnvelope = {
+  from: string;
+  to: string[];
+};
+
+export type ProviderSendResult = {
+  messageId: string;
+  threadId: string | null;
+};
+
+export interface EmailProvider {
+  readonly name: EmailProviderName;
+  readonly senderEnvName: string;
+  // Gmail API reads BCC recipients from the Bcc header (and strips it before delivery);
+  // SMTP delivers BCC through the envelope only.
+  readonly includeBccHeader: boolean;
+  getSenderEmail(): string | null;
+  // Smallest gap between two sends from one server instance, and the most messages the
+  // sender may send in a rolling day (null when the provider has no known cap).
+  getMinSendIntervalMs(): number;
+  getDailySendLimit(): number | null;
+  // SMTP and the file sink report the message's own Message-ID; Gmail reports its API id.
+  send(message: MimeMessage, envelope: EmailEnvelope): Promise<ProviderSendResult>;
+}
+
+export type SenderQuota = {
+  provider: EmailProviderName;
+  sender_email: string;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  window_hours: number;
+};
+
+export function readIntegerEnv(name: string): number | null {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
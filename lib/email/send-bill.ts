@@ -0,0 +1,407 @@
+import "server-only";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ContactRecipient, RecipientKind } from "@/lib/contacts/types";
+import { getAttachmentContentType, type ExtraAttachment } from "@/lib/email/attachments";
+import {
+  buildIdempotencyKey,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  sha256Hex,
+  type IdempotencyClaim
+} from "@/lib/email/idempotency";
+import { loadInlineImagesForHtml } from "@/lib/email/inline-images";
+import { buildMimeMessage } from "@/lib/email/mime";
+import { getEmailProvider } from "@/lib/email/providers";
+import type {
+  EmailProvider,
+  EmailProviderName,
+  SenderQuota
+} from "@/lib/email/providers/types";
+import { classifySendError, getSenderQuota, sendWithThrottle } from "@/lib/email/throttle";
+import { encryptPdf, getPdfProtection } from "@/lib/pdf/protect";
+import { getBillStorageMode } from "@/lib/storage";
+import { storeDocument } from "@/lib/storage/archive";
+import { renderEmailTemplate } from "@/lib/templates/render";
+import type { EmailTemplateContent } from "@/lib/templates/types";
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const EMAIL_IN_TEXT_PATTERN = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
+
+export type SendLogInput = {
+  zip_filename: string;
+  account_key: string;
+  trade_date: string | null;
+  to_email: string;
+  to_name: string | null;
+  recipient_type: RecipientKind;
+  status: "sent" | "failed";
+  error: string | null;
+  message_id: string | null;
+  sent_by_auth_user_id: string;
+  provider: EmailProviderName;
+  sender_email: string | null;
+  idempotency_key: string | null;
+  forced_reason: string | null;
+  pdf_sha256: string | null;
+  pdf_document_id: string | null;
+  zip_document_id: string | null;
+  attachment_filenames: string[];
+  attachment_document_ids: string[];
+};
+
+export type SendOutcome = Pick<SendLogInput, "status" | "error" | "message_id">;
+
+export type EmailSender = {
+  provider: EmailProviderName;
+  email: string | null;
+};
+
+export type SendBillInput = {
+  zipFilename: string;
+  accountKey: string;
+  tradeDate: string | null;
+  toEmail: string;
+  toName: string | null;
+  recipients: ContactRecipient[];
+  filename: string;
+  pdfBuffer: Buffer;
+  sentByAuthUserId: string;
+  template: EmailTemplateContent;
+  // Set to resend a bill that was already sent; recorded in send_logs.forced_reason.
+  forcedReason?: string | null;
+  // Archived upload this bill came from (stored_documents), when bill storage is on.
+  zipDocumentId?: string | null;
+  // The account's other files from the ZIP, attached after the bill PDF.
+  extraAttachments?: ExtraAttachment[];
+  // Values for {{var.<name>}} template placeholders.
+  variables?: Record<string, string>;
+};
+
+export type DuplicateSend = {
+  status: "sending" | "sent";
+  message_id: string | null;
+  updated_at: string | null;
+};
+
+export type SendBillResult =
+  | {
+      ok: true;
+      messageId: string;
+      threadId: string | null;
+    }
+  | {
+      ok: false;
+      error: string;
+      // Set when nothing was sent because the sender's daily quota is used up; the caller
+      // should retry later instead of treating the bill as failed.
+      deferred?: boolean;
+      // Set when the same bill was already sent (or is being sent) and the send was not forced.
+      duplicate?: DuplicateSend;
+    };
+
+export function maskEmail(email: string): string {
+  const normalized = email.trim().toLowerCase();
+  const [local, domain] = normalized.split("@");
+
+  if (!local || !domain) {
+    return "***";
+  }
+
+  if (local.length <= 2) {
+    return `${local[0] ?? "*"}***@${domain}`;
+  }
+
+  return `${local.slice(0, 2)}***@${domain}`;
+}
+
+export function sanitizeErrorMessage(message: string): string {
+  return message.replace(EMAIL_IN_TEXT_PATTERN, (match) => maskEmail(match));
+}
+
+export function getSenderEmail(provider: EmailProvider): string | null {
+  const senderEmail = provider.getSenderEmail();
+  if (!senderEmail || !EMAIL_PATTERN.test(senderEmail)) {
+    return null;
+  }
+
+  return senderEmail;
+}
+
+export function getMissingSenderMessage(provider: EmailProvider): string {
+  return `${provider.senderEnvName} is missing or invalid.`;
+}
+
+// Rolling-day quota of the configured sender, or null when no valid sender is configured.
+export async function getConfiguredSenderQuota(
+  supabase: SupabaseClient
+): Promise<SenderQuota | null> {
+  const provider = getEmailProvider();
+  const senderEmail = getSenderEmail(provider);
+  return senderEmail ? getSenderQuota(supabase, provider, senderEmail) : null;
+}
+
+export async function writeSendLogs(supabase: SupabaseClient, logs: SendLogInput[]) {
+  try {
+    const { error } = await supabase.from("send_logs").insert(logs);
+
+    if (error) {
+      console.error("send_logs insert failed");
+    }
+  } catch {
+    console.error("send_logs insert failed");
+  }
+}
+
+// One send_logs row per recipient (primary To first, then extra To/CC/BCC), all sharing
+// the same outcome and message id.
+export async function logSendOutcome(
+  supabase: SupabaseClient,
+  input: Omit<SendBillInput, "filename" | "pdfBuffer" | "template"> & {
+    idempotencyKey?: string | null;
+    pdfSha256?: string | null;
+    pdfDocumentId?: string | null;
+    attachmentFilenames?: string[];
+    attachmentDocumentIds?: string[];
+  },
+  sender: EmailSender,
+  outcome: SendOutcome
+) {
+  const recipients: ContactRecipient[] = [
+    { kind: "to", email: input.toEmail, name: input.toName },
+    ...input.recipients
+  ];
+
+  await writeSendLogs(
+    supabase,
+    recipients.map((recipient) => ({
+      zip_filename: input.zipFilename,
+      account_key: input.accountKey,
+      trade_date: input.tradeDate,
+      to_email: recipient.email,
+      to_name: recipient.name,
+      recipient_type: recipient.kind,
+      sent_by_auth_user_id: input.sentByAuthUserId,
+      provider: sender.provider,
+      sender_email: sender.email,
+      idempotency_key: input.idempotencyKey ?? null,
+      forced_reason: input.forcedReason ?? null,
+      pdf_sha256: input.pdfSha256 ?? null,
+      pdf_document_id: input.pdfDocumentId ?? null,
+      zip_document_id: input.zipDocumentId ?? null,
+      attachment_filenames: input.attachmentFilenames ?? [],
+      attachment_document_ids: input.attachmentDocumentIds ?? [],
+      ...outcome
+    }))
+  );
+}
+
+/**
+ * Sends one bill PDF through the configured email provider and writes the matching send_logs row.
+ * Shared by the interactive send route and the background send job worker.
+ */
+export async function sendBillEmail(
+  supabase: SupabaseClient,
+  input: SendBillInput
+): Promise<SendBillResult> {
+  const provider = getEmailProvider();
+
+  const senderEmail = getSenderEmail(provider);
+  if (!senderEmail) {
+    const message = getMissingSenderMessage(provider);
+    await logSendOutcome(supabase, input, { provider: provider.name, email: null }, {
+      status: "failed",
+      error: message,
+      message_id: null
+    });
+    return { ok: false, error: message };
+  }
+
+  const sender: EmailSender = { provider: provider.name, email: senderEmail };
+  const quota = await getSenderQuota(supabase, provider, senderEmail);
+  if (quota.remaining === 0) {
+    return {
+      ok: false,
+      error: `Daily send limit of ${quota.limit} reached for ${senderEmail}.`,
+      deferred: true
+    };
+  }
+
+  const forcedReason = input.forcedReason?.trim() || null;
+  const extraAttachments = input.extraAttachments ?? [];
+  const pdfSha256 = sha256Hex(input.pdfBuffer);
+  const idempotencyKey = buildIdempotencyKey(
+    input.zipFilename,
+    input.accountKey,
+    pdfSha256,
+    extraAttachments.map((attachment) => sha256Hex(attachment.content))
+  );
+  const logInput = {
+    ...input,
+    forcedReason,
+    idempotencyKey,
+    pdfSha256,
+    attachmentFilenames: [
+      input.filename,
+      ...extraAttachments.map((attachment) => attachment.filename)
+    ]
+  };
+
+  let claim: IdempotencyClaim;
+  try {
+    claim = await claimIdempotencyKey(supabase, {
+      key: idempotencyKey,
+      zipFilename: input.zipFilename,
+      accountKey: input.accountKey,
+      pdfSha256,
+      sentByAuthUserId: input.sentByAuthUserId,
+      force: forcedReason !== null
+    });
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Failed to send email."
+    };
+  }
+
+  if (!claim.claimed) {
+    return {
+      ok: false,
+      error:
+        claim.status === "sent"
+          ? `This bill was already sent to ${input.accountKey}.`
+          : `This bill is already being sent to ${input.accountKey}.`,
+      duplicate: {
+        status: claim.status,
+        message_id: claim.messageId,
+        updated_at: claim.updatedAt
+      }
+    };
+  }
+
+  let pdfDocumentId: string | null = null;
+  const attachmentDocumentIds: string[] = [];
+
+  try {
+    const protection = await getPdfProtection(input.accountKey);
+    const { subject, text, html } = renderEmailTemplate(input.template, {
+      name: input.toName,
+      account_key: input.accountKey,
+      trade_date: input.tradeDate,
+      zip_filename: input.zipFilename,
+      pdf_password_hint: protection.hint,
+      custom: input.variables
+    });
+
+    if (getBillStorageMode()) {
+      // Archive before sending so every sent bill can be produced for audit later.
+      const document = await storeDocument({
+        kind: "pdf",
+        content: input.pdfBuffer,
+        filename: input.filename,
+        uploadedByAuthUserId: input.sentByAuthUserId
+      });
+      pdfDocumentId = document.id;
+
+      for (const attachment of extraAttachments) {
+        const attachmentDocument = await storeDocument({
+          kind: "attachment",
+          content: attachment.content,
+          filename: attachment.filename,
+          uploadedByAuthUserId: input.sentByAuthUserId
+        });
+        attachmentDocumentIds.push(attachmentDocument.id);
+      }
+    }
+
+    const encryptIfProtected = async (filename: string, content: Buffer) =>
+      protection.password && getAttachmentContentType(filename) === "application/pdf"
+        ? encryptPdf(content, protection.password)
+        : content;
+
+    const message = buildMimeMessage({
+      from: { email: senderEmail },
+      to: [
+        { email: input.toEmail, name: input.toName },
+        ...input.recipients.filter((recipient) => recipient.kind === "to")
+      ],
+      cc: input.recipients.filter((recipient) => recipient.kind === "cc"),
+      bcc: input.recipients.filter((recipient) => recipient.kind === "bcc"),
+      includeBccHeader: provider.includeBccHeader,
+      subject,
+      text,
+      html,
+      inlineImages: await loadInlineImagesForHtml(html),
+      attachments: [
+        {
+          filename: input.filename,
+          contentType: "application/pdf",
+          content: await encryptIfProtected(input.filename, input.pdfBuffer)
+        },
+        ...(await Promise.all(
+          extraAttachments.map(async (attachment) => ({
+            filename: attachment.filename,
+            contentType: getAttachmentContentType(attachment.filename),
+            content: await encryptIfProtected(attachment.filename, attachment.content)
+          }))
+        ))
+      ]
+    });
+
+    const { messageId, threadId } = await sendWithThrottle(provider, () =>
+      provider.send(message, {
+        from: senderEmail,
+        to: [input.toEmail, ...input.recipients.map((recipient) => recipient.email)]
+      })
+    );
+
+    await completeIdempotencyKey(supabase, idempotencyKey, messageId);
+    await logSendOutcome(
+      supabase,
+      { ...logInput, pdfDocumentId, attachmentDocumentIds },
+      sender,
+      {
+        status: "sent",
+        error: null,
+        message_id: messageId
+      }
+    );
+
+    return { ok: true, messageId, threadId };
+  } catch (error) {
+    const message = sanitizeErrorMessage(
+      error instanceof Error && error.message.trim()
+        ? error.message
+        : "Failed to send email."
+    );
+
+    await releaseIdempotencyKey(supabase, idempotencyKey, claim.previousMessageId);
+
+    if (classifySendError(error).kind === "quota") {
+      console.warn("send-email deferred: provider quota exceeded", {
+        account_key: input.accountKey,
+        provider: provider.name
+      });
+      return { ok: false, error: message, deferred: true };
+    }
+
+    await logSendOutcome(
+      supabase,
+      { ...logInput, pdfDocumentId, attachmentDocumentIds },
+      sender,
+      {
+        status: "failed",
+        error: message,
+        message_id: null
+      }
+    );
+
+    console.error("send-email failed", {
+      account_key: input.accountKey,
+      to: maskEmail(input.toEmail),
+      provider: provider.name
+    });
+
+    return { ok: false, error: message };
+  }
+}
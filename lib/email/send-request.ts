@@ -0,0 +1,26 @@
+// multipart/form-data layout of POST /api/send-email: the JSON fields go in "metadata" and the
+// files are sent as binary parts, so large bills are not inflated by base64.
+export const SEND_EMAIL_METADATA_FIELD = "metadata";
+export const SEND_EMAIL_PDF_FIELD = "pdf";
+export const SEND_EMAIL_ATTACHMENT_FIELD = "attachments";
+
+export type SendEmailFile = {
+  filename: string;
+  content: Blob;
+};
+
+export function buildSendEmailFormData(
+  metadata: Record<string, unknown>,
+  pdf: SendEmailFile,
+  attachments: SendEmailFile[]
+): FormData {
+  const formData = new FormData();
+  formData.append(SEND_EMAIL_METADATA_FIELD, JSON.stringify(metadata));
+  formData.append(SEND_EMAIL_PDF_FIELD, pdf.content, pdf.filename);
+
+  for (const attachment of attachments) {
+    formData.append(SEND_EMAIL_ATTACHMENT_FIELD, attachment.content, attachment.filename);
+  }
+
+  return formData;
+}
@@ -0,0 +1,198 @@
+import "server-only";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { EmailProvider, SenderQuota } from "@/lib/email/providers/types";
+
+const QUOTA_WINDOW_HOURS = 24;
+const MAX_SEND_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 16000;
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ESOCKET"
+]);
+const RETRYABLE_SMTP_CODES = new Set([421, 450, 451, 452]);
+const QUOTA_REASONS = new Set(["dailyLimitExceeded", "quotaExceeded"]);
+
+export type SendErrorKind = "retryable" | "quota" | "fatal";
+
+type SendErrorDetails = {
+  kind: SendErrorKind;
+  retryAfterMs: number | null;
+};
+
+type ErrorShape = {
+  code?: unknown;
+  status?: unknown;
+  responseCode?: unknown;
+  response?: {
+    status?: unknown;
+    headers?: Record<string, unknown>;
+    data?: {
+      error?: {
+        errors?: { reason?: unknown }[];
+      };
+    };
+  };
+  message?: unknown;
+};
+
+// Next time this server instance may hand a message to the provider. Pacing is per
+// instance; the rolling daily quota below is what holds across instances.
+let nextSendAt = 0;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function readStatus(error: ErrorShape): number | null {
+  for (const value of [error.response?.status, error.status, error.code]) {
+    const status = typeof value === "string" ? Number(value) : value;
+    if (typeof status === "number" && Number.isInteger(status) && status >= 100) {
+      return status;
+    }
+  }
+
+  return null;
+}
+
+function readRetryAfterMs(error: ErrorShape): number | null {
+  const header = error.response?.headers?.["retry-after"];
+  if (typeof header !== "string" || !header.trim()) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function classifySendError(error: unknown): SendErrorDetails {
+  if (!error || typeof error !== "object") {
+    return { kind: "fatal", retryAfterMs: null };
+  }
+
+  const shape = error as ErrorShape;
+  const reasons = (shape.response?.data?.error?.errors ?? []).map((entry) =>
+    String(entry.reason ?? "")
+  );
+  const message = typeof shape.message === "string" ? shape.message : "";
+
+  // Gmail reports the daily cap as 403/429 with a dailyLimitExceeded reason; Gmail SMTP
+  // answers 550 5.4.5. Retrying either is pointless until the window rolls over.
+  if (reasons.some((reason) => QUOTA_REASONS.has(reason)) || /\b5\.4\.5\b/.test(message)) {
+    return { kind: "quota", retryAfterMs: null };
+  }
+
+  const status = readStatus(shape);
+  const isRateLimited =
+    status === 429 ||
+    reasons.some((reason) => reason === "rateLimitExceeded" || reason === "userRateLimitExceeded");
+
+  if (isRateLimited || (status !== null && status >= 500 && status < 600)) {
+    return { kind: "retryable", retryAfterMs: readRetryAfterMs(shape) };
+  }
+
+  if (typeof shape.responseCode === "number" && RETRYABLE_SMTP_CODES.has(shape.responseCode)) {
+    return { kind: "retryable", retryAfterMs: null };
+  }
+
+  if (typeof shape.code === "string" && RETRYABLE_NETWORK_CODES.has(shape.code)) {
+    return { kind: "retryable", retryAfterMs: null };
+  }
+
+  return { kind: "fatal", retryAfterMs: null };
+}
+
+export async function getSenderQuota(
+  supabase: SupabaseClient,
+  provider: EmailProvider,
+  senderEmail: string
+): Promise<SenderQuota> {
+  const limit = provider.getDailySendLimit();
+  const quota: SenderQuota = {
+    provider: provider.name,
+    sender_email: senderEmail,
+    limit,
+    used: 0,
+    remaining: limit,
+    window_hours: QUOTA_WINDOW_HOURS
+  };
+
+  if (limit === null) {
+    return quota;
+  }
+
+  const since = new Date(Date.now() - QUOTA_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase.rpc("count_sender_messages", {
+    p_sender_email: senderEmail,
+    p_since: since
+  });
+
+  if (error) {
+    // Without a count the provider's own limit still applies; do not block sends on it.
+    console.error("count_sender_messages failed", error);
+    return quota;
+  }
+
+  const used = typeof data === "number" ? data : 0;
+  return {
+    ...quota,
+    used,
+    remaining: Math.max(0, limit - used)
+  };
+}
+
+async function waitForSendSlot(intervalMs: number) {
+  const now = Date.now();
+  const sendAt = Math.max(now, nextSendAt);
+  nextSendAt = sendAt + intervalMs;
+
+  if (sendAt > now) {
+    await sleep(sendAt - now);
+  }
+}
+
+function getBackoffMs(attempt: number, retryAfterMs: number | null): number {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.min(MAX_BACKOFF_MS, Math.max(jittered, retryAfterMs ?? 0));
+}
+
+/**
+ * Paces calls to provider.send and retries rate-limit, 5xx and transient network errors with
+ * exponential backoff. Anything else, including an exhausted daily quota, is rethrown as is.
+ */
+export async function sendWithThrottle<Result>(
+  provider: EmailProvider,
+  send: () => Promise<Result>
+): Promise<Result> {
+  const intervalMs = provider.getMinSendIntervalMs();
+
+  for (let attempt = 1; ; attempt += 1) {
+    await waitForSendSlot(intervalMs);
+
+    try {
+      return await send();
+    } catch (error) {
+      const { kind, retryAfterMs } = classifySendError(error);
+      if (kind !== "retryable" || attempt >= MAX_SEND_ATTEMPTS) {
+        throw error;
+      }
+
+      const backoffMs = getBackoffMs(attempt, retryAfterMs);
+      console.warn("email send retry", {
+        provider: provider.name,
+        attempt,
+        backoff_ms: Math.round(backoffMs)
+      });
+      await sleep(backoffMs);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import type { FilenamePatternRule, FilenameRowType } from "@/lib/filename-patterns/types";
+
+export const FILENAME_ROW_TYPES: FilenameRowType[] = ["bill", "admin", "attachment"];
+
+export const ADMIN_ACCOUNT_KEY = "Admin";
+
+// Same rules as the hardcoded parser they replace, in the same order. Used when no patterns
+// are configured; the filename_patterns migration seeds identical rows.
+export const DEFAULT_FILENAME_PATTERNS: FilenamePatternRule[] = [
+  {
+    name: "Admin bill",
+    pattern: "^Bill_Admin_(?<trade_date>.*)\\.pdf$",
+    row_type: "admin"
+  },
+  {
+    name: "Admin summary",
+    pattern: "^Summary_Admin(?:.*_(?<trade_date>[^_]+))?\\.pdf$",
+    row_type: "admin"
+  },
+  {
+    name: "Bill",
+    pattern: "^Bill_(?<account>[^_]+)_(?<trade_date>.*)\\.pdf$",
+    row_type: "bill"
+  },
+  {
+    name: "Other account file",
+    pattern: "^[^_]+_(?<account>[^_]+)_(?<trade_date>.+)\\.(?:pdf|csv|xlsx|xls)$",
+    row_type: "attachment"
+  }
+];
+
+export type CompiledFilenamePattern = FilenamePatternRule & {
+  regex: RegExp;
+};
+
+export type FilenameMatch = {
+  rule: FilenamePatternRule;
+  row_type: FilenameRowType;
+  account_key: string;
+  trade_date: string | null;
+};
+
+export function isFilenameRowType(value: unknown): value is FilenameRowType {
+  return FILENAME_ROW_TYPES.includes(value as FilenameRowType);
+}
+
+export function formatFilenameRowType(rowType: FilenameRowType): string {
+  if (rowType === "admin") {
+    return "Admin PDF";
+  }
+
+  if (rowType === "attachment") {
+    return "Attachment";
+  }
+
+  return "Bill";
+}
+
+// Patterns are matched case-insensitively against the file name without its folder.
+export function compileFilenamePattern(pattern: string): RegExp | string {
+  try {
+    return new RegExp(pattern, "i");
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid regular expression.";
+  }
+}
+
+export function validateFilenamePatternRule(rule: FilenamePatternRule): string | null {
+  if (!rule.name.trim()) {
+    return "Pattern name is required.";
+  }
+
+  if (!rule.pattern.trim()) {
+    return "Pattern is required.";
+  }
+
+  const regex = compileFilenamePattern(rule.pattern);
+  if (typeof regex === "string") {
+    return `Invalid pattern: ${regex}`;
+  }
+
+  if (rule.row_type !== "admin" && !rule.pattern.includes("(?<account>")) {
+    return "Bill and attachment patterns need an (?<account>...) capture.";
+  }
+
+  return null;
+}
+
+export function compileFilenamePatterns(rules: FilenamePatternRule[]): {
+  patterns: CompiledFilenamePattern[];
+  errors: string[];
+} {
+  const patterns: CompiledFilenamePattern[] = [];
+  const errors: string[] = [];
+
+  for (const rule of rules) {
+    const error = validateFilenamePatternRule(rule);
+    if (error) {
+      errors.push(`Filename pattern "${rule.name}" was skipped: ${error}`);
+      continue;
+    }
+
+    patterns.push({ ...rule, regex: new RegExp(rule.pattern, "i") });
+  }
+
+  return { patterns, errors };
+}
+
+// First pattern that matches wins, so specific patterns belong before general ones.
+export function matchFilename(
+  baseName: string,
+  patterns: CompiledFilenamePattern[]
+): FilenameMatch | null {
+  for (const pattern of patterns) {
+    const match = pattern.regex.exec(baseName);
+    if (!match) {
+      continue;
+    }
+
+    const accountKey =
+      match.groups?.account?.trim() || (pattern.row_type === "admin" ? ADMIN_ACCOUNT_KEY : "");
+    if (!accountKey) {
+      continue;
+    }
+
+    return {
+      rule: pattern,
+      row_type: pattern.row_type,
+      account_key: accountKey,
+      trade_date: match.groups?.trade_date?.trim() || null
+    };
+  }
+
+  return null;
+}
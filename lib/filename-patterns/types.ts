@@ -0,0 +1,35 @@
+// bill: one email per match. admin: internal admin PDFs, kept next to a manifest's rows.
+// attachment: sent with the bill of the same account (and trade date, when captured).
+export type FilenameRowType = "bill" | "admin" | "attachment";
+
+export type FilenamePattern = {
+  id: string;
+  name: string;
+  pattern: string;
+  row_type: FilenameRowType;
+  position: number;
+  enabled: boolean;
+  updated_at: string;
+};
+
+// What the ZIP parser needs from a pattern; the built-in defaults have no database row.
+export type FilenamePatternRule = Pick<FilenamePattern, "name" | "pattern" | "row_type">;
+
+export type FilenamePatternInput = {
+  name: string;
+  pattern: string;
+  row_type: FilenameRowType;
+  position: number;
+  enabled: boolean;
+};
+
+export type FilenamePatternActionResult =
+  | {
+      ok: true;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+export const FILENAME_PATTERN_COLUMNS = "id,name,pattern,row_type,position,enabled,updated_at";
@@ -0,0 +1,96 @@
+import type { ContactRecipient } from "@/lib/contacts/types";
+
+// Shape of manifest.json inside a bill ZIP. manifest.schema.json describes the same format for
+// the systems that generate it; keep the two in sync.
+
+export const MANIFEST_FILENAME = "manifest.json";
+
+export const CURRENT_MANIFEST_VERSION = 2;
+
+export type ManifestAddress = {
+  email: string;
+  name?: string;
+};
+
+// Replaces the contact's recipients for one row. The first "to" address is the primary one.
+export type ManifestRecipients = {
+  to: ManifestAddress[];
+  cc?: ManifestAddress[];
+  bcc?: ManifestAddress[];
+};
+
+export type ManifestAttachment = {
+  path: string;
+  // Name shown in the email; defaults to the file name of path.
+  filename?: string;
+};
+
+// Values for {{var.<name>}} template placeholders, e.g. { "invoice_no": "INV-104" }.
+export type ManifestVariables = Record<string, string>;
+
+export type ManifestSuccessEntry = {
+  key: string;
+  pdf: string;
+  trade_date?: string;
+  recipients?: ManifestRecipients;
+  attachments?: ManifestAttachment[];
+  variables?: ManifestVariables;
+};
+
+// Accounts the generating system could not produce a bill for.
+export type ManifestFailedEntry = {
+  key: string;
+  reason: string;
+};
+
+export type BillManifestV2 = {
+  version: 2;
+  trade_date?: string;
+  variables?: ManifestVariables;
+  success: ManifestSuccessEntry[];
+  failed?: ManifestFailedEntry[];
+};
+
+// The original format without a version field: trade_date and success[].{key,pdf} only.
+export type BillManifestV1 = {
+  trade_date?: string;
+  success: Pick<ManifestSuccessEntry, "key" | "pdf">[];
+};
+
+export type ManifestSection = "manifest" | "success" | "failed";
+
+export type ManifestIssue = {
+  section: ManifestSection;
+  // Position in the section's array; null for problems with the manifest as a whole.
+  index: number | null;
+  key: string | null;
+  reason: string;
+};
+
+export type ManifestValidationReport = {
+  version: number | null;
+  accepted: number;
+  rejected: ManifestIssue[];
+  failed: ManifestFailedEntry[];
+};
+
+export type ResolvedRecipients = {
+  to_email: string;
+  to_name: string | null;
+  recipients: ContactRecipient[];
+};
+
+export type ResolvedAttachment = {
+  filename: string;
+  zip_entry_path: string;
+};
+
+// One accepted success entry, with paths checked against the ZIP.
+export type ManifestRow = {
+  account_key: string;
+  zip_entry_path: string;
+  trade_date: string | null;
+  recipient_override: ResolvedRecipients | null;
+  attachments: ResolvedAttachment[];
+  variables: Record<string, string>;
+};
@@ -0,0 +1,434 @@
+import { normalizeRecipients } from "@/lib/contacts/recipients";
+import type { ContactRecipient, RecipientKind } from "@/lib/contacts/types";
+import {
+  CURRENT_MANIFEST_VERSION,
+  type ManifestFailedEntry,
+  type ManifestIssue,
+  type ManifestRow,
+  type ManifestSection,
+  type ManifestValidationReport,
+  type ResolvedAttachment,
+  type ResolvedRecipients
+} from "@/lib/manifest/types";
+import { normalizeCustomVariables } from "@/lib/templates/render";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const SUCCESS_FIELDS = new Set([
+  "key",
+  "pdf",
+  "trade_date",
+  "recipients",
+  "attachments",
+  "variables"
+]);
+const MANIFEST_FIELDS = new Set(["version", "trade_date", "variables", "success", "failed"]);
+
+export type ManifestValidationResult = {
+  // False when the manifest cannot be used at all; the caller falls back to filenames.
+  usable: boolean;
+  rows: ManifestRow[];
+  report: ManifestValidationReport;
+};
+
+// Returns the ZIP entry a manifest path refers to, or null when the ZIP has no such file.
+export type ZipEntryResolver = (path: string) => string | null;
+
+type Entry = Record<string, unknown>;
+
+type Parsed<T> =
+  | {
+      ok: true;
+      value: T;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+function asEntry(value: unknown): Entry | null {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as Entry)
+    : null;
+}
+
+function getBaseName(pathname: string): string {
+  const parts = pathname.split("/");
+  return parts[parts.length - 1] ?? pathname;
+}
+
+function toTrimmedString(value: unknown): string {
+  return typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+}
+
+function isSafeZipPath(path: string): boolean {
+  return !path.startsWith("/") && !path.split("/").includes("..");
+}
+
+function readOptionalString(entry: Entry, field: string): Parsed<string | null> {
+  const value = entry[field];
+  if (value === undefined || value === null) {
+    return { ok: true, value: null };
+  }
+
+  if (typeof value !== "string") {
+    return { ok: false, error: `${field} must be a string.` };
+  }
+
+  return { ok: true, value: value.trim() || null };
+}
+
+function resolvePath(path: string, field: string, resolveEntry: ZipEntryResolver): Parsed<string> {
+  if (!path) {
+    return { ok: false, error: `${field} is required.` };
+  }
+
+  if (!isSafeZipPath(path)) {
+    return { ok: false, error: `${field} must be a path inside the ZIP: ${path}.` };
+  }
+
+  const zipEntryPath = resolveEntry(path);
+  if (!zipEntryPath) {
+    return { ok: false, error: `${field} not found in ZIP: ${path}.` };
+  }
+
+  return { ok: true, value: zipEntryPath };
+}
+
+function parseAddresses(value: unknown, kind: RecipientKind): Parsed<ContactRecipient[]> {
+  if (value === undefined) {
+    return { ok: true, value: [] };
+  }
+
+  if (!Array.isArray(value)) {
+    return { ok: false, error: `recipients.${kind} must be a list.` };
+  }
+
+  const addresses: ContactRecipient[] = [];
+  for (const item of value) {
+    const address = asEntry(item);
+    if (!address) {
+      return { ok: false, error: `recipients.${kind} entries must be objects with an email.` };
+    }
+
+    const name = toTrimmedString(address.name);
+    addresses.push({
+      kind,
+      email: toTrimmedString(address.email).toLowerCase(),
+      name: name || null
+    });
+  }
+
+  return { ok: true, value: addresses };
+}
+
+function parseRecipientOverride(value: unknown): Parsed<ResolvedRecipients | null> {
+  if (value === undefined || value === null) {
+    return { ok: true, value: null };
+  }
+
+  const entry = asEntry(value);
+  if (!entry) {
+    return { ok: false, error: "recipients must be an object with to, cc and bcc lists." };
+  }
+
+  const addresses: ContactRecipient[] = [];
+  for (const kind of ["to", "cc", "bcc"] as const) {
+    const parsed = parseAddresses(entry[kind], kind);
+    if (!parsed.ok) {
+      return parsed;
+    }
+    addresses.push(...parsed.value);
+  }
+
+  const primary = addresses[0];
+  if (primary?.kind !== "to") {
+    return { ok: false, error: "recipients.to needs at least one address." };
+  }
+
+  if (!EMAIL_PATTERN.test(primary.email)) {
+    return { ok: false, error: `Recipient email must be valid: ${primary.email || "(empty)"}.` };
+  }
+
+  const recipientsResult = normalizeRecipients(addresses.slice(1), primary.email);
+  if (!recipientsResult.ok) {
+    return recipientsResult;
+  }
+
+  return {
+    ok: true,
+    value: {
+      to_email: primary.email,
+      to_name: primary.name,
+      recipients: recipientsResult.recipients
+    }
+  };
+}
+
+function parseAttachments(
+  value: unknown,
+  resolveEntry: ZipEntryResolver
+): Parsed<ResolvedAttachment[]> {
+  if (value === undefined || value === null) {
+    return { ok: true, value: [] };
+  }
+
+  if (!Array.isArray(value)) {
+    return { ok: false, error: "attachments must be a list." };
+  }
+
+  const attachments: ResolvedAttachment[] = [];
+  for (const [index, item] of value.entries()) {
+    const attachment = asEntry(item);
+    if (!attachment) {
+      return { ok: false, error: `attachments[${index}] must be an object with a path.` };
+    }
+
+    const zipEntryPath = resolvePath(
+      toTrimmedString(attachment.path),
+      `attachments[${index}].path`,
+      resolveEntry
+    );
+    if (!zipEntryPath.ok) {
+      return zipEntryPath;
+    }
+
+    attachments.push({
+      filename: toTrimmedString(attachment.filename) || getBaseName(zipEntryPath.value),
+      zip_entry_path: zipEntryPath.value
+    });
+  }
+
+  return { ok: true, value: attachments };
+}
+
+function parseVariables(value: unknown, field: string): Parsed<Record<string, string>> {
+  const result = normalizeCustomVariables(value);
+  if (!result.ok) {
+    return { ok: false, error: `${field}: ${result.error}` };
+  }
+
+  return { ok: true, value: result.variables };
+}
+
+function getVersion(manifest: Entry): number | null {
+  if (manifest.version === undefined) {
+    return 1;
+  }
+
+  return typeof manifest.version === "number" && Number.isInteger(manifest.version)
+    ? manifest.version
+    : null;
+}
+
+function parseSuccessEntry(
+  entry: Entry,
+  isV2: boolean,
+  defaults: { tradeDate: string | null; variables: Record<string, string> },
+  resolveEntry: ZipEntryResolver
+): Parsed<ManifestRow> {
+  const accountKey = toTrimmedString(entry.key);
+  if (!accountKey) {
+    return { ok: false, error: "key is required." };
+  }
+
+  const unknownField = isV2
+    ? Object.keys(entry).find((field) => !SUCCESS_FIELDS.has(field))
+    : undefined;
+  if (unknownField) {
+    return { ok: false, error: `Unknown field ${unknownField}.` };
+  }
+
+  const pdfPath = toTrimmedString(entry.pdf);
+  if (pdfPath && !pdfPath.toLowerCase().endsWith(".pdf")) {
+    return { ok: false, error: `pdf must be a .pdf file: ${pdfPath}.` };
+  }
+
+  const zipEntryPath = resolvePath(pdfPath, "pdf", resolveEntry);
+  if (!zipEntryPath.ok) {
+    return zipEntryPath;
+  }
+
+  const row: ManifestRow = {
+    account_key: accountKey,
+    zip_entry_path: zipEntryPath.value,
+    trade_date: defaults.tradeDate,
+    recipient_override: null,
+    attachments: [],
+    variables: defaults.variables
+  };
+
+  if (!isV2) {
+    return { ok: true, value: row };
+  }
+
+  const tradeDate = readOptionalString(entry, "trade_date");
+  if (!tradeDate.ok) {
+    return tradeDate;
+  }
+
+  const recipientOverride = parseRecipientOverride(entry.recipients);
+  if (!recipientOverride.ok) {
+    return recipientOverride;
+  }
+
+  const attachments = parseAttachments(entry.attachments, resolveEntry);
+  if (!attachments.ok) {
+    return attachments;
+  }
+
+  const variables = parseVariables(entry.variables, "variables");
+  if (!variables.ok) {
+    return variables;
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...row,
+      trade_date: tradeDate.value ?? defaults.tradeDate,
+      recipient_override: recipientOverride.value,
+      attachments: attachments.value,
+      variables: { ...defaults.variables, ...variables.value }
+    }
+  };
+}
+
+/**
+ * Checks a parsed manifest.json against the v2 schema (or the loose v1 format when it has no
+ * version) and the files in the ZIP. Every rejected entry is reported with its reason instead
+ * of being dropped silently.
+ */
+export function validateManifest(
+  data: unknown,
+  resolveEntry: ZipEntryResolver
+): ManifestValidationResult {
+  const rejected: ManifestIssue[] = [];
+  const failed: ManifestFailedEntry[] = [];
+  const rows: ManifestRow[] = [];
+
+  const reject = (
+    section: ManifestSection,
+    index: number | null,
+    key: string | null,
+    reason: string
+  ) => {
+    rejected.push({ section, index, key, reason });
+  };
+
+  const manifest = asEntry(data);
+  const version = manifest ? getVersion(manifest) : null;
+  const unusable = (reason: string): ManifestValidationResult => {
+    reject("manifest", null, null, reason);
+    return {
+      usable: false,
+      rows,
+      report: { version, accepted: 0, rejected, failed }
+    };
+  };
+
+  if (!manifest) {
+    return unusable("manifest.json must be a JSON object.");
+  }
+
+  if (version === null || version < 1 || version > CURRENT_MANIFEST_VERSION) {
+    return unusable(
+      `Unsupported manifest version ${String(manifest.version)}. ` +
+        `Supported: 1 and ${CURRENT_MANIFEST_VERSION}.`
+    );
+  }
+
+  if (!Array.isArray(manifest.success)) {
+    return unusable("success must be a list of bills.");
+  }
+
+  const isV2 = version >= 2;
+  // Version 1 ignored a trade_date that was not a string; keep reading old files the same way.
+  const tradeDate = isV2
+    ? readOptionalString(manifest, "trade_date")
+    : {
+        ok: true as const,
+        value:
+          typeof manifest.trade_date === "string" ? manifest.trade_date.trim() || null : null
+      };
+  if (!tradeDate.ok) {
+    return unusable(tradeDate.error);
+  }
+
+  const sharedVariables = isV2
+    ? parseVariables(manifest.variables, "variables")
+    : { ok: true as const, value: {} };
+  if (!sharedVariables.ok) {
+    return unusable(sharedVariables.error);
+  }
+
+  if (isV2) {
+    for (const field of Object.keys(manifest)) {
+      if (!MANIFEST_FIELDS.has(field)) {
+        reject("manifest", null, null, `Unknown field ${field} was ignored.`);
+      }
+    }
+  }
+
+  const firstIndexByPath = new Map<string, number>();
+
+  manifest.success.forEach((item, index) => {
+    const entry = asEntry(item);
+    if (!entry) {
+      reject("success", index, null, "Entry must be an object with key and pdf.");
+      return;
+    }
+
+    const parsed = parseSuccessEntry(
+      entry,
+      isV2,
+      { tradeDate: tradeDate.value, variables: sharedVariables.value },
+      resolveEntry
+    );
+    const accountKey = toTrimmedString(entry.key) || null;
+
+    if (!parsed.ok) {
+      reject("success", index, accountKey, parsed.error);
+      return;
+    }
+
+    const firstIndex = firstIndexByPath.get(parsed.value.zip_entry_path);
+    if (firstIndex !== undefined) {
+      reject(
+        "success",
+        index,
+        accountKey,
+        `Duplicate of success[${firstIndex}] (${parsed.value.zip_entry_path}).`
+      );
+      return;
+    }
+
+    firstIndexByPath.set(parsed.value.zip_entry_path, index);
+    rows.push(parsed.value);
+  });
+
+  if (isV2 && manifest.failed !== undefined) {
+    if (!Array.isArray(manifest.failed)) {
+      reject("manifest", null, null, "failed must be a list; it was ignored.");
+    } else {
+      manifest.failed.forEach((item, index) => {
+        const entry = asEntry(item);
+        const accountKey = toTrimmedString(entry?.key);
+        const reason = toTrimmedString(entry?.reason);
+
+        if (!accountKey || !reason) {
+          reject("failed", index, accountKey || null, "Entry needs a key and a reason.");
+          return;
+        }
+
+        failed.push({ key: accountKey, reason });
+      });
+    }
+  }
+
+  return {
+    usable: true,
+    rows,
+    report: { version, accepted: rows.length, rejected, failed }
+  };
+}
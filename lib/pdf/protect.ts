@@ -0,0 +1,104 @@
+import "server-only";
+import { createHmac, randomBytes } from "node:crypto";
+import { PDFDocument } from "@cantoo/pdf-lib";
+import { getPdfPasswordHint } from "@/lib/contacts/pdf-password";
+import type { PdfPasswordMode } from "@/lib/contacts/types";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+
+const DERIVED_PASSWORD_LENGTH = 10;
+
+export type PdfProtection = {
+  mode: PdfPasswordMode;
+  password: string | null;
+  hint: string;
+};
+
+// Same account key and secret always give the same password, so it can be shared once.
+export function derivePdfPassword(accountKey: string): string {
+  const secret = process.env.PDF_PASSWORD_SECRET?.trim();
+  if (!secret) {
+    throw new Error("PDF_PASSWORD_SECRET is missing.");
+  }
+
+  return createHmac("sha256", secret)
+    .update(accountKey.trim().toUpperCase())
+    .digest("hex")
+    .slice(0, DERIVED_PASSWORD_LENGTH)
+    .toUpperCase();
+}
+
+export async function getStoredPdfPassword(accountKey: string): Promise<string | null> {
+  const { data, error } = await createServiceRoleClient()
+    .from("contact_pdf_passwords")
+    .select("password")
+    .eq("account_key", accountKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error("contact_pdf_passwords lookup failed", error);
+    throw new Error("Failed to load the PDF password.");
+  }
+
+  return data?.password ?? null;
+}
+
+/**
+ * Reads the account's PDF password settings from the database (never from the request), so a
+ * client cannot skip encryption for an account that requires it.
+ */
+export async function getPdfProtection(accountKey: string): Promise<PdfProtection> {
+  const { data: contact, error } = await createServiceRoleClient()
+    .from("contacts")
+    .select("pdf_password_mode,pdf_password_hint")
+    .eq("account_key", accountKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error("contact PDF settings lookup failed", error);
+    throw new Error("Failed to load the PDF password settings.");
+  }
+
+  const mode: PdfPasswordMode = contact?.pdf_password_mode ?? "none";
+  const hint = getPdfPasswordHint(contact ? { ...contact, pdf_password_mode: mode } : null);
+
+  if (mode === "derived") {
+    return { mode, password: derivePdfPassword(accountKey), hint };
+  }
+
+  if (mode === "stored") {
+    const password = await getStoredPdfPassword(accountKey);
+    if (!password) {
+      throw new Error(`No PDF password is stored for ${accountKey}.`);
+    }
+
+    return { mode, password, hint };
+  }
+
+  return { mode: "none", password: null, hint };
+}
+
+export async function encryptPdf(pdfBuffer: Buffer, userPassword: string): Promise<Buffer> {
+  let document: PDFDocument;
+  try {
+    document = await PDFDocument.load(pdfBuffer);
+  } catch {
+    throw new Error("The bill PDF could not be read for encryption (is it already protected?).");
+  }
+
+  document.encrypt({
+    userPassword,
+    // Nobody needs to edit bills, so the owner password is random and discarded.
+    ownerPassword: randomBytes(24).toString("hex"),
+    permissions: {
+      printing: "highResolution",
+      copying: true,
+      modifying: false,
+      annotating: false,
+      fillingForms: false,
+      contentAccessibility: true,
+      documentAssembly: false
+    }
+  });
+
+  return Buffer.from(await document.save());
+}
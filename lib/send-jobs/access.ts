@@ -0,0 +1,32 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { getPermittedUser } from "@/lib/auth/session";
+
+// The signed-in user when they may pause, resume or cancel the job: send job managers for any job,
+// senders for the jobs they created. Callers then update through the service role.
+export async function getSendJobControlUser(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<User | null> {
+  const manager = await getPermittedUser(supabase, "send_jobs:manage");
+  if (manager) {
+    return manager;
+  }
+
+  const sender = await getPermittedUser(supabase, "emails:send");
+  if (!sender) {
+    return null;
+  }
+
+  const { data: job, error } = await supabase
+    .from("send_jobs")
+    .select("created_by_auth_user_id")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("send_jobs owner lookup failed", error);
+    return null;
+  }
+
+  return job?.created_by_auth_user_id === sender.id ? sender : null;
+}
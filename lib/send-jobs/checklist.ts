@@ -0,0 +1,105 @@
+import type { ContactRecipient } from "@/lib/contacts/types";
+import { formatTradeDate } from "@/lib/templates/render";
+
+// Batches larger than this must be confirmed by typing the trade date (or the ZIP name
+// when the rows carry no single trade date).
+export const SEND_CONFIRM_TYPING_THRESHOLD = 50;
+
+// Contacts whose email or recipients changed within this many days are called out before a
+// batch goes out.
+export const RECENT_CONTACT_CHANGE_DAYS = 7;
+
+export type SendChecklistRow = {
+  account_key: string;
+  trade_date: string | null;
+  contact_email: string | null;
+  contact_recipients: ContactRecipient[];
+  // contacts.recipients_changed_at; null when the manifest supplies the recipients.
+  contact_recipients_changed_at: string | null;
+  last_status: "sent" | "failed" | null;
+};
+
+export type SendChecklistDuplicate = {
+  email: string;
+  account_keys: string[];
+};
+
+export type SendChecklist = {
+  email_count: number;
+  recipient_count: number;
+  trade_dates: string[];
+  undated_account_keys: string[];
+  already_sent_account_keys: string[];
+  recently_changed_account_keys: string[];
+  duplicate_emails: SendChecklistDuplicate[];
+  confirmation_text: string | null;
+};
+
+function uniqueSorted(values: string[]): string[] {
+  return Array.from(new Set(values)).sort((left, right) => left.localeCompare(right));
+}
+
+export function buildSendChecklist(
+  rows: SendChecklistRow[],
+  zipFilename: string,
+  now = Date.now()
+): SendChecklist {
+  const recentSince = now - RECENT_CONTACT_CHANGE_DAYS * 24 * 60 * 60 * 1000;
+  const accountKeysByEmail = new Map<string, string[]>();
+  const addresses = new Set<string>();
+
+  for (const row of rows) {
+    for (const recipient of row.contact_recipients) {
+      addresses.add(recipient.email.trim().toLowerCase());
+    }
+
+    const email = row.contact_email?.trim().toLowerCase();
+    if (!email) {
+      continue;
+    }
+
+    addresses.add(email);
+    accountKeysByEmail.set(email, [...(accountKeysByEmail.get(email) ?? []), row.account_key]);
+  }
+
+  // formatTradeDate falls back to today, so rows without a date are listed on their own.
+  const tradeDates = uniqueSorted(
+    rows.flatMap((row) => (row.trade_date ? [formatTradeDate(row.trade_date)] : []))
+  );
+  const undatedAccountKeys = uniqueSorted(
+    rows.filter((row) => !row.trade_date).map((row) => row.account_key)
+  );
+  const duplicateEmails = Array.from(accountKeysByEmail.entries())
+    .map(([email, accountKeys]) => ({ email, account_keys: uniqueSorted(accountKeys) }))
+    .filter((duplicate) => duplicate.account_keys.length > 1)
+    .sort((left, right) => left.email.localeCompare(right.email));
+
+  const confirmationText =
+    rows.length <= SEND_CONFIRM_TYPING_THRESHOLD
+      ? null
+      : tradeDates.length === 1 && undatedAccountKeys.length === 0
+        ? tradeDates[0]
+        : zipFilename;
+
+  return {
+    email_count: rows.length,
+    recipient_count: addresses.size,
+    trade_dates: tradeDates,
+    undated_account_keys: undatedAccountKeys,
+    already_sent_account_keys: uniqueSorted(
+      rows.filter((row) => row.last_status === "sent").map((row) => row.account_key)
+    ),
+    recently_changed_account_keys: uniqueSorted(
+      rows
+        .filter((row) => {
+          const changedAt = row.contact_recipients_changed_at
+            ? Date.parse(row.contact_recipients_changed_at)
+            : NaN;
+          return Number.isFinite(changedAt) && changedAt >= recentSince;
+        })
+        .map((row) => row.account_key)
+    ),
+    duplicate_emails: duplicateEmails,
+    confirmation_text: confirmationText
+  };
+}
@@ -0,0 +1,51 @@
+import type { SendJob } from "@/lib/send-jobs/types";
+
+// Where the console started measuring a job's send rate. Reset on resume so time spent
+// paused does not slow the estimate down.
+export type SendJobRateSample = {
+  job_id: string;
+  at: number;
+  processed: number;
+};
+
+export function getProcessedCount(job: SendJob): number {
+  return job.sent_count + job.failed_count;
+}
+
+export function getProgressPercent(job: SendJob): number {
+  return job.total_items > 0
+    ? Math.min(100, Math.round((getProcessedCount(job) / job.total_items) * 100))
+    : 0;
+}
+
+// Milliseconds left at the rate seen since the sample, or null until something was sent.
+export function estimateRemainingMs(
+  job: SendJob,
+  sample: SendJobRateSample | null,
+  now = Date.now()
+): number | null {
+  if (!sample || sample.job_id !== job.id) {
+    return null;
+  }
+
+  const processedSince = getProcessedCount(job) - sample.processed;
+  const elapsedMs = now - sample.at;
+  if (processedSince <= 0 || elapsedMs <= 0) {
+    return null;
+  }
+
+  const remaining = Math.max(0, job.total_items - getProcessedCount(job));
+  return (elapsedMs / processedSince) * remaining;
+}
+
+export function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(1, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+
+  if (minutes >= 60) {
+    return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+  }
+
+  return minutes > 0 ? `${minutes} min ${seconds} s` : `${seconds} s`;
+}
@@ -0,0 +1,76 @@
+export const DEFAULT_SCHEDULE_HOUR = 8;
+
+function padTwo(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// Value for <input type="datetime-local">, which takes local time without a zone.
+export function toDateTimeLocalValue(date: Date): string {
+  return (
+    `${date.getFullYear()}-${padTwo(date.getMonth() + 1)}-${padTwo(date.getDate())}` +
+    `T${padTwo(date.getHours())}:${padTwo(date.getMinutes())}`
+  );
+}
+
+// Next Monday-Friday after `from` at the given local hour. Public holidays are not known
+// here, so the admin adjusts those by hand.
+export function getNextBusinessDayAt(hour: number, from = new Date()): Date {
+  const next = new Date(from);
+  next.setHours(hour, 0, 0, 0);
+  next.setDate(next.getDate() + 1);
+
+  while (next.getDay() === 0 || next.getDay() === 6) {
+    next.setDate(next.getDate() + 1);
+  }
+
+  return next;
+}
+
+export function formatScheduledFor(value: string | null): string {
+  if (!value) {
+    return "-";
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "-";
+  }
+
+  return date.toLocaleString(undefined, {
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+}
+
+export type ScheduledForResult =
+  | {
+      ok: true;
+      scheduledFor: string | null;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+// Empty means "send now". Anything else must be a parseable time in the future.
+export function parseScheduledFor(value: unknown, now = new Date()): ScheduledForResult {
+  const text = String(value ?? "").trim();
+  if (!text) {
+    return { ok: true, scheduledFor: null };
+  }
+
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    return { ok: false, error: "scheduled_for must be an ISO date and time." };
+  }
+
+  if (date.getTime() <= now.getTime()) {
+    return { ok: false, error: "scheduled_for must be in the future." };
+  }
+
+  return { ok: true, scheduledFor: date.toISOString() };
+}
@@ -0,0 +1,67 @@
+import type { ContactRecipient } from "@/lib/contacts/types";
+import type { ManifestVariables } from "@/lib/manifest/types";
+
+export type SendJobStatus =
+  | "uploading"
+  | "scheduled"
+  | "queued"
+  | "running"
+  | "paused"
+  | "completed"
+  | "cancelled";
+
+export type SendJobItemStatus = "pending" | "sending" | "sent" | "failed";
+
+export type SendJob = {
+  id: string;
+  created_at: string;
+  zip_filename: string;
+  status: SendJobStatus;
+  total_items: number;
+  sent_count: number;
+  failed_count: number;
+  scheduled_for: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_by_auth_user_id: string;
+};
+
+export type SendJobItemState = {
+  row_key: string;
+  account_key: string;
+  status: SendJobItemStatus;
+  error: string | null;
+};
+
+export type SendJobItemInput = {
+  row_key: string;
+  account_key: string;
+  trade_date: string | null;
+  to_email: string;
+  to_name: string | null;
+  recipients: ContactRecipient[];
+  filename: string;
+  pdf_base64: string;
+  extra_attachments: SendJobAttachmentInput[];
+  variables: ManifestVariables;
+};
+
+// Item fields of a send job items upload; the PDF and extra files travel as binary parts.
+export type SendJobItemMetadata = Omit<SendJobItemInput, "pdf_base64" | "extra_attachments">;
+
+// Same shape as the extra attachments accepted by /api/send-email.
+export type SendJobAttachmentInput = {
+  filename: string;
+  content_base64: string;
+};
+
+export const SEND_JOB_COLUMNS =
+  "id,created_at,zip_filename,status,total_items,sent_count,failed_count,scheduled_for,started_at,completed_at,created_by_auth_user_id";
+
+export const ACTIVE_SEND_JOB_STATUSES: SendJobStatus[] = [
+  "uploading",
+  "scheduled",
+  "queued",
+  "running",
+  "paused"
+];
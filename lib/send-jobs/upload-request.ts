@@ -0,0 +1,43 @@
+import type { SendEmailFile } from "@/lib/email/send-request";
+import type { SendJobItemMetadata } from "@/lib/send-jobs/types";
+
+// multipart/form-data layout of POST /api/send-jobs/[id]/items: "metadata" holds
+// `{ items: SendJobItemMetadata[] }` as JSON, and the files of item n follow as the binary parts
+// "pdf_<n>" and "attachments_<n>".
+export const SEND_JOB_ITEMS_METADATA_FIELD = "metadata";
+
+export type SendJobItemUpload = {
+  metadata: SendJobItemMetadata;
+  pdf: SendEmailFile;
+  attachments: SendEmailFile[];
+};
+
+export function getSendJobItemPdfField(index: number): string {
+  return `pdf_${index}`;
+}
+
+export function getSendJobItemAttachmentField(index: number): string {
+  return `attachments_${index}`;
+}
+
+export function buildSendJobItemsFormData(items: SendJobItemUpload[]): FormData {
+  const formData = new FormData();
+  formData.append(
+    SEND_JOB_ITEMS_METADATA_FIELD,
+    JSON.stringify({ items: items.map((item) => item.metadata) })
+  );
+
+  items.forEach((item, index) => {
+    formData.append(getSendJobItemPdfField(index), item.pdf.content, item.pdf.filename);
+
+    for (const attachment of item.attachments) {
+      formData.append(
+        getSendJobItemAttachmentField(index),
+        attachment.content,
+        attachment.filename
+      );
+    }
+  });
+
+  return formData;
+}
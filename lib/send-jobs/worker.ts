@@ -0,0 +1,293 @@
+import "server-only";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ContactRecipient } from "@/lib/contacts/types";
+import { decodeExtraAttachments, type ExtraAttachmentInput } from "@/lib/email/attachments";
+import {
+  getConfiguredSenderQuota,
+  sendBillEmail,
+  type SendBillResult
+} from "@/lib/email/send-bill";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+import { getTemplateForSend } from "@/lib/templates/load";
+import type { EmailTemplateContent } from "@/lib/templates/types";
+
+const CLAIM_BATCH_SIZE = 5;
+// Uploading jobs with no new items for this long were abandoned by the console.
+const STALE_UPLOAD_MINUTES = 60;
+const DEFAULT_SEND_WORKER_CONCURRENCY = 1;
+const MAX_SEND_WORKER_CONCURRENCY = 10;
+
+type ClaimedJob = {
+  zip_filename: string;
+  created_by_auth_user_id: string;
+  zip_document_id: string | null;
+  template: EmailTemplateContent | null;
+};
+
+type ClaimedItem = {
+  id: string;
+  job_id: string;
+  account_key: string;
+  trade_date: string | null;
+  to_email: string;
+  to_name: string | null;
+  recipients: ContactRecipient[] | null;
+  filename: string;
+  pdf_base64: string | null;
+  extra_attachments: ExtraAttachmentInput[] | null;
+  variables: Record<string, string> | null;
+};
+
+export type DrainResult = {
+  processed: number;
+  sent: number;
+  failed: number;
+  deferred: number;
+  skipped: number;
+};
+
+// Sends in flight at once, from SEND_WORKER_CONCURRENCY. The provider's minimum send interval
+// still paces the actual sends.
+export function getSendWorkerConcurrency(): number {
+  const parsed = Number(process.env.SEND_WORKER_CONCURRENCY?.trim() || "");
+  return Number.isInteger(parsed) && parsed > 0
+    ? Math.min(parsed, MAX_SEND_WORKER_CONCURRENCY)
+    : DEFAULT_SEND_WORKER_CONCURRENCY;
+}
+
+async function sendClaimedItem(
+  supabase: SupabaseClient,
+  job: ClaimedJob | null,
+  item: ClaimedItem
+): Promise<SendBillResult> {
+  if (!job) {
+    return { ok: false, error: "Send job not found." };
+  }
+
+  if (!job.template) {
+    return { ok: false, error: "Send job email template no longer exists." };
+  }
+
+  if (!item.pdf_base64) {
+    return { ok: false, error: "Send job item PDF is no longer stored." };
+  }
+
+  return sendBillEmail(supabase, {
+    zipFilename: job.zip_filename,
+    accountKey: item.account_key,
+    tradeDate: item.trade_date,
+    toEmail: item.to_email,
+    toName: item.to_name,
+    recipients: item.recipients ?? [],
+    filename: item.filename,
+    pdfBuffer: Buffer.from(item.pdf_base64, "base64"),
+    sentByAuthUserId: job.created_by_auth_user_id,
+    template: job.template,
+    zipDocumentId: job.zip_document_id,
+    extraAttachments: decodeExtraAttachments(item.extra_attachments ?? []),
+    variables: item.variables ?? {}
+  });
+}
+
+async function getJobStatus(supabase: SupabaseClient, jobId: string): Promise<string | null> {
+  const { data } = await supabase.from("send_jobs").select("status").eq("id", jobId).maybeSingle();
+  return data?.status ?? null;
+}
+
+async function loadClaimedJob(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<ClaimedJob | null> {
+  const { data: job } = await supabase
+    .from("send_jobs")
+    .select("zip_filename,created_by_auth_user_id,zip_document_id,template_id")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  return job
+    ? {
+        zip_filename: job.zip_filename,
+        created_by_auth_user_id: job.created_by_auth_user_id,
+        zip_document_id: job.zip_document_id ?? null,
+        template: await getTemplateForSend(supabase, job.template_id ?? null)
+      }
+    : null;
+}
+
+// The files of an item are dropped once it can no longer be sent.
+const CLEARED_ITEM_FILES = { pdf_base64: null, extra_attachments: null };
+
+async function releaseItems(
+  supabase: SupabaseClient,
+  ids: string[],
+  error: string | null,
+  clearFiles = false
+) {
+  if (ids.length === 0) {
+    return;
+  }
+
+  const { error: releaseItemsError } = await supabase
+    .from("send_job_items")
+    .update({ status: "pending", error, ...(clearFiles ? CLEARED_ITEM_FILES : {}) })
+    .in("id", ids);
+
+  if (releaseItemsError) {
+    console.error("send_job_items release failed", releaseItemsError);
+  }
+}
+
+export async function drainSendJobs(budgetMs: number): Promise<DrainResult> {
+  const supabase = createServiceRoleClient();
+  const deadline = Date.now() + budgetMs;
+  const concurrency = getSendWorkerConcurrency();
+  const jobsById = new Map<string, Promise<ClaimedJob | null>>();
+  const touchedJobIds = new Set<string>();
+  const result: DrainResult = {
+    processed: 0,
+    sent: 0,
+    failed: 0,
+    deferred: 0,
+    skipped: 0
+  };
+
+  const { error: releaseError } = await supabase.rpc("release_due_send_jobs");
+  if (releaseError) {
+    console.error("release_due_send_jobs failed", releaseError);
+  }
+
+  const { error: staleError } = await supabase.rpc("cancel_stale_uploading_send_jobs", {
+    p_max_age_minutes: STALE_UPLOAD_MINUTES
+  });
+  if (staleError) {
+    console.error("cancel_stale_uploading_send_jobs failed", staleError);
+  }
+
+  // Leave items pending rather than claiming them only to hand them back.
+  const quota = await getConfiguredSenderQuota(supabase);
+  if (quota?.remaining === 0) {
+    console.warn("send worker idle: daily send limit reached", {
+      provider: quota.provider,
+      limit: quota.limit
+    });
+    return result;
+  }
+
+  let isQuotaExhausted = false;
+  let quotaError: string | null = null;
+
+  const processItem = async (item: ClaimedItem): Promise<boolean> => {
+    touchedJobIds.add(item.job_id);
+
+    // Claimed items of paused or cancelled jobs are handed back instead of sent; a cancelled
+    // job never sends them, so their files go too.
+    const jobStatus = await getJobStatus(supabase, item.job_id);
+    if (jobStatus !== "queued" && jobStatus !== "running") {
+      await releaseItems(supabase, [item.id], null, jobStatus === "cancelled");
+      return true;
+    }
+
+    if (!jobsById.has(item.job_id)) {
+      jobsById.set(item.job_id, loadClaimedJob(supabase, item.job_id));
+    }
+
+    const sendResult = await sendClaimedItem(
+      supabase,
+      (await jobsById.get(item.job_id)) ?? null,
+      item
+    );
+
+    if (!sendResult.ok && sendResult.deferred) {
+      isQuotaExhausted = true;
+      quotaError = sendResult.error;
+      return false;
+    }
+
+    // A bill another send already delivered counts as sent for this job, without a second email.
+    const isAlreadySent = !sendResult.ok && sendResult.duplicate?.status === "sent";
+
+    const { error: updateError } = await supabase
+      .from("send_job_items")
+      .update(
+        sendResult.ok
+          ? { status: "sent", error: null, message_id: sendResult.messageId, ...CLEARED_ITEM_FILES }
+          : isAlreadySent
+            ? {
+                status: "sent",
+                error: sendResult.error,
+                message_id: sendResult.duplicate?.message_id ?? null,
+                ...CLEARED_ITEM_FILES
+              }
+            : {
+                status: "failed",
+                error: sendResult.error,
+                message_id: null,
+                ...CLEARED_ITEM_FILES
+              }
+      )
+      .eq("id", item.id);
+
+    if (updateError) {
+      console.error("send_job_items update failed", updateError);
+    }
+
+    result.processed += 1;
+    if (sendResult.ok) {
+      result.sent += 1;
+    } else if (isAlreadySent) {
+      result.skipped += 1;
+    } else {
+      result.failed += 1;
+    }
+
+    return true;
+  };
+
+  while (!isQuotaExhausted && Date.now() < deadline) {
+    const { data, error } = await supabase.rpc("claim_send_job_items", {
+      p_limit: Math.max(CLAIM_BATCH_SIZE, concurrency)
+    });
+
+    if (error) {
+      console.error("claim_send_job_items failed", error);
+      break;
+    }
+
+    const items = (data ?? []) as ClaimedItem[];
+    if (items.length === 0) {
+      break;
+    }
+
+    // Up to `concurrency` sends run at once; each lane takes the next claimed item when free.
+    const deferredIds: string[] = [];
+    let nextIndex = 0;
+    const runLane = async () => {
+      while (!isQuotaExhausted && nextIndex < items.length) {
+        const item = items[nextIndex];
+        nextIndex += 1;
+
+        if (!(await processItem(item))) {
+          deferredIds.push(item.id);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, items.length) }, () => runLane())
+    );
+
+    if (isQuotaExhausted) {
+      // The sender hit its daily limit: hand the deferred and unstarted items back to the queue
+      // untouched and stop until a later run finds quota again.
+      const unsentIds = [...deferredIds, ...items.slice(nextIndex).map((item) => item.id)];
+      await releaseItems(supabase, unsentIds, quotaError);
+      result.deferred += unsentIds.length;
+    }
+
+    for (const jobId of touchedJobIds) {
+      await supabase.rpc("sync_send_job_progress", { p_job_id: jobId });
+    }
+  }
+
+  return result;
+}
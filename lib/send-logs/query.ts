@@ -0,0 +1,108 @@
+import "server-only";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  SEND_LOG_COLUMNS,
+  type SendLogFilters,
+  type SendLogSender
+} from "@/lib/send-logs/types";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function readText(value: unknown): string | null {
+  const normalized = String(value ?? "").trim();
+  return normalized.length > 0 ? normalized : null;
+}
+
+function readTimestamp(value: unknown): string | null {
+  const text = readText(value);
+  if (!text) {
+    return null;
+  }
+
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
+
+export function normalizeSendLogFilters(input: unknown): SendLogFilters {
+  const entry = (input !== null && typeof input === "object" ? input : {}) as Record<
+    string,
+    unknown
+  >;
+  const status = readText(entry.status);
+  const sender = readText(entry.sender);
+
+  return {
+    sent_from: readTimestamp(entry.sent_from),
+    sent_before: readTimestamp(entry.sent_before),
+    trade_date: readText(entry.trade_date),
+    account_key: readText(entry.account_key),
+    recipient: readText(entry.recipient)?.toLowerCase() ?? null,
+    status: status === "sent" || status === "failed" ? status : null,
+    sender: sender && UUID_PATTERN.test(sender) ? sender : null
+  };
+}
+
+// Filtered send_logs select, newest first. Callers add paging with .range().
+export function selectSendLogs(
+  supabase: SupabaseClient,
+  filters: SendLogFilters,
+  options?: { count: "exact" }
+) {
+  let query = supabase.from("send_logs").select(SEND_LOG_COLUMNS, options);
+
+  if (filters.sent_from) {
+    query = query.gte("sent_at", filters.sent_from);
+  }
+
+  if (filters.sent_before) {
+    query = query.lt("sent_at", filters.sent_before);
+  }
+
+  if (filters.trade_date) {
+    query = query.eq("trade_date", filters.trade_date);
+  }
+
+  if (filters.account_key) {
+    query = query.ilike("account_key", `%${escapeLikePattern(filters.account_key)}%`);
+  }
+
+  if (filters.recipient) {
+    query = query.ilike("to_email", `%${escapeLikePattern(filters.recipient)}%`);
+  }
+
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+
+  if (filters.sender) {
+    query = query.eq("sent_by_auth_user_id", filters.sender);
+  }
+
+  return query.order("sent_at", { ascending: false });
+}
+
+export async function listSendLogSenders(): Promise<SendLogSender[]> {
+  try {
+    const { data, error } = await createServiceRoleClient().rpc("list_send_log_senders");
+
+    if (error) {
+      console.error("list_send_log_senders failed", error);
+      return [];
+    }
+
+    return ((data ?? []) as { auth_user_id: string; email: string | null; user_id: string | null }[]).map(
+      (row) => ({
+        auth_user_id: row.auth_user_id,
+        label: row.user_id ?? row.email ?? row.auth_user_id
+      })
+    );
+  } catch (error) {
+    console.error("list_send_log_senders failed", error);
+    return [];
+  }
+}
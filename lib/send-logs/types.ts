@@ -0,0 +1,67 @@
+import type { RecipientKind } from "@/lib/contacts/types";
+import type { EmailProviderName } from "@/lib/email/providers/types";
+
+export type SendLogStatus = "sent" | "failed";
+
+export type SendLog = {
+  id: string;
+  sent_at: string;
+  zip_filename: string;
+  account_key: string;
+  trade_date: string | null;
+  to_email: string;
+  to_name: string | null;
+  recipient_type: RecipientKind;
+  status: SendLogStatus;
+  error: string | null;
+  message_id: string | null;
+  sent_by_auth_user_id: string;
+  provider: EmailProviderName;
+  sender_email: string | null;
+  forced_reason: string | null;
+  pdf_sha256: string | null;
+  pdf_document_id: string | null;
+  zip_document_id: string | null;
+  attachment_filenames: string[];
+  // Archived copies of the extra attachments, in the order of attachment_filenames[1..].
+  attachment_document_ids: string[];
+};
+
+export type SendLogSender = {
+  auth_user_id: string;
+  label: string;
+};
+
+// sent_from / sent_before are ISO timestamps; the browser converts the picked dates
+// from local midnight so the range matches what the admin sees on screen.
+export type SendLogFilters = {
+  sent_from?: string | null;
+  sent_before?: string | null;
+  trade_date?: string | null;
+  account_key?: string | null;
+  recipient?: string | null;
+  status?: SendLogStatus | null;
+  sender?: string | null;
+};
+
+export type SendLogPage = {
+  logs: SendLog[];
+  total: number;
+  page: number;
+  page_size: number;
+};
+
+export const SEND_LOG_COLUMNS =
+  "id,sent_at,zip_filename,account_key,trade_date,to_email,to_name,recipient_type,status,error,message_id,sent_by_auth_user_id,provider,sender_email,forced_reason,pdf_sha256,pdf_document_id,zip_document_id,attachment_filenames,attachment_document_ids";
+
+export const SEND_LOG_PAGE_SIZE = 50;
+
+export const SEND_LOG_FILTER_KEYS = [
+  "sent_from",
+  "sent_before",
+  "trade_date",
+  "account_key",
+  "recipient",
+  "status",
+  "sender"
+] as const satisfies readonly (keyof SendLogFilters)[];
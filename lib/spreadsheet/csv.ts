@@ -0,0 +1,83 @@
+const CSV_NEEDS_QUOTES_PATTERN = /[",;\r\n]|^\s|\s$/;
+// Spreadsheet apps run cells starting with these as formulas (CSV injection).
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+const ESCAPED_FORMULA_PATTERN = /^'[=+\-@\t\r]/;
+
+// Excel writes ";" separated CSV in locales that use "," as the decimal mark, so the
+// delimiter is taken from whichever appears more often in the header line.
+function detectDelimiter(text: string): "," | ";" {
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const commaCount = headerLine.split(",").length - 1;
+  const semicolonCount = headerLine.split(";").length - 1;
+
+  return semicolonCount > commaCount ? ";" : ",";
+}
+
+/**
+ * Parses RFC 4180 CSV (quoted fields, doubled quotes, CRLF or LF line breaks) into rows
+ * of raw cell strings. A leading byte order mark is ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const character = source[index];
+
+    if (inQuotes) {
+      if (character === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (character === '"') {
+        inQuotes = false;
+      } else {
+        field += character;
+      }
+      continue;
+    }
+
+    if (character === '"') {
+      inQuotes = true;
+    } else if (character === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (character === "\r" || character === "\n") {
+      if (character === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += character;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Undo the quote formatCsv puts before formula-like values, so exports import unchanged.
+  return rows.map((cells) =>
+    cells.map((cell) => (ESCAPED_FORMULA_PATTERN.test(cell) ? cell.slice(1) : cell))
+  );
+}
+
+function formatCsvField(rawValue: string): string {
+  const value = FORMULA_PREFIX_PATTERN.test(rawValue) ? `'${rawValue}` : rawValue;
+  if (!CSV_NEEDS_QUOTES_PATTERN.test(value)) {
+    return value;
+  }
+
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+export function formatCsv(rows: string[][]): string {
+  return rows.map((row) => row.map((value) => formatCsvField(value)).join(",")).join("\r\n");
+}
@@ -0,0 +1,193 @@
+import JSZip from "jszip";
+
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const INVALID_XML_CHARACTERS = /[\x00-\x08\x0B\x0C\x0E-\x1F]/g;
+
+function parseXml(source: string): Document {
+  return new DOMParser().parseFromString(source, "application/xml");
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARACTERS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function getColumnIndex(reference: string | null, fallback: number): number {
+  const letters = reference?.match(/^[A-Z]+/i)?.[0];
+  if (!letters) {
+    return fallback;
+  }
+
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+
+  return index - 1;
+}
+
+function getColumnName(index: number): string {
+  let name = "";
+  let remaining = index + 1;
+
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    name = String.fromCharCode(65 + offset) + name;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return name;
+}
+
+// Rich text keeps its runs in several <t> elements; phonetic hints (<rPh>) are not cell text.
+function getStringItemText(element: Element): string {
+  return Array.from(element.getElementsByTagName("t"))
+    .filter((node) => node.parentElement?.localName !== "rPh")
+    .map((node) => node.textContent ?? "")
+    .join("");
+}
+
+async function readZipText(zip: JSZip, path: string): Promise<string | null> {
+  const entry = zip.file(path);
+  return entry ? entry.async("string") : null;
+}
+
+async function getFirstSheetPath(zip: JSZip): Promise<string | null> {
+  const workbookXml = await readZipText(zip, "xl/workbook.xml");
+  const relationshipsXml = await readZipText(zip, "xl/_rels/workbook.xml.rels");
+  if (!workbookXml || !relationshipsXml) {
+    return null;
+  }
+
+  const relationId = parseXml(workbookXml).getElementsByTagName("sheet")[0]?.getAttribute("r:id");
+  const target = Array.from(parseXml(relationshipsXml).getElementsByTagName("Relationship"))
+    .find((relationship) => relationship.getAttribute("Id") === relationId)
+    ?.getAttribute("Target");
+
+  if (!target) {
+    return null;
+  }
+
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Reads the first worksheet of an .xlsx workbook into rows of cell strings. Only values
+ * are read (no formulas or formatting); row gaps are kept as empty rows so indexes
+ * match the sheet's row numbers.
+ */
+export async function readXlsxRows(data: ArrayBuffer): Promise<string[][]> {
+  const zip = await JSZip.loadAsync(data);
+  const sheetPath = await getFirstSheetPath(zip);
+  const sheetXml = sheetPath ? await readZipText(zip, sheetPath) : null;
+
+  if (!sheetXml) {
+    throw new Error("The workbook has no readable worksheet.");
+  }
+
+  const sharedStringsXml = await readZipText(zip, "xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(sharedStringsXml).getElementsByTagName("si")).map((item) =>
+        getStringItemText(item)
+      )
+    : [];
+
+  const rows: string[][] = [];
+
+  for (const rowElement of Array.from(parseXml(sheetXml).getElementsByTagName("row"))) {
+    const rowNumber = Number(rowElement.getAttribute("r"));
+    const rowIndex = Number.isInteger(rowNumber) && rowNumber > 0 ? rowNumber - 1 : rows.length;
+    const row: string[] = [];
+
+    Array.from(rowElement.getElementsByTagName("c")).forEach((cell, position) => {
+      const type = cell.getAttribute("t");
+      const rawValue = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      const columnIndex = getColumnIndex(cell.getAttribute("r"), position);
+
+      let value = rawValue;
+      if (type === "s") {
+        value = sharedStrings[Number(rawValue)] ?? "";
+      } else if (type === "inlineStr") {
+        const inlineString = cell.getElementsByTagName("is")[0];
+        value = inlineString ? getStringItemText(inlineString) : "";
+      } else if (type === "b") {
+        value = rawValue === "1" ? "TRUE" : "FALSE";
+      }
+
+      row[columnIndex] = value;
+    });
+
+    while (rows.length < rowIndex) {
+      rows.push([]);
+    }
+    rows[rowIndex] = Array.from(row, (value) => value ?? "");
+  }
+
+  return rows;
+}
+
+/**
+ * Writes rows of strings as a single-sheet .xlsx workbook using inline strings, which
+ * keeps the package to the parts every spreadsheet app requires.
+ */
+export async function buildXlsx(rows: string[][], sheetName: string): Promise<Blob> {
+  const zip = new JSZip();
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) => {
+          const reference = `${getColumnName(columnIndex)}${rowIndex + 1}`;
+          return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  zip.file(
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>"
+  );
+  zip.file(
+    "_rels/.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>"
+  );
+  zip.file(
+    "xl/workbook.xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>"
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      "</Relationships>"
+  );
+  zip.file(
+    "xl/worksheets/sheet1.xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetRows}</sheetData>` +
+      "</worksheet>"
+  );
+
+  return zip.generateAsync({ type: "blob", mimeType: XLSX_MIME_TYPE });
+}
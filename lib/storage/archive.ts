@@ -0,0 +1,320 @@
+import "server-only";
+import { createHash } from "node:crypto";
+import { getAttachmentContentType } from "@/lib/email/attachments";
+import {
+  getBillRetentionDays,
+  getBillStorageAdapter,
+  getBillStorageMode
+} from "@/lib/storage";
+import {
+  STORED_DOCUMENT_COLUMNS,
+  type BillStorageMode,
+  type DocumentUpload,
+  type StoredDocument,
+  type StoredDocumentKind
+} from "@/lib/storage/types";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+
+const PURGE_BATCH_SIZE = 200;
+
+const STORAGE_EXTENSIONS: Record<StoredDocumentKind, string> = {
+  zip: "zip",
+  pdf: "pdf",
+  attachment: "bin"
+};
+
+export type StoreDocumentInput = {
+  kind: StoredDocumentKind;
+  content: Buffer;
+  filename: string;
+  uploadedByAuthUserId: string;
+};
+
+export type UploadedDocumentInput = {
+  kind: StoredDocumentKind;
+  sha256: string;
+  filename: string;
+  uploadedByAuthUserId: string;
+};
+
+export type BeginDocumentUploadResult =
+  | { document: StoredDocument; upload: null }
+  | { document: null; upload: DocumentUpload | null };
+
+export type PurgeResult = {
+  purged: number;
+  failed: number;
+};
+
+export function getDocumentContentType(kind: StoredDocumentKind, filename: string): string {
+  switch (kind) {
+    case "zip":
+      return "application/zip";
+    case "pdf":
+      return "application/pdf";
+    case "attachment":
+      return getAttachmentContentType(filename);
+  }
+}
+
+// Content-addressed: the same bytes are stored once, however many sends reference them.
+function getStoragePath(kind: StoredDocumentKind, sha256: string): string {
+  return `${kind}/${sha256.slice(0, 2)}/${sha256}.${STORAGE_EXTENSIONS[kind]}`;
+}
+
+// Returns the active document with these bytes, marking it used, or null when there is none.
+async function touchStoredDocument(
+  kind: StoredDocumentKind,
+  sha256: string
+): Promise<StoredDocument | null> {
+  const supabase = createServiceRoleClient();
+  const { data: existing, error: lookupError } = await supabase
+    .from("stored_documents")
+    .select(STORED_DOCUMENT_COLUMNS)
+    .eq("kind", kind)
+    .eq("sha256", sha256)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error("stored_documents lookup failed", lookupError);
+    throw new Error("Failed to archive document.");
+  }
+
+  if (!existing || existing.purged_at) {
+    return null;
+  }
+
+  const { data: touched, error: touchError } = await supabase
+    .from("stored_documents")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", existing.id)
+    .select(STORED_DOCUMENT_COLUMNS)
+    .single();
+
+  if (touchError || !touched) {
+    console.error("stored_documents update failed", touchError);
+    throw new Error("Failed to archive document.");
+  }
+
+  return touched as StoredDocument;
+}
+
+async function recordStoredDocument(
+  input: {
+    kind: StoredDocumentKind;
+    sha256: string;
+    byteSize: number;
+    filename: string;
+    uploadedByAuthUserId: string;
+  },
+  mode: BillStorageMode
+): Promise<StoredDocument> {
+  const { data, error } = await createServiceRoleClient()
+    .from("stored_documents")
+    .upsert(
+      {
+        kind: input.kind,
+        sha256: input.sha256,
+        byte_size: input.byteSize,
+        filename: input.filename,
+        storage_mode: mode,
+        storage_path: getStoragePath(input.kind, input.sha256),
+        uploaded_by_auth_user_id: input.uploadedByAuthUserId,
+        last_used_at: new Date().toISOString(),
+        purged_at: null
+      },
+      { onConflict: "kind,sha256" }
+    )
+    .select(STORED_DOCUMENT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("stored_documents upsert failed", error);
+    throw new Error("Failed to archive document.");
+  }
+
+  return data as StoredDocument;
+}
+
+function getStorageModeOrThrow(): BillStorageMode {
+  const mode = getBillStorageMode();
+  if (!mode) {
+    throw new Error("Bill storage is off.");
+  }
+
+  return mode;
+}
+
+/**
+ * Persists a ZIP, PDF or extra attachment in the configured bill storage and returns its
+ * stored_documents row.
+ * Throws when storage is off or the write fails, so callers can refuse to send unarchived bills.
+ */
+export async function storeDocument(input: StoreDocumentInput): Promise<StoredDocument> {
+  const mode = getStorageModeOrThrow();
+  const sha256 = createHash("sha256").update(input.content).digest("hex");
+
+  const existing = await touchStoredDocument(input.kind, sha256);
+  if (existing) {
+    return existing;
+  }
+
+  await getBillStorageAdapter(mode).put(
+    getStoragePath(input.kind, sha256),
+    input.content,
+    getDocumentContentType(input.kind, input.filename)
+  );
+
+  return recordStoredDocument(
+    {
+      kind: input.kind,
+      sha256,
+      byteSize: input.content.length,
+      filename: input.filename,
+      uploadedByAuthUserId: input.uploadedByAuthUserId
+    },
+    mode
+  );
+}
+
+/**
+ * First step of a browser upload, for files too large to pass through an API route. Returns the
+ * already archived document when the bytes are stored, an upload token otherwise, or neither
+ * when the storage mode only takes uploads through the API routes.
+ */
+export async function beginDocumentUpload(
+  kind: StoredDocumentKind,
+  sha256: string
+): Promise<BeginDocumentUploadResult> {
+  const mode = getStorageModeOrThrow();
+  const document = await touchStoredDocument(kind, sha256);
+  if (document) {
+    return { document, upload: null };
+  }
+
+  const adapter = getBillStorageAdapter(mode);
+  if (!adapter.createUpload) {
+    return { document: null, upload: null };
+  }
+
+  return { document: null, upload: await adapter.createUpload(getStoragePath(kind, sha256)) };
+}
+
+/**
+ * Records a file the browser uploaded after beginDocumentUpload. The bytes are read back and
+ * hashed, so a document row is only written for the file it claims to be. Returns null when
+ * the upload is missing or does not match its SHA-256.
+ */
+export async function completeDocumentUpload(
+  input: UploadedDocumentInput
+): Promise<StoredDocument | null> {
+  const mode = getStorageModeOrThrow();
+  const adapter = getBillStorageAdapter(mode);
+  const storagePath = getStoragePath(input.kind, input.sha256);
+  const content = await adapter.get(storagePath);
+  if (!content) {
+    return null;
+  }
+
+  if (createHash("sha256").update(content).digest("hex") !== input.sha256) {
+    await adapter.remove([storagePath]);
+    return null;
+  }
+
+  return recordStoredDocument(
+    {
+      kind: input.kind,
+      sha256: input.sha256,
+      byteSize: content.length,
+      filename: input.filename,
+      uploadedByAuthUserId: input.uploadedByAuthUserId
+    },
+    mode
+  );
+}
+
+export async function getStoredDocument(
+  id: string,
+  kind?: StoredDocumentKind
+): Promise<StoredDocument | null> {
+  let query = createServiceRoleClient()
+    .from("stored_documents")
+    .select(STORED_DOCUMENT_COLUMNS)
+    .eq("id", id);
+
+  if (kind) {
+    query = query.eq("kind", kind);
+  }
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    console.error("stored_documents lookup failed", error);
+    return null;
+  }
+
+  return (data as StoredDocument | null) ?? null;
+}
+
+// Returns the stored bytes, or null when the document was purged or is missing from storage.
+export async function readStoredDocument(document: StoredDocument): Promise<Buffer | null> {
+  if (document.purged_at) {
+    return null;
+  }
+
+  return getBillStorageAdapter(document.storage_mode).get(document.storage_path);
+}
+
+/**
+ * Deletes the bytes of documents not used for BILL_RETENTION_DAYS. The stored_documents row and
+ * its SHA-256 stay, so send_logs can still prove which document was sent.
+ */
+export async function purgeExpiredDocuments(): Promise<PurgeResult> {
+  const result: PurgeResult = {
+    purged: 0,
+    failed: 0
+  };
+  const retentionDays = getBillRetentionDays();
+  if (!retentionDays) {
+    return result;
+  }
+
+  const supabase = createServiceRoleClient();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("stored_documents")
+    .select(STORED_DOCUMENT_COLUMNS)
+    .is("purged_at", null)
+    .lt("last_used_at", cutoff)
+    .order("last_used_at", { ascending: true })
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) {
+    console.error("stored_documents purge lookup failed", error);
+    return result;
+  }
+
+  for (const document of (data ?? []) as StoredDocument[]) {
+    try {
+      await getBillStorageAdapter(document.storage_mode).remove([document.storage_path]);
+    } catch (removeError) {
+      console.error("stored document removal failed", { id: document.id, error: removeError });
+      result.failed += 1;
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("stored_documents")
+      .update({ purged_at: new Date().toISOString() })
+      .eq("id", document.id);
+
+    if (updateError) {
+      console.error("stored_documents purge update failed", updateError);
+      result.failed += 1;
+    } else {
+      result.purged += 1;
+    }
+  }
+
+  return result;
+}
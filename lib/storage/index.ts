@@ -0,0 +1,31 @@
+import "server-only";
+import { localStorageAdapter } from "@/lib/storage/local";
+import { supabaseStorageAdapter } from "@/lib/storage/supabase";
+import type { BillStorageAdapter, BillStorageMode } from "@/lib/storage/types";
+
+const ADAPTERS: Record<BillStorageMode, BillStorageAdapter> = {
+  supabase: supabaseStorageAdapter,
+  local: localStorageAdapter
+};
+
+// Bill storage is opt-in; unset or "off" keeps PDFs in the browser and send job rows only.
+export function getBillStorageMode(): BillStorageMode | null {
+  const configured = process.env.BILL_STORAGE_MODE?.trim().toLowerCase() ?? "";
+
+  if (configured === "supabase" || configured === "local") {
+    return configured;
+  }
+
+  return null;
+}
+
+export function getBillStorageAdapter(mode: BillStorageMode): BillStorageAdapter {
+  return ADAPTERS[mode];
+}
+
+// Days after a document was last used before the purge job deletes its bytes; null keeps
+// documents forever.
+export function getBillRetentionDays(): number | null {
+  const parsed = Number(process.env.BILL_RETENTION_DAYS?.trim() || "");
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
@@ -0,0 +1,42 @@
+import "server-only";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { BillStorageAdapter } from "@/lib/storage/types";
+
+function getRootDirectory(): string {
+  const configured = process.env.BILL_STORAGE_DIR?.trim();
+  return path.resolve(configured || path.join(process.cwd(), ".bill-archive"));
+}
+
+function resolveStoragePath(storagePath: string): string {
+  const root = getRootDirectory();
+  const resolved = path.resolve(root, storagePath);
+
+  if (!resolved.startsWith(`${root}${path.sep}`)) {
+    throw new Error("Invalid storage path.");
+  }
+
+  return resolved;
+}
+
+// Single-server deployments and local testing: documents live under BILL_STORAGE_DIR.
+export const localStorageAdapter: BillStorageAdapter = {
+  mode: "local",
+  async put(storagePath, content) {
+    const filePath = resolveStoragePath(storagePath);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, content);
+  },
+  async get(storagePath) {
+    try {
+      return await readFile(resolveStoragePath(storagePath));
+    } catch {
+      return null;
+    }
+  },
+  async remove(paths) {
+    for (const storagePath of paths) {
+      await rm(resolveStoragePath(storagePath), { force: true });
+    }
+  }
+};
@@ -0,0 +1,58 @@
+import "server-only";
+import type { BillStorageAdapter } from "@/lib/storage/types";
+import { createServiceRoleClient } from "@/lib/supabase/service-role";
+
+function getBucketName() {
+  return process.env.BILL_STORAGE_BUCKET?.trim() || "bill-archive";
+}
+
+function getBucket() {
+  return createServiceRoleClient().storage.from(getBucketName());
+}
+
+export const supabaseStorageAdapter: BillStorageAdapter = {
+  mode: "supabase",
+  async put(path, content, contentType) {
+    const { error } = await getBucket().upload(path, content, {
+      contentType,
+      upsert: true
+    });
+
+    if (error) {
+      throw new Error(`Failed to store ${path}: ${error.message}`);
+    }
+  },
+  async get(path) {
+    const { data, error } = await getBucket().download(path);
+
+    if (error || !data) {
+      return null;
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  },
+  async remove(paths) {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const { error } = await getBucket().remove(paths);
+
+    if (error) {
+      throw new Error(`Failed to remove stored documents: ${error.message}`);
+    }
+  },
+  async createUpload(path) {
+    const { data, error } = await getBucket().createSignedUploadUrl(path, { upsert: true });
+
+    if (error || !data) {
+      throw new Error(`Failed to prepare upload of ${path}: ${error?.message ?? "no token"}`);
+    }
+
+    return {
+      bucket: getBucketName(),
+      path: data.path,
+      token: data.token
+    };
+  }
+};
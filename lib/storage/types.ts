@@ -0,0 +1,37 @@
+export type BillStorageMode = "supabase" | "local";
+
+// "attachment" is one of the account's other files from the ZIP, sent after the bill PDF.
+export type StoredDocumentKind = "zip" | "pdf" | "attachment";
+
+export type StoredDocument = {
+  id: string;
+  kind: StoredDocumentKind;
+  sha256: string;
+  byte_size: number;
+  filename: string;
+  storage_mode: BillStorageMode;
+  storage_path: string;
+  created_at: string;
+  last_used_at: string;
+  purged_at: string | null;
+};
+
+export const STORED_DOCUMENT_COLUMNS =
+  "id,kind,sha256,byte_size,filename,storage_mode,storage_path,created_at,last_used_at,purged_at";
+
+// A one-time token the browser uses to upload a file straight to the storage bucket.
+export type DocumentUpload = {
+  bucket: string;
+  path: string;
+  token: string;
+};
+
+export interface BillStorageAdapter {
+  readonly mode: BillStorageMode;
+  put(path: string, content: Buffer, contentType: string): Promise<void>;
+  get(path: string): Promise<Buffer | null>;
+  remove(paths: string[]): Promise<void>;
+  // Only modes the browser can reach directly support this; the others take uploads through
+  // the API routes.
+  createUpload?(path: string): Promise<DocumentUpload>;
+}
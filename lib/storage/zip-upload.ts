@@ -0,0 +1,87 @@
+import type { DocumentUpload } from "@/lib/storage/types";
+import { createClient } from "@/lib/supabase/client";
+
+type ArchiveResponse = {
+  ok?: boolean;
+  error?: string;
+  document?: { id: string } | null;
+  upload?: DocumentUpload | null;
+};
+
+async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+async function postArchiveRequest(url: string, init: RequestInit): Promise<ArchiveResponse> {
+  const response = await fetch(url, { method: "POST", credentials: "same-origin", ...init });
+  const payload = (await response.json().catch(() => null)) as ArchiveResponse | null;
+
+  if (!response.ok || !payload?.ok) {
+    throw new Error(payload?.error ?? "Failed to archive ZIP.");
+  }
+
+  return payload;
+}
+
+function postArchiveJson(url: string, body: unknown): Promise<ArchiveResponse> {
+  return postArchiveRequest(url, {
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+/**
+ * Archives an uploaded ZIP as-is and returns its stored_documents id. With Supabase storage the
+ * browser uploads the file straight to the bucket, so ZIPs larger than the request body limit
+ * can be archived; other storage modes take the file through /api/bill-archive/zips.
+ */
+export async function archiveZipFile(file: File): Promise<string> {
+  const request = {
+    filename: file.name,
+    sha256: await hashFile(file)
+  };
+  const started = await postArchiveJson("/api/bill-archive/zips/uploads", request);
+
+  if (started.document) {
+    return started.document.id;
+  }
+
+  if (started.upload) {
+    const { bucket, path, token } = started.upload;
+    const { error } = await createClient()
+      .storage.from(bucket)
+      .uploadToSignedUrl(path, token, file, { contentType: "application/zip" });
+
+    if (error) {
+      throw new Error(`Failed to upload ZIP: ${error.message}`);
+    }
+
+    const completed = await postArchiveJson("/api/bill-archive/zips/uploads/complete", request);
+    if (!completed.document) {
+      throw new Error("Failed to archive ZIP.");
+    }
+
+    return completed.document.id;
+  }
+
+  const stored = await postArchiveRequest(
+    `/api/bill-archive/zips?filename=${encodeURIComponent(file.name)}`,
+    {
+      headers: {
+        "Content-Type": "application/zip"
+      },
+      body: file
+    }
+  );
+
+  if (!stored.document) {
+    throw new Error("Failed to archive ZIP.");
+  }
+
+  return stored.document.id;
+}
@@ -0,0 +1,37 @@
+import "server-only";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_EMAIL_TEMPLATE } from "@/lib/templates/render";
+import type { EmailTemplateContent } from "@/lib/templates/types";
+
+const TEMPLATE_CONTENT_COLUMNS = "subject,body_text,body_html";
+
+export async function getTemplateForSend(
+  supabase: SupabaseClient,
+  templateId: string | null
+): Promise<EmailTemplateContent | null> {
+  if (templateId) {
+    const { data, error } = await supabase
+      .from("email_templates")
+      .select(TEMPLATE_CONTENT_COLUMNS)
+      .eq("id", templateId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("email_templates lookup failed", error);
+    }
+
+    return data ?? null;
+  }
+
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select(TEMPLATE_CONTENT_COLUMNS)
+    .eq("is_default", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("default email template lookup failed", error);
+  }
+
+  return data ?? DEFAULT_EMAIL_TEMPLATE;
+}
@@ -0,0 +1,177 @@
+import type {
+  EmailTemplateContent,
+  RenderedEmail,
+  TemplateVariables
+} from "@/lib/templates/types";
+
+export const TEMPLATE_PLACEHOLDERS = [
+  "name",
+  "account_key",
+  "trade_date",
+  "zip_filename",
+  "pdf_password_hint"
+] as const;
+
+export const DEFAULT_EMAIL_TEMPLATE: EmailTemplateContent = {
+  subject: 'Learn Unlearn Relearn "{{trade_date}}"',
+  body_text: "Hi\n\nPFA ref for below.",
+  body_html: null
+};
+
+// {{var.<name>}} reads a custom variable supplied per ZIP or per row by the manifest.
+export const CUSTOM_VARIABLE_PREFIX = "var.";
+
+export const CUSTOM_VARIABLE_NAME_PATTERN = /^[a-z_]+$/;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*((?:var\.)?[a-z_]+)\s*\}\}/gi;
+
+function pad2(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+function formatAsDdMmYyyy(date: Date): string {
+  return `${pad2(date.getDate())}-${pad2(date.getMonth() + 1)}-${date.getFullYear()}`;
+}
+
+export function formatTradeDate(value: string | null): string {
+  const normalized = String(value ?? "").trim();
+
+  const ymdMatch = normalized.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (ymdMatch) {
+    return `${ymdMatch[3]}-${ymdMatch[2]}-${ymdMatch[1]}`;
+  }
+
+  const dmyMatch = normalized.match(/^(\d{2})-(\d{2})-(\d{4})$/);
+  if (dmyMatch) {
+    return normalized;
+  }
+
+  const ymdSlashMatch = normalized.match(/^(\d{4})\/(\d{2})\/(\d{2})$/);
+  if (ymdSlashMatch) {
+    return `${ymdSlashMatch[3]}-${ymdSlashMatch[2]}-${ymdSlashMatch[1]}`;
+  }
+
+  const dmySlashMatch = normalized.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (dmySlashMatch) {
+    return `${dmySlashMatch[1]}-${dmySlashMatch[2]}-${dmySlashMatch[3]}`;
+  }
+
+  if (normalized) {
+    const parsed = new Date(normalized);
+    if (!Number.isNaN(parsed.getTime())) {
+      return formatAsDdMmYyyy(parsed);
+    }
+  }
+
+  return formatAsDdMmYyyy(new Date());
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function getPlaceholderValues(variables: TemplateVariables): Record<string, string> {
+  const customValues = Object.fromEntries(
+    Object.entries(variables.custom ?? {}).map(([name, value]) => [
+      `${CUSTOM_VARIABLE_PREFIX}${name.toLowerCase()}`,
+      value
+    ])
+  );
+
+  return {
+    ...customValues,
+    name: variables.name?.trim() || "",
+    account_key: variables.account_key,
+    trade_date: formatTradeDate(variables.trade_date),
+    zip_filename: variables.zip_filename,
+    pdf_password_hint: variables.pdf_password_hint?.trim() || ""
+  };
+}
+
+function fillPlaceholders(
+  source: string,
+  values: Record<string, string>,
+  transform: (value: string) => string = (value) => value
+): string {
+  return source.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    const normalizedKey = key.toLowerCase();
+    const value = values[normalizedKey];
+    if (value === undefined) {
+      // A custom variable the manifest did not set renders empty rather than as raw braces.
+      return normalizedKey.startsWith(CUSTOM_VARIABLE_PREFIX) ? "" : match;
+    }
+
+    return transform(value);
+  });
+}
+
+export function findUnknownPlaceholders(source: string): string[] {
+  const known = new Set<string>(TEMPLATE_PLACEHOLDERS);
+  const unknown = new Set<string>();
+
+  for (const match of source.matchAll(PLACEHOLDER_PATTERN)) {
+    const key = match[1].toLowerCase();
+    if (!known.has(key) && !key.startsWith(CUSTOM_VARIABLE_PREFIX)) {
+      unknown.add(key);
+    }
+  }
+
+  return Array.from(unknown);
+}
+
+export type CustomVariablesResult =
+  | {
+      ok: true;
+      variables: Record<string, string>;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+export function normalizeCustomVariables(value: unknown): CustomVariablesResult {
+  if (value === undefined || value === null) {
+    return { ok: true, variables: {} };
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, error: "variables must be an object of name/value pairs." };
+  }
+
+  const variables: Record<string, string> = {};
+  for (const [name, variableValue] of Object.entries(value as Record<string, unknown>)) {
+    if (!CUSTOM_VARIABLE_NAME_PATTERN.test(name)) {
+      return {
+        ok: false,
+        error: `Variable name ${name} may only use lowercase letters and underscores.`
+      };
+    }
+
+    if (typeof variableValue !== "string") {
+      return { ok: false, error: `Variable ${name} must be a string.` };
+    }
+
+    variables[name] = variableValue.trim();
+  }
+
+  return { ok: true, variables };
+}
+
+export function renderEmailTemplate(
+  template: EmailTemplateContent,
+  variables: TemplateVariables
+): RenderedEmail {
+  const values = getPlaceholderValues(variables);
+  const bodyHtml = template.body_html?.trim() ? template.body_html : null;
+
+  return {
+    subject: fillPlaceholders(template.subject, values).replace(/[\r\n]+/g, " ").trim(),
+    text: fillPlaceholders(template.body_text, values),
+    html: bodyHtml ? fillPlaceholders(bodyHtml, values, escapeHtml) : null
+  };
+}
@@ -0,0 +1,44 @@
+export type EmailTemplate = {
+  id: string;
+  name: string;
+  subject: string;
+  body_text: string;
+  body_html: string | null;
+  is_default: boolean;
+  updated_at: string;
+};
+
+export type EmailTemplateInput = {
+  name: string;
+  subject: string;
+  body_text: string;
+  body_html?: string | null;
+};
+
+export type EmailTemplateContent = Pick<EmailTemplate, "subject" | "body_text" | "body_html">;
+
+export type TemplateVariables = {
+  name: string | null;
+  account_key: string;
+  trade_date: string | null;
+  zip_filename: string;
+  // Empty for accounts whose PDFs are not password protected.
+  pdf_password_hint?: string | null;
+  // Values for {{var.<name>}}, keyed by name without the prefix.
+  custom?: Record<string, string>;
+};
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string | null;
+};
+
+export type TemplateActionResult =
+  | {
+      ok: true;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
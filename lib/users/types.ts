@@ -0,0 +1,70 @@
+import type { AppRole } from "@/lib/auth/permissions";
+
+// "user" signs in to the user portal only; the other roles open the console.
+export type ProfileRole = "user" | AppRole;
+
+export type ManagedUser = {
+  auth_user_id: string;
+  email: string | null;
+  user_id: string | null;
+  role: ProfileRole | null;
+  // Listed in ALPHA_TECH_X_ADMIN_EMAILS, which makes the user a super admin whatever the role.
+  is_allowlisted: boolean;
+  disabled: boolean;
+  // Has a verified authenticator app.
+  mfa_enabled: boolean;
+  created_at: string;
+  invited_at: string | null;
+  last_sign_in_at: string | null;
+};
+
+// Without a temporary password Supabase emails an invite link; with one the account is
+// created confirmed and the admin hands the password over.
+export type UserInviteInput = {
+  email: string;
+  user_id: string;
+  role: ProfileRole;
+  password?: string;
+};
+
+export type UserUpdateInput = {
+  user_id: string;
+  role: ProfileRole;
+};
+
+export type UserActionResult =
+  | {
+      ok: true;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+export type LoginAttemptOutcome = "success" | "failure" | "locked";
+
+export type LoginAttempt = {
+  id: string;
+  user_id: string;
+  auth_user_id: string | null;
+  ip_address: string | null;
+  outcome: LoginAttemptOutcome;
+  cleared_at: string | null;
+  created_at: string;
+};
+
+export type LoginLockKind = "user_id" | "ip_address";
+
+// A User ID or IP address with too many recent failed sign-ins; it is refused until an admin
+// unlocks it or the failures age out of the window.
+export type LockedLogin = {
+  kind: LoginLockKind;
+  key: string;
+  failure_count: number;
+  last_failed_at: string;
+};
+
+export type LoginAttemptsOverview = {
+  locked: LockedLogin[];
+  recent: LoginAttempt[];
+};
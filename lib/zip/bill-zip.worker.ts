@@ -0,0 +1,140 @@
+import JSZip from "jszip";
+import { findPdfEntry, parseBillZip } from "@/lib/zip/bills";
+import type {
+  BillRowFiles,
+  ZipParseProgress,
+  ZipRowEntry,
+  ZipWorkerRequest,
+  ZipWorkerResponse
+} from "@/lib/zip/reader-types";
+
+// Progress is posted at most once per this many bytes so a large ZIP does not flood the page.
+const PROGRESS_STEP_BYTES = 2 * 1024 * 1024;
+
+// The ZIP of the last parse; PDFs are read from it until the next upload.
+let currentZip: JSZip | null = null;
+
+function post(response: ZipWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+async function readFileBytes(
+  file: File,
+  onProgress: (progress: ZipParseProgress) => void
+): Promise<Uint8Array> {
+  const bytes = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let bytesRead = 0;
+  let lastReported = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    bytes.set(value, bytesRead);
+    bytesRead += value.byteLength;
+
+    if (bytesRead - lastReported >= PROGRESS_STEP_BYTES || bytesRead === file.size) {
+      lastReported = bytesRead;
+      onProgress({
+        phase: "reading",
+        bytes_read: bytesRead,
+        total_bytes: file.size,
+        files_scanned: 0,
+        total_files: 0
+      });
+    }
+  }
+
+  return bytes;
+}
+
+function getZip(): JSZip {
+  if (!currentZip) {
+    throw new Error("ZIP data is not available. Re-upload the file.");
+  }
+
+  return currentZip;
+}
+
+async function readPdf(row: ZipRowEntry): Promise<ArrayBuffer> {
+  const pdfEntry = findPdfEntry(getZip(), row);
+  if (!pdfEntry) {
+    throw new Error(`Could not find PDF in ZIP: ${row.pdf_filename}`);
+  }
+
+  return pdfEntry.async("arraybuffer");
+}
+
+async function readRowFiles(row: ZipRowEntry): Promise<BillRowFiles> {
+  const zip = getZip();
+  const attachments: BillRowFiles["attachments"] = [];
+
+  for (const attachment of row.extra_attachments) {
+    const entry = zip.file(attachment.zip_entry_path);
+    if (!entry) {
+      throw new Error(`Could not find attachment in ZIP: ${attachment.zip_entry_path}`);
+    }
+
+    attachments.push({
+      filename: attachment.filename,
+      content: await entry.async("arraybuffer")
+    });
+  }
+
+  return {
+    pdf: { filename: row.pdf_filename, content: await readPdf(row) },
+    attachments
+  };
+}
+
+async function handleRequest(request: ZipWorkerRequest) {
+  if (request.type === "parse") {
+    currentZip = null;
+    const onProgress = (progress: ZipParseProgress) =>
+      post({ id: request.id, type: "progress", progress });
+
+    const bytes = await readFileBytes(request.file, onProgress);
+    const onScanProgress = (filesScanned: number, totalFiles: number) =>
+      onProgress({
+        phase: "scanning",
+        bytes_read: bytes.byteLength,
+        total_bytes: request.file.size,
+        files_scanned: filesScanned,
+        total_files: totalFiles
+      });
+
+    // JSZip reads the whole directory before any file can be matched; until then only the
+    // phase changes.
+    onScanProgress(0, 0);
+    const zip = await JSZip.loadAsync(bytes);
+    const parsed = await parseBillZip(zip, request.filename_patterns, onScanProgress);
+    currentZip = zip;
+    post({ id: request.id, type: "result", result: parsed });
+    return;
+  }
+
+  if (request.type === "read-pdf") {
+    const pdf = await readPdf(request.row);
+    post({ id: request.id, type: "result", result: pdf }, [pdf]);
+    return;
+  }
+
+  const files = await readRowFiles(request.row);
+  post({ id: request.id, type: "result", result: files }, [
+    files.pdf.content,
+    ...files.attachments.map((attachment) => attachment.content)
+  ]);
+}
+
+self.addEventListener("message", (event: MessageEvent<ZipWorkerRequest>) => {
+  void handleRequest(event.data).catch((error: unknown) => {
+    post({
+      id: event.data.id,
+      type: "error",
+      error: error instanceof Error ? error.message : "Failed to read ZIP file."
+    });
+  });
+});
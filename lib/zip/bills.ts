@@ -0,0 +1,310 @@
+import type JSZip from "jszip";
+import type { JSZipObject } from "jszip";
+import {
+  compileFilenamePatterns,
+  DEFAULT_FILENAME_PATTERNS,
+  matchFilename,
+  type FilenameMatch
+} from "@/lib/filename-patterns/match";
+import type { FilenamePatternRule } from "@/lib/filename-patterns/types";
+import {
+  MANIFEST_FILENAME,
+  type ManifestValidationReport,
+  type ResolvedAttachment,
+  type ResolvedRecipients
+} from "@/lib/manifest/types";
+import { validateManifest } from "@/lib/manifest/validate";
+
+export type ParseSource = "manifest" | "fallback";
+
+export type ParsedBillRow = {
+  account_key: string;
+  pdf_filename: string;
+  zip_entry_path: string;
+  trade_date: string | null;
+  // Manifest v2 only: recipients that replace the contact's, and template variables.
+  recipient_override: ResolvedRecipients | null;
+  // The account's other files, sent in the same email after the bill PDF.
+  extra_attachments: ResolvedAttachment[];
+  variables: Record<string, string>;
+};
+
+export type ParsedBillZip = {
+  source: ParseSource;
+  rows: ParsedBillRow[];
+  messages: string[];
+  // Null when the ZIP has no manifest.json.
+  report: ManifestValidationReport | null;
+};
+
+export function getBaseName(pathname: string): string {
+  const parts = pathname.split("/");
+  return parts[parts.length - 1] ?? pathname;
+}
+
+export function normalizeAccountKey(value: unknown): string {
+  return String(value ?? "").trim();
+}
+
+// Called while the files are matched to bills, every SCAN_PROGRESS_STEP_FILES files and at the
+// end.
+export type ScanProgressCallback = (filesScanned: number, totalFiles: number) => void;
+
+const SCAN_PROGRESS_STEP_FILES = 200;
+
+export function isPdf(filename: string): boolean {
+  return filename.toLowerCase().endsWith(".pdf");
+}
+
+type FallbackRows = {
+  rows: ParsedBillRow[];
+  adminPaths: Set<string>;
+  messages: string[];
+};
+
+function toFallbackRow(
+  file: JSZipObject,
+  accountKey: string,
+  tradeDate: string | null
+): ParsedBillRow {
+  return {
+    account_key: accountKey,
+    pdf_filename: getBaseName(file.name),
+    zip_entry_path: file.name,
+    trade_date: tradeDate,
+    recipient_override: null,
+    extra_attachments: [],
+    variables: {}
+  };
+}
+
+// Reads rows from file names using the configured filename patterns (first match wins).
+function parseFallbackRows(
+  zip: JSZip,
+  rules: FilenamePatternRule[],
+  onScanProgress?: ScanProgressCallback
+): FallbackRows {
+  const { patterns, errors } = compileFilenamePatterns(rules);
+  const result: FallbackRows = { rows: [], adminPaths: new Set(), messages: errors };
+  const attachments: { file: JSZipObject; match: FilenameMatch }[] = [];
+  const files = Object.values(zip.files).filter((file) => !file.dir);
+
+  for (const [index, file] of files.entries()) {
+    if ((index + 1) % SCAN_PROGRESS_STEP_FILES === 0) {
+      onScanProgress?.(index + 1, files.length);
+    }
+
+    const baseName = getBaseName(file.name);
+    const match = matchFilename(baseName, patterns);
+    if (!match) {
+      continue;
+    }
+
+    if (match.row_type === "attachment") {
+      attachments.push({ file, match });
+      continue;
+    }
+
+    if (!isPdf(baseName)) {
+      result.messages.push(`${baseName} matches "${match.rule.name}" but is not a PDF`);
+      continue;
+    }
+
+    result.rows.push(
+      toFallbackRow(file, normalizeAccountKey(match.account_key), match.trade_date)
+    );
+    if (match.row_type === "admin") {
+      result.adminPaths.add(file.name);
+    }
+  }
+
+  for (const { file, match } of attachments) {
+    const baseName = getBaseName(file.name);
+    const accountKey = normalizeAccountKey(match.account_key);
+    const row = result.rows.find(
+      (candidate) =>
+        candidate.account_key === accountKey &&
+        (match.trade_date === null || candidate.trade_date === match.trade_date)
+    );
+
+    if (!row) {
+      const billLabel = match.trade_date ? `${accountKey} on ${match.trade_date}` : accountKey;
+      result.messages.push(
+        `${baseName} matches "${match.rule.name}" but no bill for account ${billLabel}`
+      );
+      continue;
+    }
+
+    row.extra_attachments.push({
+      filename: baseName,
+      zip_entry_path: file.name
+    });
+  }
+
+  onScanProgress?.(files.length, files.length);
+  return result;
+}
+
+/**
+ * One email per account and trade date: the first PDF stays the bill and the account's other
+ * rows become attachments of it. Manifest rows with different recipients stay separate, and
+ * admin PDFs (adminPaths) are always sent on their own.
+ */
+export function groupRowsByAccount(
+  rows: ParsedBillRow[],
+  adminPaths: ReadonlySet<string> = new Set()
+): ParsedBillRow[] {
+  const groupsByKey = new Map<string, ParsedBillRow>();
+  const grouped: ParsedBillRow[] = [];
+
+  for (const row of rows) {
+    if (adminPaths.has(row.zip_entry_path)) {
+      grouped.push(row);
+      continue;
+    }
+
+    const groupKey = JSON.stringify([row.account_key, row.trade_date, row.recipient_override]);
+    const group = groupsByKey.get(groupKey);
+
+    if (!group) {
+      const first = { ...row, extra_attachments: [...row.extra_attachments] };
+      groupsByKey.set(groupKey, first);
+      grouped.push(first);
+      continue;
+    }
+
+    group.extra_attachments.push(
+      { filename: row.pdf_filename, zip_entry_path: row.zip_entry_path },
+      ...row.extra_attachments
+    );
+    group.variables = { ...group.variables, ...row.variables };
+  }
+
+  return grouped;
+}
+
+/**
+ * Reads bill rows from manifest.json when present (plus any admin PDFs it does not list),
+ * otherwise from file names matched against the filename patterns. Manifest entries that fail
+ * validation are listed in the report rather than dropped silently.
+ */
+export async function parseBillZip(
+  zip: JSZip,
+  filenamePatterns: FilenamePatternRule[] = DEFAULT_FILENAME_PATTERNS,
+  onScanProgress?: ScanProgressCallback
+): Promise<ParsedBillZip> {
+  const messages: string[] = [];
+  let source: ParseSource = "fallback";
+  let parsedRows: ParsedBillRow[] = [];
+  let report: ManifestValidationReport | null = null;
+
+  const manifestFile = zip.file(MANIFEST_FILENAME);
+  if (manifestFile) {
+    const manifestRawText = await manifestFile.async("string");
+    let manifestData: unknown = undefined;
+
+    try {
+      manifestData = JSON.parse(manifestRawText);
+    } catch {
+      messages.push("manifest.json invalid JSON");
+      report = {
+        version: null,
+        accepted: 0,
+        rejected: [
+          {
+            section: "manifest",
+            index: null,
+            key: null,
+            reason: "manifest.json is not valid JSON."
+          }
+        ],
+        failed: []
+      };
+    }
+
+    if (manifestData !== undefined) {
+      const validation = validateManifest(manifestData, (path) => {
+        const entry = findPdfEntry(zip, {
+          pdf_filename: getBaseName(path),
+          zip_entry_path: path
+        });
+        return entry?.name ?? null;
+      });
+      report = validation.report;
+
+      if (validation.usable) {
+        source = "manifest";
+        parsedRows = validation.rows.map((row) => ({
+          account_key: normalizeAccountKey(row.account_key),
+          pdf_filename: getBaseName(row.zip_entry_path),
+          zip_entry_path: row.zip_entry_path,
+          trade_date: row.trade_date,
+          recipient_override: row.recipient_override,
+          extra_attachments: row.attachments,
+          variables: row.variables
+        }));
+      } else {
+        messages.push("manifest.json was not used; bills were read from filenames instead");
+      }
+
+      if (validation.report.rejected.length > 0) {
+        messages.push(
+          `manifest.json: ${validation.report.rejected.length} problem(s), see the validation report`
+        );
+      }
+    }
+  }
+
+  const fallback = parseFallbackRows(zip, filenamePatterns, onScanProgress);
+  messages.push(...fallback.messages);
+
+  if (source !== "manifest") {
+    source = "fallback";
+    parsedRows = fallback.rows;
+  } else {
+    const adminRows = fallback.rows.filter((row) => fallback.adminPaths.has(row.zip_entry_path));
+    if (adminRows.length > 0) {
+      const existingPaths = new Set(parsedRows.map((row) => row.zip_entry_path));
+      for (const row of adminRows) {
+        if (!existingPaths.has(row.zip_entry_path)) {
+          parsedRows.push(row);
+        }
+      }
+    }
+  }
+
+  return {
+    source,
+    rows: groupRowsByAccount(parsedRows, fallback.adminPaths),
+    messages,
+    report
+  };
+}
+
+export function findPdfEntry(
+  zip: JSZip,
+  row: Pick<ParsedBillRow, "pdf_filename" | "zip_entry_path">
+): JSZipObject | null {
+  const directPathMatch = zip.file(row.zip_entry_path);
+  if (directPathMatch && !directPathMatch.dir) {
+    return directPathMatch;
+  }
+
+  const directFilenameMatch = zip.file(row.pdf_filename);
+  if (directFilenameMatch && !directFilenameMatch.dir) {
+    return directFilenameMatch;
+  }
+
+  const targetBaseName = getBaseName(row.pdf_filename);
+  for (const file of Object.values(zip.files)) {
+    if (file.dir) {
+      continue;
+    }
+
+    if (getBaseName(file.name) === targetBaseName) {
+      return file;
+    }
+  }
+
+  return null;
+}
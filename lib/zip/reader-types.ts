@@ -0,0 +1,72 @@
+import type { FilenamePatternRule } from "@/lib/filename-patterns/types";
+import type { ParsedBillRow, ParsedBillZip } from "@/lib/zip/bills";
+
+// reading: the file is streamed into memory. scanning: the ZIP directory is read and the
+// files are matched to bills.
+export type ZipParsePhase = "reading" | "scanning";
+
+// total_files is 0 until the ZIP directory has been read.
+export type ZipParseProgress = {
+  phase: ZipParsePhase;
+  bytes_read: number;
+  total_bytes: number;
+  files_scanned: number;
+  total_files: number;
+};
+
+export type ZipRowEntry = Pick<
+  ParsedBillRow,
+  "pdf_filename" | "zip_entry_path" | "extra_attachments"
+>;
+
+export type BillRowFile = {
+  filename: string;
+  content: ArrayBuffer;
+};
+
+// The bill PDF and the row's other files as bytes, for multipart sends.
+export type BillRowFiles = {
+  pdf: BillRowFile;
+  attachments: BillRowFile[];
+};
+
+export type ZipWorkerRequest =
+  | {
+      id: number;
+      type: "parse";
+      file: File;
+      filename_patterns: FilenamePatternRule[];
+    }
+  | {
+      id: number;
+      type: "read-pdf";
+      row: ZipRowEntry;
+    }
+  | {
+      id: number;
+      type: "read-row";
+      row: ZipRowEntry;
+    };
+
+export type ZipWorkerResult = {
+  parse: ParsedBillZip;
+  "read-pdf": ArrayBuffer;
+  "read-row": BillRowFiles;
+};
+
+export type ZipWorkerResponse =
+  | {
+      id: number;
+      type: "progress";
+      progress: ZipParseProgress;
+    }
+  | {
+      id: number;
+      type: "result";
+      result: ZipWorkerResult[keyof ZipWorkerResult];
+    }
+  | {
+      id: number;
+      type: "error";
+      error: string;
+    };
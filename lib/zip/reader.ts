@@ -0,0 +1,114 @@
+import type { FilenamePatternRule } from "@/lib/filename-patterns/types";
+import type { ParsedBillZip } from "@/lib/zip/bills";
+import type {
+  BillRowFiles,
+  ZipParseProgress,
+  ZipRowEntry,
+  ZipWorkerRequest,
+  ZipWorkerResponse,
+  ZipWorkerResult
+} from "@/lib/zip/reader-types";
+
+export const ZIP_PARSE_CANCELLED_MESSAGE = "ZIP parsing was cancelled.";
+
+type PendingRequest = {
+  resolve: (result: ZipWorkerResult[keyof ZipWorkerResult]) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ZipParseProgress) => void;
+};
+
+export type BillZipReader = {
+  parse: (
+    file: File,
+    filenamePatterns: FilenamePatternRule[],
+    onProgress: (progress: ZipParseProgress) => void
+  ) => Promise<ParsedBillZip>;
+  readPdf: (row: ZipRowEntry) => Promise<ArrayBuffer>;
+  readRow: (row: ZipRowEntry) => Promise<BillRowFiles>;
+  // Stops the worker mid-parse; pending requests reject with ZIP_PARSE_CANCELLED_MESSAGE.
+  cancel: () => void;
+  dispose: () => void;
+};
+
+/**
+ * Reads bill ZIPs in a Web Worker so loading and file extraction of large uploads do not block
+ * the page. The worker keeps the last parsed ZIP for later reads and is
+ * started again on demand after a cancel.
+ */
+export function createBillZipReader(): BillZipReader {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingRequest>();
+
+  const rejectAll = (message: string) => {
+    for (const request of pending.values()) {
+      request.reject(new Error(message));
+    }
+    pending.clear();
+  };
+
+  const stopWorker = (message: string) => {
+    worker?.terminate();
+    worker = null;
+    rejectAll(message);
+  };
+
+  const getWorker = (): Worker => {
+    if (worker) {
+      return worker;
+    }
+
+    const started = new Worker(new URL("./bill-zip.worker.ts", import.meta.url));
+    started.addEventListener("message", (event: MessageEvent<ZipWorkerResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) {
+        return;
+      }
+
+      if (response.type === "progress") {
+        request.onProgress?.(response.progress);
+        return;
+      }
+
+      pending.delete(response.id);
+      if (response.type === "error") {
+        request.reject(new Error(response.error));
+      } else {
+        request.resolve(response.result);
+      }
+    });
+    started.addEventListener("error", () => {
+      stopWorker("ZIP reader stopped unexpectedly. Re-upload the file.");
+    });
+
+    worker = started;
+    return started;
+  };
+
+  function send<T extends ZipWorkerRequest["type"]>(
+    request: Omit<Extract<ZipWorkerRequest, { type: T }>, "id">,
+    onProgress?: (progress: ZipParseProgress) => void
+  ): Promise<ZipWorkerResult[T]> {
+    const id = nextId++;
+    const target = getWorker();
+
+    return new Promise((resolve, reject) => {
+      pending.set(id, {
+        resolve: resolve as PendingRequest["resolve"],
+        reject,
+        onProgress
+      });
+      target.postMessage({ ...request, id });
+    });
+  }
+
+  return {
+    parse: (file, filenamePatterns, onProgress) =>
+      send<"parse">({ type: "parse", file, filename_patterns: filenamePatterns }, onProgress),
+    readPdf: (row) => send<"read-pdf">({ type: "read-pdf", row }),
+    readRow: (row) => send<"read-row">({ type: "read-row", row }),
+    cancel: () => stopWorker(ZIP_PARSE_CANCELLED_MESSAGE),
+    dispose: () => stopWorker("ZIP reader was closed.")
+  };
+}
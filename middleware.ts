@@ -1,5 +1,7 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { getProfileForAuthUser, hasAdminAccess } from "@/lib/auth/profile";
+import { getMfaStatus, getSignedInPath, isMfaPending } from "@/lib/auth/mfa";
+import { getRoutePermission, hasPermission } from "@/lib/auth/permissions";
+import { getProfileForAuthUser } from "@/lib/auth/profile";
 import { createClient } from "@/lib/supabase/middleware";
 
 function redirectWithCookies(
@@ -22,7 +24,7 @@ export async function middleware(request: NextRequest) {
   const isLoginRoute = pathname === "/login";
   const isCallbackRoute = pathname === "/auth/callback";
   const isAccessDeniedRoute = pathname === "/access-denied";
-  const isAdminRoute = pathname === "/" || pathname.startsWith("/contacts");
+  const routePermission = getRoutePermission(pathname);
   const { supabase, response } = createClient(request);
 
   // Let callback pass; auth code exchange and cookie writes happen in the route handler.
@@ -43,27 +45,43 @@ export async function middleware(request: NextRequest) {
 
     const userEmail = user?.email ?? null;
     const profile = await getProfileForAuthUser(supabase, user?.id);
-    const isAdmin = hasAdminAccess(userEmail, profile.role);
 
-    return isAdmin
-      ? redirectWithCookies(request, "/", response)
-      : redirectWithCookies(request, "/user", response);
+    return redirectWithCookies(
+      request,
+      await getSignedInPath(supabase, userEmail, profile.role),
+      response
+    );
   }
 
   if (!isAuthenticated) {
     return redirectWithCookies(request, "/login", response);
   }
 
+  if (!routePermission && !isAccessDeniedRoute) {
+    return response;
+  }
+
   const userEmail = user?.email ?? null;
   const profile = await getProfileForAuthUser(supabase, user?.id);
-  const isAdmin = hasAdminAccess(userEmail, profile.role);
 
-  if (isAdminRoute && !isAdmin) {
+  // Console users have somewhere to go; the access-denied page is for everyone else.
+  if (isAccessDeniedRoute) {
+    return hasPermission(userEmail, profile.role, "console:view")
+      ? redirectWithCookies(request, "/", response)
+      : response;
+  }
+
+  if (!routePermission) {
+    return response;
+  }
+
+  if (!hasPermission(userEmail, profile.role, routePermission)) {
     return redirectWithCookies(request, "/access-denied", response);
   }
 
-  if (isAccessDeniedRoute && isAdmin) {
-    return redirectWithCookies(request, "/", response);
+  // Console routes need an AAL2 session once the user has (or must have) an authenticator.
+  if (isMfaPending(await getMfaStatus(supabase, userEmail, profile.role))) {
+    return redirectWithCookies(request, "/mfa", response);
   }
 
   return response;
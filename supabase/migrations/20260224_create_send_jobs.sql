@@ -0,0 +1,160 @@
+create table if not exists public.send_jobs (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  created_by_auth_user_id uuid not null references auth.users(id) on delete restrict,
+  zip_filename text not null,
+  status text not null default 'uploading'
+    check (status in ('uploading', 'queued', 'running', 'completed', 'cancelled')),
+  total_items integer not null default 0,
+  sent_count integer not null default 0,
+  failed_count integer not null default 0,
+  started_at timestamptz,
+  completed_at timestamptz
+);
+
+create index if not exists send_jobs_status_created_idx
+  on public.send_jobs (status, created_at);
+
+create index if not exists send_jobs_zip_filename_idx
+  on public.send_jobs (zip_filename);
+
+create table if not exists public.send_job_items (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.send_jobs(id) on delete cascade,
+  row_key text not null,
+  account_key text not null,
+  trade_date text,
+  to_email text not null,
+  to_name text,
+  filename text not null,
+  pdf_base64 text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'sending', 'sent', 'failed')),
+  error text,
+  message_id text,
+  attempts integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (job_id, row_key)
+);
+
+create index if not exists send_job_items_job_status_idx
+  on public.send_job_items (job_id, status);
+
+create or replace function public.set_send_jobs_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists send_jobs_set_updated_at on public.send_jobs;
+create trigger send_jobs_set_updated_at
+before update on public.send_jobs
+for each row
+execute function public.set_send_jobs_updated_at();
+
+drop trigger if exists send_job_items_set_updated_at on public.send_job_items;
+create trigger send_job_items_set_updated_at
+before update on public.send_job_items
+for each row
+execute function public.set_send_jobs_updated_at();
+
+-- Claims pending items for the worker. Items stuck in 'sending' (worker crashed or
+-- timed out) become claimable again after 10 minutes.
+create or replace function public.claim_send_job_items(p_limit integer)
+returns setof public.send_job_items
+language sql
+as $$
+  update public.send_job_items as item
+  set status = 'sending',
+      attempts = item.attempts + 1
+  where item.id in (
+    select candidate.id
+    from public.send_job_items as candidate
+    join public.send_jobs as job on job.id = candidate.job_id
+    where job.status in ('queued', 'running')
+      and (
+        candidate.status = 'pending'
+        or (candidate.status = 'sending' and candidate.updated_at < now() - interval '10 minutes')
+      )
+    order by job.created_at, candidate.created_at
+    limit p_limit
+    for update of candidate skip locked
+  )
+  returning item.*;
+$$;
+
+create or replace function public.sync_send_job_progress(p_job_id uuid)
+returns void
+language sql
+as $$
+  update public.send_jobs as job
+  set sent_count = counts.sent_count,
+      failed_count = counts.failed_count,
+      status = case
+        when job.status in ('queued', 'running') and counts.open_count = 0 then 'completed'
+        when job.status = 'queued' and counts.open_count < job.total_items then 'running'
+        else job.status
+      end,
+      started_at = coalesce(job.started_at, case when counts.open_count < job.total_items then now() end),
+      completed_at = case
+        when job.status in ('queued', 'running') and counts.open_count = 0 then now()
+        else job.completed_at
+      end
+  from (
+    select
+      count(*) filter (where status = 'sent') as sent_count,
+      count(*) filter (where status = 'failed') as failed_count,
+      count(*) filter (where status in ('pending', 'sending')) as open_count
+    from public.send_job_items
+    where job_id = p_job_id
+  ) as counts
+  where job.id = p_job_id;
+$$;
+
+revoke execute on function public.claim_send_job_items(integer) from public, anon, authenticated;
+revoke execute on function public.sync_send_job_progress(uuid) from public, anon, authenticated;
+
+alter table public.send_jobs enable row level security;
+alter table public.send_job_items enable row level security;
+
+drop policy if exists send_jobs_select_authenticated on public.send_jobs;
+create policy send_jobs_select_authenticated
+  on public.send_jobs
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists send_jobs_insert_authenticated on public.send_jobs;
+create policy send_jobs_insert_authenticated
+  on public.send_jobs
+  for insert
+  to authenticated
+  with check (auth.uid() = created_by_auth_user_id);
+
+drop policy if exists send_jobs_update_authenticated on public.send_jobs;
+create policy send_jobs_update_authenticated
+  on public.send_jobs
+  for update
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists send_job_items_select_authenticated on public.send_job_items;
+create policy send_job_items_select_authenticated
+  on public.send_job_items
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists send_job_items_insert_authenticated on public.send_job_items;
+create policy send_job_items_insert_authenticated
+  on public.send_job_items
+  for insert
+  to authenticated
+  with check (true);
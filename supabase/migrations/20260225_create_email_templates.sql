@@ -0,0 +1,73 @@
+create table if not exists public.email_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  subject text not null,
+  body_text text not null,
+  body_html text,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists email_templates_single_default_idx
+  on public.email_templates (is_default)
+  where is_default;
+
+create or replace function public.set_email_templates_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists email_templates_set_updated_at on public.email_templates;
+create trigger email_templates_set_updated_at
+before update on public.email_templates
+for each row
+execute function public.set_email_templates_updated_at();
+
+insert into public.email_templates (name, subject, body_text, is_default)
+values (
+  'Default bill',
+  'Learn Unlearn Relearn "{{trade_date}}"',
+  E'Hi\n\nPFA ref for below.',
+  true
+)
+on conflict (name) do nothing;
+
+alter table public.send_jobs
+  add column if not exists template_id uuid references public.email_templates(id) on delete set null;
+
+alter table public.email_templates enable row level security;
+
+drop policy if exists email_templates_select_authenticated on public.email_templates;
+create policy email_templates_select_authenticated
+  on public.email_templates
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists email_templates_insert_authenticated on public.email_templates;
+create policy email_templates_insert_authenticated
+  on public.email_templates
+  for insert
+  to authenticated
+  with check (true);
+
+drop policy if exists email_templates_update_authenticated on public.email_templates;
+create policy email_templates_update_authenticated
+  on public.email_templates
+  for update
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists email_templates_delete_authenticated on public.email_templates;
+create policy email_templates_delete_authenticated
+  on public.email_templates
+  for delete
+  to authenticated
+  using (true);
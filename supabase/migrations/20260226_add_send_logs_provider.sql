@@ -0,0 +1,6 @@
+alter table public.send_logs
+  add column if not exists provider text not null default 'gmail'
+    check (provider in ('gmail', 'smtp', 'file'));
+
+create index if not exists send_logs_provider_sent_at_idx
+  on public.send_logs (provider, sent_at desc);
@@ -0,0 +1,56 @@
+create table if not exists public.contact_recipients (
+  id uuid primary key default gen_random_uuid(),
+  account_key text not null references public.contacts(account_key)
+    on update cascade
+    on delete cascade,
+  kind text not null check (kind in ('to', 'cc', 'bcc')),
+  email text not null,
+  name text,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (account_key, email)
+);
+
+create index if not exists contact_recipients_account_idx
+  on public.contact_recipients (account_key, position);
+
+create index if not exists contact_recipients_email_idx
+  on public.contact_recipients (email);
+
+alter table public.send_logs
+  add column if not exists recipient_type text not null default 'to'
+    check (recipient_type in ('to', 'cc', 'bcc'));
+
+alter table public.send_job_items
+  add column if not exists recipients jsonb not null default '[]'::jsonb;
+
+alter table public.contact_recipients enable row level security;
+
+drop policy if exists contact_recipients_select_authenticated on public.contact_recipients;
+create policy contact_recipients_select_authenticated
+  on public.contact_recipients
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists contact_recipients_insert_authenticated on public.contact_recipients;
+create policy contact_recipients_insert_authenticated
+  on public.contact_recipients
+  for insert
+  to authenticated
+  with check (true);
+
+drop policy if exists contact_recipients_update_authenticated on public.contact_recipients;
+create policy contact_recipients_update_authenticated
+  on public.contact_recipients
+  for update
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists contact_recipients_delete_authenticated on public.contact_recipients;
+create policy contact_recipients_delete_authenticated
+  on public.contact_recipients
+  for delete
+  to authenticated
+  using (true);
@@ -0,0 +1,24 @@
+create index if not exists send_logs_sent_by_sent_at_idx
+  on public.send_logs (sent_by_auth_user_id, sent_at desc);
+
+create index if not exists send_logs_status_sent_at_idx
+  on public.send_logs (status, sent_at desc);
+
+-- Everyone who has sent at least one bill, for the history page sender filter and
+-- sender column. profiles and auth.users are not readable by other users under RLS,
+-- so this is only executable with the service role.
+create or replace function public.list_send_log_senders()
+returns table (auth_user_id uuid, email text, user_id text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select senders.sent_by_auth_user_id, users.email::text, profiles.user_id
+  from (select distinct sent_by_auth_user_id from public.send_logs) as senders
+  left join auth.users as users on users.id = senders.sent_by_auth_user_id
+  left join public.profiles as profiles on profiles.auth_user_id = senders.sent_by_auth_user_id
+  order by coalesce(profiles.user_id, users.email::text);
+$$;
+
+revoke execute on function public.list_send_log_senders() from public, anon, authenticated;
@@ -0,0 +1,29 @@
+alter table public.send_jobs
+  add column if not exists scheduled_for timestamptz;
+
+alter table public.send_jobs drop constraint if exists send_jobs_status_check;
+alter table public.send_jobs
+  add constraint send_jobs_status_check
+  check (status in ('uploading', 'scheduled', 'queued', 'running', 'completed', 'cancelled'));
+
+create index if not exists send_jobs_scheduled_for_idx
+  on public.send_jobs (scheduled_for)
+  where status = 'scheduled';
+
+-- Moves scheduled jobs whose time has come onto the queue. The worker calls this before
+-- claiming items, so a job fires on the first worker run at or after scheduled_for.
+create or replace function public.release_due_send_jobs()
+returns integer
+language sql
+as $$
+  with released as (
+    update public.send_jobs
+    set status = 'queued'
+    where status = 'scheduled'
+      and scheduled_for <= now()
+    returning id
+  )
+  select count(*)::integer from released;
+$$;
+
+revoke execute on function public.release_due_send_jobs() from public, anon, authenticated;
@@ -0,0 +1,20 @@
+alter table public.send_logs
+  add column if not exists sender_email text;
+
+create index if not exists send_logs_sender_email_sent_at_idx
+  on public.send_logs (sender_email, sent_at desc)
+  where status = 'sent';
+
+-- Messages sent from one address since p_since. A message with CC/BCC recipients has one
+-- send_logs row per recipient, so messages are counted by distinct message id.
+create or replace function public.count_sender_messages(p_sender_email text, p_since timestamptz)
+returns integer
+language sql
+stable
+as $$
+  select count(distinct message_id)::integer
+  from public.send_logs
+  where sender_email = p_sender_email
+    and status = 'sent'
+    and sent_at >= p_since;
+$$;
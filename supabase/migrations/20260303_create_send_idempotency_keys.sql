@@ -0,0 +1,112 @@
+-- One row per bill (ZIP + account + PDF hash) that has been sent or is being sent, so a
+-- second send of the same bill is refused server-side no matter which admin or tab starts it.
+create table if not exists public.send_idempotency_keys (
+  idempotency_key text primary key,
+  zip_filename text not null,
+  account_key text not null,
+  pdf_sha256 text not null,
+  status text not null check (status in ('sending', 'sent')),
+  message_id text,
+  sent_by_auth_user_id uuid not null references auth.users(id) on delete restrict,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.send_logs
+  add column if not exists idempotency_key text,
+  add column if not exists forced_reason text;
+
+create index if not exists send_logs_idempotency_key_idx
+  on public.send_logs (idempotency_key);
+
+alter table public.send_idempotency_keys enable row level security;
+
+drop policy if exists send_idempotency_keys_select_authenticated on public.send_idempotency_keys;
+create policy send_idempotency_keys_select_authenticated
+  on public.send_idempotency_keys
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists send_idempotency_keys_insert_authenticated on public.send_idempotency_keys;
+create policy send_idempotency_keys_insert_authenticated
+  on public.send_idempotency_keys
+  for insert
+  to authenticated
+  with check (true);
+
+drop policy if exists send_idempotency_keys_update_authenticated on public.send_idempotency_keys;
+create policy send_idempotency_keys_update_authenticated
+  on public.send_idempotency_keys
+  for update
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists send_idempotency_keys_delete_authenticated on public.send_idempotency_keys;
+create policy send_idempotency_keys_delete_authenticated
+  on public.send_idempotency_keys
+  for delete
+  to authenticated
+  using (true);
+
+-- Claims the right to send one bill. A bill that is already sent is only claimed again when
+-- p_force is set. A send still in flight is never taken over unless it has been stuck for
+-- 10 minutes, the same window claim_send_job_items uses.
+create or replace function public.claim_send_idempotency_key(
+  p_key text,
+  p_zip_filename text,
+  p_account_key text,
+  p_pdf_sha256 text,
+  p_auth_user_id uuid,
+  p_force boolean
+)
+returns table (
+  claimed boolean,
+  existing_status text,
+  existing_message_id text,
+  existing_updated_at timestamptz
+)
+language plpgsql
+as $$
+declare
+  existing public.send_idempotency_keys;
+begin
+  insert into public.send_idempotency_keys (
+    idempotency_key,
+    zip_filename,
+    account_key,
+    pdf_sha256,
+    status,
+    sent_by_auth_user_id
+  )
+  values (p_key, p_zip_filename, p_account_key, p_pdf_sha256, 'sending', p_auth_user_id)
+  on conflict (idempotency_key) do nothing;
+
+  if found then
+    return query select true, null::text, null::text, null::timestamptz;
+    return;
+  end if;
+
+  select *
+  into existing
+  from public.send_idempotency_keys as key_row
+  where key_row.idempotency_key = p_key
+  for update;
+
+  if (existing.status = 'sending' and existing.updated_at > now() - interval '10 minutes')
+    or (existing.status = 'sent' and not p_force) then
+    return query select false, existing.status, existing.message_id, existing.updated_at;
+    return;
+  end if;
+
+  update public.send_idempotency_keys as key_row
+  set status = 'sending',
+      sent_by_auth_user_id = p_auth_user_id,
+      updated_at = now()
+  where key_row.idempotency_key = p_key;
+
+  -- message_id is kept so a failed forced resend can fall back to the earlier send.
+  return query select true, existing.status, existing.message_id, existing.updated_at;
+end;
+$$;
@@ -0,0 +1,43 @@
+-- Archived ZIPs and bill PDFs (BILL_STORAGE_MODE). Bytes live in Supabase Storage or on local
+-- disk; rows are content-addressed by SHA-256 and kept after the bytes are purged.
+create table if not exists public.stored_documents (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('zip', 'pdf')),
+  sha256 text not null,
+  byte_size bigint not null,
+  filename text not null,
+  storage_mode text not null check (storage_mode in ('supabase', 'local')),
+  storage_path text not null,
+  uploaded_by_auth_user_id uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz not null default now(),
+  purged_at timestamptz,
+  unique (kind, sha256)
+);
+
+create index if not exists stored_documents_retention_idx
+  on public.stored_documents (last_used_at)
+  where purged_at is null;
+
+alter table public.send_logs
+  add column if not exists pdf_sha256 text,
+  add column if not exists pdf_document_id uuid references public.stored_documents(id) on delete set null,
+  add column if not exists zip_document_id uuid references public.stored_documents(id) on delete set null;
+
+alter table public.send_jobs
+  add column if not exists zip_document_id uuid references public.stored_documents(id) on delete set null;
+
+alter table public.stored_documents enable row level security;
+
+-- Writes go through the service role only.
+drop policy if exists stored_documents_select_authenticated on public.stored_documents;
+create policy stored_documents_select_authenticated
+  on public.stored_documents
+  for select
+  to authenticated
+  using (true);
+
+-- Private bucket for BILL_STORAGE_MODE=supabase (override the name with BILL_STORAGE_BUCKET).
+insert into storage.buckets (id, name, public)
+values ('bill-archive', 'bill-archive', false)
+on conflict (id) do nothing;
@@ -0,0 +1,17 @@
+alter table public.contacts
+  add column if not exists pdf_password_mode text not null default 'none'
+    check (pdf_password_mode in ('none', 'derived', 'stored')),
+  add column if not exists pdf_password_hint text,
+  add column if not exists pdf_password_updated_at timestamptz;
+
+-- Stored PDF passwords (PAN-style values) live apart from contacts so the authenticated role
+-- can never read them: there are no policies, only the service role has access.
+create table if not exists public.contact_pdf_passwords (
+  account_key text primary key references public.contacts(account_key)
+    on update cascade
+    on delete cascade,
+  password text not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.contact_pdf_passwords enable row level security;
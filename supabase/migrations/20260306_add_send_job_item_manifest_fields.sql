@@ -0,0 +1,5 @@
+-- Manifest v2 lets a row carry extra files and template variables; queued items keep them
+-- until the worker sends the bill.
+alter table public.send_job_items
+  add column if not exists extra_attachments jsonb not null default '[]'::jsonb,
+  add column if not exists variables jsonb not null default '{}'::jsonb;
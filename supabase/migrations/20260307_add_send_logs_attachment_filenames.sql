@@ -0,0 +1,4 @@
+-- One email can carry several files for an account (bill PDF first, then contract notes,
+-- CSV/XLSX statements). Every attached filename is recorded with the send.
+alter table public.send_logs
+  add column if not exists attachment_filenames text[] not null default '{}';
@@ -0,0 +1,74 @@
+create table if not exists public.filename_patterns (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  pattern text not null,
+  row_type text not null check (row_type in ('bill', 'admin', 'attachment')),
+  position integer not null default 0,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists filename_patterns_position_idx
+  on public.filename_patterns (position);
+
+create or replace function public.set_filename_patterns_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists filename_patterns_set_updated_at on public.filename_patterns;
+create trigger filename_patterns_set_updated_at
+before update on public.filename_patterns
+for each row
+execute function public.set_filename_patterns_updated_at();
+
+-- Same rules as the parser's built-in defaults.
+insert into public.filename_patterns (name, pattern, row_type, position)
+values
+  ('Admin bill', '^Bill_Admin_(?<trade_date>.*)\.pdf$', 'admin', 10),
+  ('Admin summary', '^Summary_Admin(?:.*_(?<trade_date>[^_]+))?\.pdf$', 'admin', 20),
+  ('Bill', '^Bill_(?<account>[^_]+)_(?<trade_date>.*)\.pdf$', 'bill', 30),
+  (
+    'Other account file',
+    '^[^_]+_(?<account>[^_]+)_(?<trade_date>.+)\.(?:pdf|csv|xlsx|xls)$',
+    'attachment',
+    40
+  )
+on conflict (name) do nothing;
+
+alter table public.filename_patterns enable row level security;
+
+drop policy if exists filename_patterns_select_authenticated on public.filename_patterns;
+create policy filename_patterns_select_authenticated
+  on public.filename_patterns
+  for select
+  to authenticated
+  using (true);
+
+drop policy if exists filename_patterns_insert_authenticated on public.filename_patterns;
+create policy filename_patterns_insert_authenticated
+  on public.filename_patterns
+  for insert
+  to authenticated
+  with check (true);
+
+drop policy if exists filename_patterns_update_authenticated on public.filename_patterns;
+create policy filename_patterns_update_authenticated
+  on public.filename_patterns
+  for update
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists filename_patterns_delete_authenticated on public.filename_patterns;
+create policy filename_patterns_delete_authenticated
+  on public.filename_patterns
+  for delete
+  to authenticated
+  using (true);
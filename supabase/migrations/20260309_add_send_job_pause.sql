@@ -0,0 +1,39 @@
+alter table public.send_jobs drop constraint if exists send_jobs_status_check;
+alter table public.send_jobs
+  add constraint send_jobs_status_check
+  check (
+    status in ('uploading', 'scheduled', 'queued', 'running', 'paused', 'completed', 'cancelled')
+  );
+
+-- Same as before, but a paused job whose in-flight items finish with nothing left pending is
+-- completed too. claim_send_job_items only claims from queued and running jobs, so pausing a
+-- job stops new sends while leaving its pending items untouched.
+create or replace function public.sync_send_job_progress(p_job_id uuid)
+returns void
+language sql
+as $$
+  update public.send_jobs as job
+  set sent_count = counts.sent_count,
+      failed_count = counts.failed_count,
+      status = case
+        when job.status in ('queued', 'running', 'paused') and counts.open_count = 0 then 'completed'
+        when job.status = 'queued' and counts.open_count < job.total_items then 'running'
+        else job.status
+      end,
+      started_at = coalesce(job.started_at, case when counts.open_count < job.total_items then now() end),
+      completed_at = case
+        when job.status in ('queued', 'running', 'paused') and counts.open_count = 0 then now()
+        else job.completed_at
+      end
+  from (
+    select
+      count(*) filter (where status = 'sent') as sent_count,
+      count(*) filter (where status = 'failed') as failed_count,
+      count(*) filter (where status in ('pending', 'sending')) as open_count
+    from public.send_job_items
+    where job_id = p_job_id
+  ) as counts
+  where job.id = p_job_id;
+$$;
+
+revoke execute on function public.sync_send_job_progress(uuid) from public, anon, authenticated;
@@ -0,0 +1,14 @@
+-- Console roles replace the single admin role. Existing admins become super admins and any
+-- role the app does not know falls back to user (no console access).
+update public.profiles
+set role = 'super_admin'
+where lower(role) = 'admin';
+
+update public.profiles
+set role = 'user'
+where role not in ('user', 'viewer', 'contact_editor', 'sender', 'approver', 'super_admin');
+
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles
+  add constraint profiles_role_check
+  check (role in ('user', 'viewer', 'contact_editor', 'sender', 'approver', 'super_admin'));
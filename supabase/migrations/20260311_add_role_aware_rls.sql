@@ -0,0 +1,313 @@
+-- Row level security that mirrors the console roles in lib/auth/permissions.ts. Before this
+-- migration any signed-in account, including plain `user` accounts of the user portal, could
+-- read and change contacts, templates and send history through the browser client.
+
+-- Emails that are super admins whatever their profile role. Keep it in sync with
+-- ALPHA_TECH_X_ADMIN_EMAILS; the database cannot read the app's environment.
+create table if not exists public.admin_email_allowlist (
+  email text primary key check (email = lower(email)),
+  created_at timestamptz not null default now()
+);
+
+-- No policies: only the service role and the functions below read it.
+alter table public.admin_email_allowlist enable row level security;
+
+-- The caller's console role: 'super_admin' for allowlisted emails and the old 'admin' role,
+-- otherwise profiles.role ('user' when there is no profile).
+create or replace function public.app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (
+      select 1
+      from public.admin_email_allowlist
+      where email = lower(coalesce(auth.jwt() ->> 'email', ''))
+    ) then 'super_admin'
+    else coalesce(
+      (
+        select case when lower(role) = 'admin' then 'super_admin' else role end
+        from public.profiles
+        where auth_user_id = auth.uid()
+      ),
+      'user'
+    )
+  end;
+$$;
+
+-- Same permission map as ROLE_PERMISSIONS in lib/auth/permissions.ts; change both together.
+create or replace function public.has_app_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_permission = any (
+    case public.app_role()
+      when 'viewer' then array['console:view']
+      when 'contact_editor' then array['console:view', 'contacts:edit']
+      when 'sender' then array['console:view', 'emails:send']
+      when 'approver' then
+        array['console:view', 'emails:send', 'send_jobs:manage', 'templates:edit']
+      when 'super_admin' then
+        array[
+          'console:view',
+          'contacts:edit',
+          'templates:edit',
+          'filename_patterns:edit',
+          'emails:send',
+          'send_jobs:manage',
+          'users:manage'
+        ]
+      else array[]::text[]
+    end
+  );
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.app_role() = 'super_admin';
+$$;
+
+revoke execute on function public.app_role() from public, anon;
+revoke execute on function public.has_app_permission(text) from public, anon;
+revoke execute on function public.is_admin() from public, anon;
+grant execute on function public.app_role() to authenticated;
+grant execute on function public.has_app_permission(text) to authenticated;
+grant execute on function public.is_admin() to authenticated;
+
+-- contacts
+drop policy if exists contacts_select_authenticated on public.contacts;
+create policy contacts_select_authenticated
+  on public.contacts
+  for select
+  to authenticated
+  using (public.has_app_permission('console:view'));
+
+drop policy if exists contacts_insert_authenticated on public.contacts;
+create policy contacts_insert_authenticated
+  on public.contacts
+  for insert
+  to authenticated
+  with check (public.has_app_permission('contacts:edit'));
+
+drop policy if exists contacts_update_authenticated on public.contacts;
+create policy contacts_update_authenticated
+  on public.contacts
+  for update
+  to authenticated
+  using (public.has_app_permission('contacts:edit'))
+  with check (public.has_app_permission('contacts:edit'));
+
+drop policy if exists contacts_delete_authenticated on public.contacts;
+create policy contacts_delete_authenticated
+  on public.contacts
+  for delete
+  to authenticated
+  using (public.has_app_permission('contacts:edit'));
+
+-- contact_recipients
+drop policy if exists contact_recipients_select_authenticated on public.contact_recipients;
+create policy contact_recipients_select_authenticated
+  on public.contact_recipients
+  for select
+  to authenticated
+  using (public.has_app_permission('console:view'));
+
+drop policy if exists contact_recipients_insert_authenticated on public.contact_recipients;
+create policy contact_recipients_insert_authenticated
+  on public.contact_recipients
+  for insert
+  to authenticated
+  with check (public.has_app_permission('contacts:edit'));
+
+drop policy if exists contact_recipients_update_authenticated on public.contact_recipients;
+create policy contact_recipients_update_authenticated
+  on public.contact_recipients
+  for update
+  to authenticated
+  using (public.has_app_permission('contacts:edit'))
+  with check (public.has_app_permission('contacts:edit'));
+
+drop policy if exists contact_recipients_delete_authenticated on public.contact_recipients;
+create policy contact_recipients_delete_authenticated
+  on public.contact_recipients
+  for delete
+  to authenticated
+  using (public.has_app_permission('contacts:edit'));
+
+-- send_logs
+drop policy if exists send_logs_select_authenticated on public.send_logs;
+create policy send_logs_select_authenticated
+  on public.send_logs
+  for select
+  to authenticated
+  using (public.has_app_permission('console:view'));
+
+drop policy if exists send_logs_insert_authenticated on public.send_logs;
+create policy send_logs_insert_authenticated
+  on public.send_logs
+  for insert
+  to authenticated
+  with check (public.has_app_permission('emails:send'));
+
+-- send_idempotency_keys (claimed, completed and released by /api/send-email)
+drop policy if exists send_idempotency_keys_select_authenticated on public.send_idempotency_keys;
+create policy send_idempotency_keys_select_authenticated
+  on public.send_idempotency_keys
+  for select
+  to authenticated
+  using (public.has_app_permission('emails:send'));
+
+drop policy if exists send_idempotency_keys_insert_authenticated on public.send_idempotency_keys;
+create policy send_idempotency_keys_insert_authenticated
+  on public.send_idempotency_keys
+  for insert
+  to authenticated
+  with check (public.has_app_permission('emails:send'));
+
+drop policy if exists send_idempotency_keys_update_authenticated on public.send_idempotency_keys;
+create policy send_idempotency_keys_update_authenticated
+  on public.send_idempotency_keys
+  for update
+  to authenticated
+  using (public.has_app_permission('emails:send'))
+  with check (public.has_app_permission('emails:send'));
+
+drop policy if exists send_idempotency_keys_delete_authenticated on public.send_idempotency_keys;
+create policy send_idempotency_keys_delete_authenticated
+  on public.send_idempotency_keys
+  for delete
+  to authenticated
+  using (public.has_app_permission('emails:send'));
+
+-- send_jobs: senders create and start jobs; pausing, resuming, cancelling and rescheduling
+-- need send_jobs:manage, which the API routes check before updating.
+drop policy if exists send_jobs_select_authenticated on public.send_jobs;
+create policy send_jobs_select_authenticated
+  on public.send_jobs
+  for select
+  to authenticated
+  using (public.has_app_permission('console:view'));
+
+drop policy if exists send_jobs_insert_authenticated on public.send_jobs;
+create policy send_jobs_insert_authenticated
+  on public.send_jobs
+  for insert
+  to authenticated
+  with check (
+    auth.uid() = created_by_auth_user_id and public.has_app_permission('emails:send')
+  );
+
+drop policy if exists send_jobs_update_authenticated on public.send_jobs;
+create policy send_jobs_update_authenticated
+  on public.send_jobs
+  for update
+  to authenticated
+  using (
+    public.has_app_permission('emails:send') or public.has_app_permission('send_jobs:manage')
+  )
+  with check (
+    public.has_app_permission('emails:send') or public.has_app_permission('send_jobs:manage')
+  );
+
+-- send_job_items
+drop policy if exists send_job_items_select_authenticated on public.send_job_items;
+create policy send_job_items_select_authenticated
+  on public.send_job_items
+  for select
+  to authenticated
+  using (public.has_app_permission('console:view'));
+
+drop policy if exists send_job_items_insert_authenticated on public.send_job_items;
+create policy send_job_items_insert_authenticated
+  on public.send_job_items
+  for insert
+  to authenticated
+  with check (public.has_app_permission('emails:send'));
+
+-- Cancelling a job clears the PDFs of its pending items.
+drop policy if exists send_job_items_update_authenticated on public.send_job_items;
+create policy send_job_items_update_authenticated
+  on public.send_job_items
+  for update
+  to authenticated
+  using (public.has_app_permission('send_jobs:manage'))
+  with check (public.has_app_permission('send_jobs:manage'));
+
+-- email_templates
+drop policy if exists email_templates_select_authenticated on public.email_templates;
+create policy email_templates_select_authenticated
+  on public.email_templates
+  for select
+  to authenticated
+  using (public.has_app_permission('console:view'));
+
+drop policy if exists email_templates_insert_authenticated on public.email_templates;
+create policy email_templates_insert_authenticated
+  on public.email_templates
+  for insert
+  to authenticated
+  with check (public.has_app_permission('templates:edit'));
+
+drop policy if exists email_templates_update_authenticated on public.email_templates;
+create policy email_templates_update_authenticated
+  on public.email_templates
+  for update
+  to authenticated
+  using (public.has_app_permission('templates:edit'))
+  with check (public.has_app_permission('templates:edit'));
+
+drop policy if exists email_templates_delete_authenticated on public.email_templates;
+create policy email_templates_delete_authenticated
+  on public.email_templates
+  for delete
+  to authenticated
+  using (public.has_app_permission('templates:edit'));
+
+-- filename_patterns
+drop policy if exists filename_patterns_select_authenticated on public.filename_patterns;
+create policy filename_patterns_select_authenticated
+  on public.filename_patterns
+  for select
+  to authenticated
+  using (public.has_app_permission('console:view'));
+
+drop policy if exists filename_patterns_insert_authenticated on public.filename_patterns;
+create policy filename_patterns_insert_authenticated
+  on public.filename_patterns
+  for insert
+  to authenticated
+  with check (public.has_app_permission('filename_patterns:edit'));
+
+drop policy if exists filename_patterns_update_authenticated on public.filename_patterns;
+create policy filename_patterns_update_authenticated
+  on public.filename_patterns
+  for update
+  to authenticated
+  using (public.has_app_permission('filename_patterns:edit'))
+  with check (public.has_app_permission('filename_patterns:edit'));
+
+drop policy if exists filename_patterns_delete_authenticated on public.filename_patterns;
+create policy filename_patterns_delete_authenticated
+  on public.filename_patterns
+  for delete
+  to authenticated
+  using (public.has_app_permission('filename_patterns:edit'));
+
+-- stored_documents (writes go through the service role only)
+drop policy if exists stored_documents_select_authenticated on public.stored_documents;
+create policy stored_documents_select_authenticated
+  on public.stored_documents
+  for select
+  to authenticated
+  using (public.has_app_permission('console:view'));
@@ -0,0 +1,59 @@
+-- One-time recovery codes for users who lose their authenticator. Only sha256 hashes are
+-- stored; the codes are shown once when generated on /mfa.
+create table if not exists public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  auth_user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (auth_user_id, code_hash)
+);
+
+create index if not exists mfa_recovery_codes_auth_user_id_idx
+  on public.mfa_recovery_codes (auth_user_id);
+
+-- No policies: codes are generated and redeemed through the service role only.
+alter table public.mfa_recovery_codes enable row level security;
+
+-- Once a user has a verified authenticator, their console permissions only apply to AAL2
+-- sessions, so a stolen password alone cannot reach contacts or send history through the
+-- browser client. The map itself is unchanged from 20260311_add_role_aware_rls.sql.
+create or replace function public.has_app_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (
+    coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    or not exists (
+      select 1
+      from auth.mfa_factors
+      where user_id = auth.uid() and status = 'verified'
+    )
+  )
+  and p_permission = any (
+    case public.app_role()
+      when 'viewer' then array['console:view']
+      when 'contact_editor' then array['console:view', 'contacts:edit']
+      when 'sender' then array['console:view', 'emails:send']
+      when 'approver' then
+        array['console:view', 'emails:send', 'send_jobs:manage', 'templates:edit']
+      when 'super_admin' then
+        array[
+          'console:view',
+          'contacts:edit',
+          'templates:edit',
+          'filename_patterns:edit',
+          'emails:send',
+          'send_jobs:manage',
+          'users:manage'
+        ]
+      else array[]::text[]
+    end
+  );
+$$;
+
+revoke execute on function public.has_app_permission(text) from public, anon;
+grant execute on function public.has_app_permission(text) to authenticated;
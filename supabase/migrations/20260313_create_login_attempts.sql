@@ -0,0 +1,31 @@
+-- Sign-ins through /api/auth/login-by-id, used to slow down and lock out password guessing.
+-- `user_id` is what was typed (lower case) and may not belong to any profile.
+create table if not exists public.login_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  auth_user_id uuid references auth.users (id) on delete set null,
+  ip_address text,
+  outcome text not null check (outcome in ('success', 'failure', 'locked')),
+  -- Set on failures that no longer count: after a successful sign-in or an admin unlock.
+  cleared_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists login_attempts_user_id_created_at_idx
+  on public.login_attempts (user_id, created_at desc);
+
+create index if not exists login_attempts_ip_address_created_at_idx
+  on public.login_attempts (ip_address, created_at desc);
+
+create index if not exists login_attempts_created_at_idx
+  on public.login_attempts (created_at desc);
+
+alter table public.login_attempts enable row level security;
+
+-- The login route writes through the service role; user managers can review attempts.
+drop policy if exists login_attempts_select_authenticated on public.login_attempts;
+create policy login_attempts_select_authenticated
+  on public.login_attempts
+  for select
+  to authenticated
+  using (public.has_app_permission('users:manage'));
@@ -0,0 +1,20 @@
+-- Bill PDFs and extra files of send job items are only needed until the item is sent. The worker
+-- now clears them when an item is sent or fails, and cancelling a job clears its pending items,
+-- so these copies no longer outlive the bill storage retention policy.
+alter table public.send_job_items alter column pdf_base64 drop not null;
+alter table public.send_job_items alter column extra_attachments drop not null;
+
+update public.send_job_items
+set pdf_base64 = null,
+    extra_attachments = null
+where status in ('sent', 'failed')
+  and (pdf_base64 is not null or extra_attachments is not null);
+
+update public.send_job_items as item
+set pdf_base64 = null,
+    extra_attachments = null
+from public.send_jobs as job
+where job.id = item.job_id
+  and job.status = 'cancelled'
+  and item.status = 'pending'
+  and (item.pdf_base64 is not null or item.extra_attachments is not null);
@@ -0,0 +1,49 @@
+-- Reading a PDF password back is its own permission, so contact editors can set passwords without
+-- being able to read every stored one. Keeps the map in line with lib/auth/permissions.ts; the
+-- AAL2 requirement is unchanged from 20260312_create_mfa_recovery_codes.sql.
+create or replace function public.has_app_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (
+    coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    or not exists (
+      select 1
+      from auth.mfa_factors
+      where user_id = auth.uid() and status = 'verified'
+    )
+  )
+  and p_permission = any (
+    case public.app_role()
+      when 'viewer' then array['console:view']
+      when 'contact_editor' then array['console:view', 'contacts:edit']
+      when 'sender' then array['console:view', 'emails:send', 'pdf_passwords:reveal']
+      when 'approver' then
+        array[
+          'console:view',
+          'emails:send',
+          'pdf_passwords:reveal',
+          'send_jobs:manage',
+          'templates:edit'
+        ]
+      when 'super_admin' then
+        array[
+          'console:view',
+          'contacts:edit',
+          'pdf_passwords:reveal',
+          'templates:edit',
+          'filename_patterns:edit',
+          'emails:send',
+          'send_jobs:manage',
+          'users:manage'
+        ]
+      else array[]::text[]
+    end
+  );
+$$;
+
+revoke execute on function public.has_app_permission(text) from public, anon;
+grant execute on function public.has_app_permission(text) to authenticated;
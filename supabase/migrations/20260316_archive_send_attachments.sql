@@ -0,0 +1,9 @@
+-- The account's other files from the ZIP are archived next to the bill PDF, so an archived
+-- resend carries the same attachments (and idempotency key) as the original email.
+alter table public.stored_documents drop constraint if exists stored_documents_kind_check;
+alter table public.stored_documents
+  add constraint stored_documents_kind_check check (kind in ('zip', 'pdf', 'attachment'));
+
+-- Same order as attachment_filenames after the bill PDF.
+alter table public.send_logs
+  add column if not exists attachment_document_ids uuid[] not null default '{}';
@@ -0,0 +1,10 @@
+-- When a contact's email or recipient list last changed. The pre-send checklist flags these
+-- accounts; updated_at also moves on name, PDF password and unchanged re-saves, so it cannot
+-- be used for that. The contacts actions set it only when the addresses actually differ.
+alter table public.contacts
+  add column if not exists recipients_changed_at timestamptz not null default now();
+
+-- Earlier changes were not tracked; updated_at is the closest upper bound.
+update public.contacts
+set recipients_changed_at = updated_at
+where recipients_changed_at > updated_at;
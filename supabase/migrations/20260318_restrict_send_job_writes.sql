@@ -0,0 +1,54 @@
+-- Tightens the send policies from 20260311_add_role_aware_rls.sql so a sender using the browser
+-- client can only touch their own work:
+-- - send_jobs: senders update only their own job while it is uploading. Starting, pausing and
+--   cancelling go through the API routes, which check ownership and write with the service
+--   role; send_jobs:manage still covers every job.
+-- - send_job_items: items can only be added to the caller's own uploading job, so nobody can
+--   slip items into a job another user started.
+-- - send_logs: rows are attributed to the caller; the worker writes through the service role.
+drop policy if exists send_jobs_update_authenticated on public.send_jobs;
+create policy send_jobs_update_authenticated
+  on public.send_jobs
+  for update
+  to authenticated
+  using (
+    (
+      created_by_auth_user_id = auth.uid()
+      and status = 'uploading'
+      and public.has_app_permission('emails:send')
+    )
+    or public.has_app_permission('send_jobs:manage')
+  )
+  with check (
+    (
+      created_by_auth_user_id = auth.uid()
+      and status = 'uploading'
+      and public.has_app_permission('emails:send')
+    )
+    or public.has_app_permission('send_jobs:manage')
+  );
+
+drop policy if exists send_job_items_insert_authenticated on public.send_job_items;
+create policy send_job_items_insert_authenticated
+  on public.send_job_items
+  for insert
+  to authenticated
+  with check (
+    public.has_app_permission('emails:send')
+    and exists (
+      select 1
+      from public.send_jobs j
+      where j.id = job_id
+        and j.created_by_auth_user_id = auth.uid()
+        and j.status = 'uploading'
+    )
+  );
+
+drop policy if exists send_logs_insert_authenticated on public.send_logs;
+create policy send_logs_insert_authenticated
+  on public.send_logs
+  for insert
+  to authenticated
+  with check (
+    public.has_app_permission('emails:send') and sent_by_auth_user_id = auth.uid()
+  );
@@ -0,0 +1,63 @@
+-- Counts the recent failures for a User ID and address and records the new attempt in one
+-- step. Advisory locks on both keys serialize concurrent sign-ins, so parallel requests cannot
+-- all read the same count and slip past the lockout. The attempt is stored as a failure (or
+-- 'locked' when refused) and the login route marks it a success once the password checks out.
+create or replace function public.begin_login_attempt(
+  p_user_id text,
+  p_ip_address text,
+  p_window_minutes integer,
+  p_max_user_failures integer,
+  p_max_ip_failures integer
+)
+returns table (
+  attempt_id uuid,
+  user_failures integer,
+  ip_failures integer,
+  locked boolean
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  window_start timestamptz := now() - make_interval(mins => p_window_minutes);
+  v_user_failures integer;
+  v_ip_failures integer := 0;
+  v_locked boolean;
+  v_attempt_id uuid;
+begin
+  perform pg_advisory_xact_lock(hashtext('login_attempts:user_id:' || p_user_id));
+  if p_ip_address is not null then
+    perform pg_advisory_xact_lock(hashtext('login_attempts:ip_address:' || p_ip_address));
+  end if;
+
+  select count(*)
+  into v_user_failures
+  from public.login_attempts as attempt
+  where attempt.user_id = p_user_id
+    and attempt.outcome = 'failure'
+    and attempt.cleared_at is null
+    and attempt.created_at >= window_start;
+
+  if p_ip_address is not null then
+    select count(*)
+    into v_ip_failures
+    from public.login_attempts as attempt
+    where attempt.ip_address = p_ip_address
+      and attempt.outcome = 'failure'
+      and attempt.cleared_at is null
+      and attempt.created_at >= window_start;
+  end if;
+
+  v_locked := v_user_failures >= p_max_user_failures or v_ip_failures >= p_max_ip_failures;
+
+  insert into public.login_attempts (user_id, ip_address, outcome)
+  values (p_user_id, p_ip_address, case when v_locked then 'locked' else 'failure' end)
+  returning id into v_attempt_id;
+
+  return query select v_attempt_id, v_user_failures, v_ip_failures, v_locked;
+end;
+$$;
+
+revoke execute on function public.begin_login_attempt(text, text, integer, integer, integer)
+  from public, anon, authenticated;
@@ -0,0 +1,36 @@
+-- A send job stays 'uploading' until the console starts it. When the browser is closed or an
+-- upload fails mid-way the job is never started, and its items would keep their PDFs forever.
+-- The worker calls this on every run to cancel uploads with no activity for p_max_age_minutes
+-- and to drop the files of their items.
+create or replace function public.cancel_stale_uploading_send_jobs(p_max_age_minutes integer)
+returns integer
+language sql
+as $$
+  with stale as (
+    update public.send_jobs as job
+    set status = 'cancelled',
+        completed_at = now()
+    where job.status = 'uploading'
+      and job.updated_at < now() - make_interval(mins => p_max_age_minutes)
+      and not exists (
+        select 1
+        from public.send_job_items as item
+        where item.job_id = job.id
+          and item.created_at >= now() - make_interval(mins => p_max_age_minutes)
+      )
+    returning job.id
+  ),
+  cleared as (
+    update public.send_job_items as item
+    set pdf_base64 = null,
+        extra_attachments = null
+    from stale
+    where item.job_id = stale.id
+      and item.status = 'pending'
+    returning item.id
+  )
+  select count(*)::integer from stale;
+$$;
+
+revoke execute on function public.cancel_stale_uploading_send_jobs(integer)
+  from public, anon, authenticated;